@@ -0,0 +1,126 @@
+/**
+ * Write-cost benchmark for the storage layer.
+ * Run with `npm run bench`. Uses a throwaway userData directory, so the
+ * real sessions.db is never touched.
+ *
+ * For growing database sizes it measures the time spent inside
+ * updateSession (what the capture loop pays on every poll) and the time of a
+ * single flush to disk. Per-write cost should stay flat as the database
+ * grows; only the batched flush scales with size.
+ */
+
+import { app } from 'electron';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  initDatabase,
+  closeDatabase,
+  insertSession,
+  updateSession,
+  flushDatabase,
+  getSessionCount,
+} from '../src/storage';
+import { CapturedSession, Message } from '../src/types';
+
+const DB_SIZES = [100, 1000, 5000];
+const WRITES_PER_SIZE = 50;
+const MESSAGES_PER_SESSION = 10;
+
+const FILLER =
+  'The SUMIFS formula adds values that meet several criteria, for example ' +
+  'totals per region and month. Use absolute references for the ranges. ';
+
+function makeThread(turns: number): Message[] {
+  const messages: Message[] = [];
+  for (let i = 0; i < turns; i++) {
+    messages.push({
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: `Message ${i}: ${FILLER.repeat(4)}`,
+    });
+  }
+  return messages;
+}
+
+function makeSession(messages: Message[]): CapturedSession {
+  return {
+    id: uuidv4(),
+    workbook_name: 'Benchmark.xlsx',
+    captured_at: new Date().toISOString(),
+    request_body: '',
+    response_body: '',
+    model: 'claude-for-excel',
+    input_tokens: null,
+    output_tokens: null,
+    user_prompt: messages[0]?.content ?? '',
+    assistant_response: messages
+      .filter(m => m.role === 'assistant')
+      .map(m => m.content)
+      .join('\n\n'),
+  };
+}
+
+function timeMs(fn: () => void): number {
+  const start = process.hrtime.bigint();
+  fn();
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+async function run(): Promise<void> {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-excel-bench-'));
+  app.setPath('userData', tempDir);
+
+  // Silence per-write storage logging while measuring
+  const log = console.log;
+  console.log = () => {};
+
+  await initDatabase();
+
+  const rows: Record<string, string | number>[] = [];
+
+  for (const size of DB_SIZES) {
+    while (getSessionCount() < size) {
+      const messages = makeThread(MESSAGES_PER_SESSION);
+      insertSession(makeSession(messages), messages);
+    }
+    flushDatabase();
+
+    // Simulate a streaming thread: the same session grows on every poll
+    const thread = makeThread(2);
+    const session = makeSession(thread);
+    insertSession(session, thread);
+
+    let writeTotal = 0;
+    for (let i = 0; i < WRITES_PER_SIZE; i++) {
+      thread[thread.length - 1].content += FILLER;
+      writeTotal += timeMs(() =>
+        updateSession({ ...session, captured_at: new Date().toISOString() }, thread)
+      );
+    }
+
+    const flushMs = timeMs(flushDatabase);
+    const fileSize = fs.statSync(path.join(tempDir, 'sessions.db')).size;
+
+    rows.push({
+      sessions: size,
+      'db size (KB)': Math.round(fileSize / 1024),
+      'avg write (ms)': Number((writeTotal / WRITES_PER_SIZE).toFixed(3)),
+      'flush (ms)': Number(flushMs.toFixed(1)),
+    });
+  }
+
+  closeDatabase();
+  console.log = log;
+
+  console.table(rows);
+  fs.rmSync(tempDir, { recursive: true, force: true });
+}
+
+app.whenReady()
+  .then(run)
+  .catch((error) => {
+    console.error('Benchmark failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => app.quit());
@@ -1,33 +1,159 @@
-import express, { Request, Response, Express } from 'express';
+import express, { Request, Response, NextFunction, Express } from 'express';
 import cors from 'cors';
 import { Server } from 'http';
+import fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
 import {
+  listSessions,
   getAllSessions,
   getSessionById,
+  getSessionMessages,
+  getSessionRevisions,
+  getSessionRevision,
+  restoreSessionRevision,
   getSessionsByWorkbook,
   deleteSession,
+  restoreSession,
+  purgeSession,
+  purgeDeletedSessions,
   getSessionCount,
-  searchSessions,
+  updateSessionMeta,
+  getAllTags,
   clearAllSessions,
   insertSession,
+  isDatabaseEncrypted,
 } from './storage';
-import { CapturedSession } from './types';
+import { CapturedSession, ServiceConfig, SessionMetaChanges } from './types';
 import {
   isUICaptureRunning,
   enableCapturing,
   disableCapturing,
 } from './uiCapture';
+import { applyFilterRules, getFilterRules, getFilterRulesPath } from './filterRules';
+import { applyRedaction, getRedactionRules, getRedactionRulesPath } from './redaction';
+import { getConfig, updateConfig, validateConfigChanges, requiresRestart } from './config';
+import { isValidToken, redeemPairingCode } from './auth';
+import { ServiceEvent, subscribeServiceEvents } from './events';
+import { parseSessionListQuery } from './pagination';
+import { EXPORT_FORMATS, ExportFile, ExportSession, exportSessions, isExportFormat } from './export';
+import { getLastRetentionReport, parseRetentionPolicyQuery, previewRetention } from './retention';
+import {
+  createBackup,
+  listBackups,
+  resolveBackupPath,
+  restoreBackup,
+  rotateKey,
+  RESTORE_CONFLICTS,
+  RESTORE_MODES,
+} from './backup';
 
 // Compatibility functions
 function isCapturingEnabled(): boolean {
   return isUICaptureRunning();
 }
 
-const API_PORT = 3847;
-
 let server: Server | null = null;
 let expressApp: Express | null = null;
+// The port the server listens on; ahead of the config while a port change is saved
+let listeningPort: number | null = null;
+// Open /events streams; ended when the server stops so clients reconnect
+const eventStreams = new Set<Response>();
+
+type RevisionParams = { id: string; rev: string };
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_TAG_LENGTH = 40;
+const MAX_TAGS = 20;
+
+// Validate a PATCH /sessions/:id body
+function parseSessionMetaChanges(
+  body: unknown
+): { changes: SessionMetaChanges } | { error: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Body must be a JSON object' };
+  }
+
+  const changes: SessionMetaChanges = {};
+  for (const [key, value] of Object.entries(body)) {
+    switch (key) {
+      case 'title': {
+        if (value !== null && typeof value !== 'string') {
+          return { error: 'title must be a string or null' };
+        }
+        // An empty title goes back to the generated one
+        const title = value === null ? '' : value.replace(/\s+/g, ' ').trim();
+        if (title.length > MAX_TITLE_LENGTH) {
+          return { error: `title must be at most ${MAX_TITLE_LENGTH} characters` };
+        }
+        changes.title = title || null;
+        break;
+      }
+      case 'tags': {
+        if (!Array.isArray(value) || !value.every((tag) => typeof tag === 'string')) {
+          return { error: 'tags must be a list of strings' };
+        }
+        const tags = [...new Set(value.map((tag: string) => tag.trim()).filter(Boolean))];
+        if (tags.length > MAX_TAGS) {
+          return { error: `A session can have at most ${MAX_TAGS} tags` };
+        }
+        if (tags.some((tag) => tag.length > MAX_TAG_LENGTH || /[\r\n]/.test(tag))) {
+          return { error: `Tags must be single-line and at most ${MAX_TAG_LENGTH} characters` };
+        }
+        changes.tags = tags;
+        break;
+      }
+      case 'starred':
+        if (typeof value !== 'boolean') {
+          return { error: 'starred must be a boolean' };
+        }
+        changes.starred = value;
+        break;
+      case 'saved':
+        if (typeof value !== 'boolean') {
+          return { error: 'saved must be a boolean' };
+        }
+        changes.saved = value;
+        break;
+      default:
+        return { error: `Unknown field: ${key}` };
+    }
+  }
+  return { changes };
+}
+
+// Comment lines keep idle streams from being closed by proxies and timeouts
+const EVENT_STREAM_HEARTBEAT_MS = 25000;
+
+function sendExport(res: Response, file: ExportFile): void {
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+  res.send(file.content);
+}
+
+function isAllowedOrigin(origin: string | undefined): boolean {
+  // Requests without an Origin header do not come from a web page
+  return !origin || getConfig().allowedOrigins.includes(origin);
+}
+
+// Requests from other web pages are refused outright, not just left
+// unreadable by the browser
+function rejectForeignOrigins(req: Request, res: Response, next: NextFunction): void {
+  if (!isAllowedOrigin(req.headers.origin)) {
+    res.status(403).json({ error: 'Origin not allowed' });
+    return;
+  }
+  next();
+}
+
+function requireToken(req: Request, res: Response, next: NextFunction): void {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.substring('Bearer '.length) : undefined;
+  if (!isValidToken(token)) {
+    res.status(401).json({ error: 'Not paired with the capture service' });
+    return;
+  }
+  next();
+}
 
 export function startApi(): void {
   if (server) {
@@ -37,16 +163,42 @@ export function startApi(): void {
 
   expressApp = express();
 
-  // Enable CORS for all origins (needed for Excel add-in)
+  // Only the add-in (and other configured origins) may call the API from a browser
   expressApp.use(
     cors({
-      origin: true,
-      credentials: true,
+      origin: (origin, callback) => callback(null, isAllowedOrigin(origin)),
+      // Lets the add-in name downloaded exports
+      exposedHeaders: ['Content-Disposition'],
     })
   );
 
+  // Health check endpoint, open to everyone
+  expressApp.get('/health', (_req: Request, res: Response) => {
+    res.json({ status: 'ok' });
+  });
+
+  expressApp.use(rejectForeignOrigins);
   expressApp.use(express.json());
 
+  // Exchange the pairing code shown in the tray for the API token
+  expressApp.post('/pair', (req: Request, res: Response) => {
+    const { code } = req.body;
+    if (typeof code !== 'string') {
+      res.status(400).json({ error: 'code must be a string' });
+      return;
+    }
+
+    const token = redeemPairingCode(code);
+    if (token) {
+      res.json({ token });
+    } else {
+      res.status(403).json({ error: 'Invalid or expired pairing code' });
+    }
+  });
+
+  // Everything below needs the token
+  expressApp.use(requireToken);
+
   // Get capture status
   expressApp.get('/status', (_req: Request, res: Response) => {
     res.json({
@@ -54,7 +206,38 @@ export function startApi(): void {
       capturing: isCapturingEnabled(),
       sessionCount: getSessionCount(),
       captureMethod: 'ui-automation',
-      apiPort: API_PORT,
+      apiPort: getApiPort(),
+      encrypted: isDatabaseEncrypted(),
+    });
+  });
+
+  // Stream session and capture changes as Server-Sent Events
+  expressApp.get('/events', (req: Request, res: Response) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write('retry: 5000\n\n');
+
+    const send = (event: ServiceEvent) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    // Start with the current status so the client does not need a separate request
+    send({
+      type: 'capture.status',
+      status: { running: isUICaptureRunning(), capturing: isCapturingEnabled() },
+    });
+
+    const unsubscribe = subscribeServiceEvents(send);
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), EVENT_STREAM_HEARTBEAT_MS);
+    eventStreams.add(res);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      eventStreams.delete(res);
     });
   });
 
@@ -73,17 +256,16 @@ export function startApi(): void {
     }
   });
 
-  // List all sessions
+  // List sessions a page at a time, optionally searched and filtered
   expressApp.get('/sessions', (req: Request, res: Response) => {
+    const parsed = parseSessionListQuery(req.query);
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
     try {
-      const { search } = req.query;
-      if (search && typeof search === 'string') {
-        const sessions = searchSessions(search);
-        res.json(sessions);
-      } else {
-        const sessions = getAllSessions();
-        res.json(sessions);
-      }
+      res.json(listSessions(parsed.options));
     } catch (error) {
       res.status(500).json({ error: 'Failed to retrieve sessions' });
     }
@@ -94,7 +276,7 @@ export function startApi(): void {
     try {
       const session = getSessionById(req.params.id);
       if (session) {
-        res.json(session);
+        res.json({ ...session, messages: getSessionMessages(session.id) });
       } else {
         res.status(404).json({ error: 'Session not found' });
       }
@@ -103,6 +285,139 @@ export function startApi(): void {
     }
   });
 
+  // Get the messages of a session
+  expressApp.get('/sessions/:id/messages', (req: Request<{ id: string }>, res: Response) => {
+    try {
+      if (!getSessionById(req.params.id)) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+      res.json(getSessionMessages(req.params.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to retrieve messages' });
+    }
+  });
+
+  // Download a session as md, html, json, jsonl or csv
+  expressApp.get('/sessions/:id/export', (req: Request<{ id: string }>, res: Response) => {
+    const format = req.query.format ?? 'md';
+    if (!isExportFormat(format)) {
+      res.status(400).json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` });
+      return;
+    }
+
+    try {
+      const session = getSessionById(req.params.id);
+      if (!session) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+      sendExport(res, exportSessions([{ session, messages: getSessionMessages(session.id) }], format));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to export session' });
+    }
+  });
+
+  // Edit a session's title, tags or star
+  expressApp.patch('/sessions/:id', (req: Request<{ id: string }>, res: Response) => {
+    const parsed = parseSessionMetaChanges(req.body);
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      const session = updateSessionMeta(req.params.id, parsed.changes);
+      if (session) {
+        res.json(session);
+      } else {
+        res.status(404).json({ error: 'Session not found' });
+      }
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update session' });
+    }
+  });
+
+  // Download several sessions as one file: { format, ids }; without ids,
+  // every live session is exported
+  expressApp.post('/export', (req: Request, res: Response) => {
+    const { format = 'md', ids } = req.body;
+    if (!isExportFormat(format)) {
+      res.status(400).json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` });
+      return;
+    }
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id) => typeof id === 'string'))) {
+      res.status(400).json({ error: 'ids must be a list of session ids' });
+      return;
+    }
+
+    try {
+      const sessionIds: string[] = ids ?? getAllSessions().map((s) => s.id);
+      const items: ExportSession[] = [];
+      for (const id of sessionIds) {
+        const session = getSessionById(id);
+        if (!session) {
+          res.status(404).json({ error: `Session not found: ${id}` });
+          return;
+        }
+        items.push({ session, messages: getSessionMessages(id) });
+      }
+      sendExport(res, exportSessions(items, format));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to export sessions' });
+    }
+  });
+
+  // Every tag in use
+  expressApp.get('/tags', (_req: Request, res: Response) => {
+    try {
+      res.json(getAllTags());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to retrieve tags' });
+    }
+  });
+
+  // Revision history of a session
+  expressApp.get('/sessions/:id/revisions', (req: Request<{ id: string }>, res: Response) => {
+    try {
+      if (!getSessionById(req.params.id)) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+      res.json(getSessionRevisions(req.params.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to retrieve revisions' });
+    }
+  });
+
+  // The thread as it was at one revision
+  expressApp.get('/sessions/:id/revisions/:rev', (req: Request<RevisionParams>, res: Response) => {
+    try {
+      const revision = getSessionRevision(req.params.id, Number(req.params.rev));
+      if (revision) {
+        res.json(revision);
+      } else {
+        res.status(404).json({ error: 'Revision not found' });
+      }
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to retrieve revision' });
+    }
+  });
+
+  // Bring a thread back to an earlier revision (recorded as a new revision)
+  expressApp.post('/sessions/:id/revisions/:rev/restore', (req: Request<RevisionParams>, res: Response) => {
+    try {
+      if (!restoreSessionRevision(req.params.id, Number(req.params.rev))) {
+        res.status(404).json({ error: 'Revision not found' });
+        return;
+      }
+      const session = getSessionById(req.params.id);
+      res.json({ ...session, messages: getSessionMessages(req.params.id) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to restore revision' });
+    }
+  });
+
   // Get sessions by workbook name
   expressApp.get('/sessions/workbook/:name', (req: Request<{ name: string }>, res: Response) => {
     try {
@@ -113,10 +428,12 @@ export function startApi(): void {
     }
   });
 
-  // Delete session
+  // Move a session to the trash, or remove it for good with ?permanent=true
   expressApp.delete('/sessions/:id', (req: Request<{ id: string }>, res: Response) => {
     try {
-      const deleted = deleteSession(req.params.id);
+      const deleted = req.query.permanent === 'true'
+        ? purgeSession(req.params.id)
+        : deleteSession(req.params.id);
       if (deleted) {
         res.json({ success: true });
       } else {
@@ -127,25 +444,219 @@ export function startApi(): void {
     }
   });
 
-  // Clear all sessions
-  expressApp.delete('/sessions', (_req: Request, res: Response) => {
+  // Take a session back out of the trash
+  expressApp.post('/sessions/:id/restore', (req: Request<{ id: string }>, res: Response) => {
     try {
-      clearAllSessions();
-      res.json({ success: true });
+      const session = restoreSession(req.params.id);
+      if (session) {
+        res.json(session);
+      } else {
+        res.status(404).json({ error: 'Session not found in trash' });
+      }
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to restore session' });
+    }
+  });
+
+  // Move all sessions to the trash, or empty the trash with ?deleted=true
+  expressApp.delete('/sessions', (req: Request, res: Response) => {
+    try {
+      if (req.query.deleted === 'true') {
+        const purged = purgeDeletedSessions();
+        res.json({ success: true, purged });
+      } else {
+        clearAllSessions();
+        res.json({ success: true });
+      }
     } catch (error) {
       res.status(500).json({ error: 'Failed to clear sessions' });
     }
   });
 
-  // Health check endpoint
-  expressApp.get('/health', (_req: Request, res: Response) => {
-    res.json({ status: 'ok' });
+  // Service settings
+  expressApp.get('/config', (_req: Request, res: Response) => {
+    res.json(getConfig());
+  });
+
+  // Change service settings; poll interval, port and notifications apply at once
+  expressApp.put('/config', (req: Request, res: Response) => {
+    const errors = validateConfigChanges(req.body);
+    if (errors.length > 0) {
+      res.status(400).json({ error: errors.join('; ') });
+      return;
+    }
+
+    const previous = getConfig();
+    const changes = req.body as Partial<ServiceConfig>;
+    const save = () => {
+      try {
+        const config = updateConfig(changes);
+        res.json({ ...config, restartRequired: requiresRestart(config, previous) });
+      } catch (error) {
+        // Back to the port that is still in the config
+        restartApi();
+        res.status(500).json({ error: 'Failed to save config' });
+      }
+    };
+
+    if (changes.apiPort === undefined || changes.apiPort === previous.apiPort) {
+      save();
+      return;
+    }
+
+    // The port is only saved once the server listens on it
+    const port = changes.apiPort;
+    moveApi(port, (error) => {
+      if (error) {
+        res.status(409).json({ error: `Port ${port} is not available: ${error.message}` });
+        return;
+      }
+      // The server on the old port stops; don't keep this connection alive on it
+      res.set('Connection', 'close');
+      save();
+    });
+  });
+
+  // Re-encrypt sessions.db (and its backups and snapshots) with a new key
+  expressApp.post('/database/rotate-key', (_req: Request, res: Response) => {
+    if (!isDatabaseEncrypted()) {
+      res.status(409).json({ error: 'The database is not encrypted on this system' });
+      return;
+    }
+    try {
+      rotateKey();
+      res.json({ success: true });
+    } catch (error) {
+      console.error('[API] Key rotation failed:', error);
+      res.status(500).json({ error: 'Failed to rotate the database key' });
+    }
+  });
+
+  // Snapshots in the backups folder, newest first
+  expressApp.get('/backups', (_req: Request, res: Response) => {
+    try {
+      res.json({ backups: listBackups() });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to list backups' });
+    }
+  });
+
+  // Take a snapshot now. { "portable": true } writes it unencrypted, so it
+  // can be restored on another machine.
+  expressApp.post('/backup', (req: Request, res: Response) => {
+    const portable = req.body?.portable ?? false;
+    if (typeof portable !== 'boolean') {
+      res.status(400).json({ error: 'portable must be true or false' });
+      return;
+    }
+
+    try {
+      res.json(createBackup('manual', portable));
+    } catch (error) {
+      console.error('[API] Backup failed:', error);
+      res.status(500).json({ error: 'Failed to back up the database' });
+    }
+  });
+
+  // Restore a backup: { "file": name from GET /backups or an absolute path,
+  // "mode": "merge" | "replace", "conflict": "newest" | "keep" | "overwrite" }
+  expressApp.post('/restore', (req: Request, res: Response) => {
+    const { file, mode, conflict = 'newest' } = req.body ?? {};
+    const filePath = typeof file === 'string' ? resolveBackupPath(file) : null;
+    if (!filePath) {
+      res.status(400).json({ error: 'file must be a snapshot in the backups folder, as listed by GET /backups' });
+      return;
+    }
+    if (!RESTORE_MODES.includes(mode)) {
+      res.status(400).json({ error: `mode must be one of ${RESTORE_MODES.join(', ')}` });
+      return;
+    }
+    if (!RESTORE_CONFLICTS.includes(conflict)) {
+      res.status(400).json({ error: `conflict must be one of ${RESTORE_CONFLICTS.join(', ')}` });
+      return;
+    }
+    if (!fs.existsSync(filePath)) {
+      res.status(404).json({ error: 'Backup file not found' });
+      return;
+    }
+
+    try {
+      const restored = restoreBackup(filePath, mode, conflict);
+      if ('error' in restored) {
+        res.status(400).json({ error: restored.error });
+        return;
+      }
+      res.json(restored.result);
+    } catch (error) {
+      console.error('[API] Restore failed:', error);
+      res.status(500).json({ error: 'Failed to restore the backup' });
+    }
+  });
+
+  // Sessions the retention policy would remove now; query parameters try out
+  // changes to the saved policy without saving them
+  expressApp.get('/retention/preview', (req: Request, res: Response) => {
+    const parsed = parseRetentionPolicyQuery(req.query as Record<string, unknown>);
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      res.json({
+        enabled: getConfig().retentionEnabled,
+        ...previewRetention(parsed.policy),
+        lastRun: getLastRetentionReport(),
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to preview retention' });
+    }
+  });
+
+  // Current UI-noise filter rules
+  expressApp.get('/filters', (_req: Request, res: Response) => {
+    res.json({ path: getFilterRulesPath(), ...getFilterRules() });
+  });
+
+  // Show which filter rule (if any) would drop a captured text
+  expressApp.post('/filters/test', (req: Request, res: Response) => {
+    const { text, role = 'user' } = req.body;
+    if (typeof text !== 'string') {
+      res.status(400).json({ error: 'text must be a string' });
+      return;
+    }
+    if (role !== 'user' && role !== 'assistant') {
+      res.status(400).json({ error: 'role must be "user" or "assistant"' });
+      return;
+    }
+
+    const result = applyFilterRules(text, role);
+    res.json({ dropped: result.content === null, ...result });
+  });
+
+  // Current redaction settings (the hash key is left out)
+  expressApp.get('/redaction', (_req: Request, res: Response) => {
+    res.json({ path: getRedactionRulesPath(), ...getRedactionRules() });
+  });
+
+  // Dry run: show what redaction would do to a text, without storing anything
+  expressApp.post('/redaction/test', (req: Request, res: Response) => {
+    const { text } = req.body;
+    if (typeof text !== 'string') {
+      res.status(400).json({ error: 'text must be a string' });
+      return;
+    }
+
+    const result = applyRedaction(text);
+    res.json({ dropped: result.content === null, ...result });
   });
 
   // Test endpoint: Add a mock session
   expressApp.post('/test/session', (req: Request, res: Response) => {
     try {
       const { userPrompt, assistantResponse } = req.body;
+      const prompt: string = userPrompt || 'Test prompt';
+      const response: string = assistantResponse || 'Test response from Claude';
 
       const session: CapturedSession = {
         id: uuidv4(),
@@ -153,41 +664,87 @@ export function startApi(): void {
         captured_at: new Date().toISOString(),
         request_body: JSON.stringify({
           model: 'claude-3-haiku-20240307',
-          messages: [{ role: 'user', content: userPrompt || 'Test prompt' }],
+          messages: [{ role: 'user', content: prompt }],
         }),
         response_body: JSON.stringify({
-          content: [{ type: 'text', text: assistantResponse || 'Test response from Claude' }],
+          content: [{ type: 'text', text: response }],
           model: 'claude-3-haiku-20240307',
           usage: { input_tokens: 10, output_tokens: 20 },
         }),
         model: 'claude-3-haiku-20240307',
         input_tokens: 10,
         output_tokens: 20,
-        user_prompt: userPrompt || 'Test prompt',
-        assistant_response: assistantResponse || 'Test response from Claude',
+        user_prompt: prompt,
+        assistant_response: response,
       };
 
-      insertSession(session);
+      insertSession(session, [
+        { role: 'user', content: prompt },
+        { role: 'assistant', content: response },
+      ]);
       res.json({ success: true, session });
     } catch (error) {
       res.status(500).json({ error: 'Failed to create test session' });
     }
   });
 
-  server = expressApp.listen(API_PORT, 'localhost', () => {
-    console.log(`API server running on http://localhost:${API_PORT}`);
+  const port = getApiPort();
+  server = expressApp.listen(port, 'localhost', () => {
+    console.log(`API server running on http://localhost:${port}`);
+  });
+  listeningPort = port;
+  server.on('error', (error) => {
+    console.error(`[API] Failed to listen on port ${port}:`, error.message);
+  });
+}
+
+// Move the running server to another port. The new port is bound first and
+// the old listener only closed once that worked, so a port that is in use
+// leaves the API where it was.
+function moveApi(port: number, done: (error: Error | null) => void): void {
+  if (!expressApp || !server) {
+    done(new Error('the API server is not running'));
+    return;
+  }
+
+  const next = expressApp.listen(port, 'localhost');
+  next.once('error', (error) => {
+    console.error(`[API] Failed to listen on port ${port}:`, error.message);
+    done(error);
+  });
+  next.once('listening', () => {
+    const previous = server;
+    server = next;
+    listeningPort = port;
+    for (const stream of eventStreams) {
+      stream.end();
+    }
+    previous?.close();
+    console.log(`API server moved to http://localhost:${port}`);
+    done(null);
   });
 }
 
 export function stopApi(): void {
   if (server) {
+    for (const stream of eventStreams) {
+      stream.end();
+    }
     server.close();
     server = null;
     expressApp = null;
+    listeningPort = null;
     console.log('API server stopped');
   }
 }
 
 export function getApiPort(): number {
-  return API_PORT;
+  return getConfig().apiPort;
+}
+
+// Rebind on the configured port, unless the server already listens there
+export function restartApi(): void {
+  if (server && listeningPort === getApiPort()) return;
+  stopApi();
+  startApi();
 }
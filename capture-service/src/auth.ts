@@ -0,0 +1,115 @@
+import { app } from 'electron';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Every API route except /health and /pair needs the per-install token.
+// The add-in gets it once by pairing: the tray shows a short-lived code, the
+// add-in sends it to POST /pair and receives the token in exchange.
+
+const PAIRING_CODE_TTL_MS = 5 * 60 * 1000;
+// Wrong codes allowed before the current code is thrown away
+const MAX_PAIRING_ATTEMPTS = 5;
+
+interface PairingCode {
+  code: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+let token: string | null = null;
+let pairing: PairingCode | null = null;
+
+function getAuthPath(): string {
+  return path.join(app.getPath('userData'), 'auth.json');
+}
+
+function generateToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+function saveToken(value: string): void {
+  fs.writeFileSync(getAuthPath(), JSON.stringify({ token: value }, null, 2), { mode: 0o600 });
+}
+
+// Compare secrets without leaking how much of them matched
+function secretsEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+export function loadAuthToken(): void {
+  const authPath = getAuthPath();
+
+  try {
+    if (fs.existsSync(authPath)) {
+      const stored = JSON.parse(fs.readFileSync(authPath, 'utf8')) as { token?: unknown };
+      if (typeof stored.token === 'string' && stored.token.length >= 32) {
+        token = stored.token;
+        return;
+      }
+      console.error('[Auth] Ignoring invalid token in', authPath);
+    }
+  } catch (error) {
+    console.error('[Auth] Failed to read', authPath + ':', error);
+  }
+
+  token = generateToken();
+  saveToken(token);
+  console.log('[Auth] Generated a new API token');
+}
+
+function getAuthToken(): string {
+  if (!token) {
+    loadAuthToken();
+  }
+  return token as string;
+}
+
+// Replace the token; every paired add-in has to pair again
+export function resetAuthToken(): void {
+  token = generateToken();
+  saveToken(token);
+  pairing = null;
+  console.log('[Auth] API token reset, paired add-ins must pair again');
+}
+
+export function isValidToken(candidate: string | undefined): boolean {
+  return !!candidate && secretsEqual(candidate, getAuthToken());
+}
+
+// Start pairing: returns a 6-digit code to show to the user
+export function startPairing(): string {
+  const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+  pairing = { code, expiresAt: Date.now() + PAIRING_CODE_TTL_MS, attempts: 0 };
+  console.log('[Auth] Pairing code issued');
+  return code;
+}
+
+export function getPairingCodeTtlMinutes(): number {
+  return PAIRING_CODE_TTL_MS / 60000;
+}
+
+// Exchange a pairing code for the token. Codes are single use.
+export function redeemPairingCode(code: string): string | null {
+  if (!pairing) return null;
+
+  if (Date.now() > pairing.expiresAt) {
+    pairing = null;
+    return null;
+  }
+
+  if (!secretsEqual(code.trim(), pairing.code)) {
+    pairing.attempts++;
+    if (pairing.attempts >= MAX_PAIRING_ATTEMPTS) {
+      console.log('[Auth] Too many wrong pairing codes, code discarded');
+      pairing = null;
+    }
+    return null;
+  }
+
+  pairing = null;
+  console.log('[Auth] Add-in paired');
+  return getAuthToken();
+}
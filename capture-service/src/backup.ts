@@ -0,0 +1,210 @@
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import type { Database } from 'sql.js';
+import {
+  exportDatabase,
+  mergeDatabase,
+  openBackupDatabase,
+  replaceDatabase,
+  rotateDatabaseKey,
+} from './storage';
+import { encryptDatabase, isEncryptedFile } from './encryption';
+import { getConfig } from './config';
+import { BackupInfo, BackupKind, RestoreConflict, RestoreMode, RestoreResult } from './types';
+
+// Snapshots of the database in the backups folder in userData: every
+// backupIntervalHours while backupEnabled is on, on demand (tray, POST /backup)
+// and before every restore. Only the newest backupKeepCount are kept.
+//
+// Snapshots are encrypted like sessions.db, so they only restore on this
+// machine. A portable snapshot is plain SQLite, for moving the history to
+// another machine.
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const RESTORE_MODES: RestoreMode[] = ['merge', 'replace'];
+export const RESTORE_CONFLICTS: RestoreConflict[] = ['newest', 'keep', 'overwrite'];
+
+// sessions-2026-10-19T08-30-00-000Z-scheduled.db, -portable before .db when plain
+const BACKUP_NAME_PATTERN = /^sessions-[\dTZ-]+-(scheduled|manual|pre-restore)(-portable)?\.db$/;
+
+let checkTimer: NodeJS.Timeout | null = null;
+let lastBackupAt: number | null = null;
+
+export function getBackupsDir(): string {
+  return path.join(app.getPath('userData'), 'backups');
+}
+
+function readHeader(filePath: string): Buffer {
+  const header = Buffer.alloc(16);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    fs.readSync(fd, header, 0, header.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  return header;
+}
+
+// Snapshots in the backups folder, newest first
+export function listBackups(): BackupInfo[] {
+  const dir = getBackupsDir();
+  if (!fs.existsSync(dir)) return [];
+
+  const backups: BackupInfo[] = [];
+  for (const name of fs.readdirSync(dir)) {
+    const match = BACKUP_NAME_PATTERN.exec(name);
+    if (!match) continue;
+
+    const filePath = path.join(dir, name);
+    try {
+      const stats = fs.statSync(filePath);
+      backups.push({
+        name,
+        path: filePath,
+        kind: match[1] as BackupKind,
+        created_at: stats.mtime.toISOString(),
+        bytes: stats.size,
+        encrypted: isEncryptedFile(readHeader(filePath)),
+      });
+    } catch (error) {
+      console.error('[Backup] Failed to read', filePath + ':', error);
+    }
+  }
+  return backups.sort((a, b) => b.created_at.localeCompare(a.created_at) || b.name.localeCompare(a.name));
+}
+
+// Delete all but the newest backupKeepCount snapshots of a kind, so safety
+// snapshots taken by restores never push out scheduled or manual ones.
+// `keepPath` (a snapshot being restored) is never deleted.
+function rotateBackups(kind: BackupKind, keepPath?: string): void {
+  const backups = listBackups().filter((backup) => backup.kind === kind);
+  for (const backup of backups.slice(getConfig().backupKeepCount)) {
+    if (keepPath && path.resolve(backup.path) === path.resolve(keepPath)) continue;
+    try {
+      fs.rmSync(backup.path, { force: true });
+      console.log('[Backup] Removed old snapshot', backup.name);
+    } catch (error) {
+      console.error('[Backup] Failed to remove', backup.path + ':', error);
+    }
+  }
+}
+
+// Write a snapshot of the database as it is now (including unsaved changes)
+export function createBackup(kind: BackupKind, portable = false, keepPath?: string): BackupInfo {
+  const dir = getBackupsDir();
+  fs.mkdirSync(dir, { recursive: true });
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const name = `sessions-${stamp}-${kind}${portable ? '-portable' : ''}.db`;
+  const filePath = path.join(dir, name);
+  const data = portable ? exportDatabase() : encryptDatabase(exportDatabase());
+
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, data, { mode: 0o600 });
+  fs.renameSync(tempPath, filePath);
+  lastBackupAt = Date.now();
+  console.log('[Backup] Wrote', name);
+
+  rotateBackups(kind, keepPath);
+  return {
+    name,
+    path: filePath,
+    kind,
+    created_at: new Date(lastBackupAt).toISOString(),
+    bytes: data.length,
+    encrypted: isEncryptedFile(data),
+  };
+}
+
+// Rotate the database key, re-encrypting the encrypted snapshots along with
+// sessions.db so they stay restorable; portable ones stay plain
+export function rotateKey(): void {
+  const snapshots = listBackups().filter((backup) => backup.encrypted);
+  rotateDatabaseKey(snapshots.map((backup) => backup.path));
+}
+
+// A snapshot name from GET /backups, or the absolute path of one; null for
+// anything else, so API callers cannot have other files read. Backups kept
+// elsewhere are restored from the tray, where the user picks the file.
+export function resolveBackupPath(file: string): string | null {
+  const dir = getBackupsDir();
+  const filePath = path.resolve(dir, file);
+  if (path.dirname(filePath) !== path.resolve(dir) || !BACKUP_NAME_PATTERN.test(path.basename(filePath))) {
+    return null;
+  }
+  return filePath;
+}
+
+// Restore a backup file. The file is decrypted, checked and migrated in
+// memory first; a snapshot of the current database is taken before anything
+// changes. Returns an error for files that cannot be restored.
+export function restoreBackup(
+  filePath: string,
+  mode: RestoreMode,
+  conflict: RestoreConflict = 'newest'
+): { result: RestoreResult } | { error: string } {
+  let restored: Database;
+  try {
+    restored = openBackupDatabase(fs.readFileSync(filePath));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error('[Backup] Cannot restore', filePath + ':', reason);
+    return { error: `${path.basename(filePath)} cannot be restored: ${reason}` };
+  }
+
+  // Closed unless it became the live database
+  let swapped = false;
+  try {
+    const sessions = Number(restored.exec('SELECT COUNT(*) FROM sessions')[0]?.values[0]?.[0] ?? 0);
+    const safetyBackup = createBackup('pre-restore', false, filePath);
+
+    // A replace brings in every session of the backup
+    let counts = { added: sessions, replaced: 0, skipped: 0 };
+    if (mode === 'replace') {
+      swapped = true;
+      replaceDatabase(restored);
+    } else {
+      counts = mergeDatabase(restored, conflict);
+    }
+
+    console.log(
+      `[Backup] Restored ${filePath} (${mode}):`,
+      `${counts.added} added, ${counts.replaced} replaced, ${counts.skipped} kept`
+    );
+    return { result: { mode, conflict, sessions, ...counts, safety_backup: safetyBackup.name } };
+  } finally {
+    if (!swapped) restored.close();
+  }
+}
+
+// Take a scheduled snapshot when enabled and the last one is old enough
+export function checkBackups(): void {
+  const config = getConfig();
+  if (!config.backupEnabled) return;
+  if (lastBackupAt !== null && Date.now() - lastBackupAt < config.backupIntervalHours * HOUR_MS) return;
+
+  try {
+    createBackup('scheduled');
+  } catch (error) {
+    console.error('[Backup] Scheduled snapshot failed:', error);
+  }
+}
+
+export function startBackups(): void {
+  if (checkTimer) return;
+  const newest = listBackups()[0];
+  lastBackupAt = newest ? Date.parse(newest.created_at) : null;
+
+  checkBackups();
+  checkTimer = setInterval(checkBackups, CHECK_INTERVAL_MS);
+}
+
+export function stopBackups(): void {
+  if (checkTimer) {
+    clearInterval(checkTimer);
+    checkTimer = null;
+  }
+}
@@ -0,0 +1,199 @@
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { ServiceConfig } from './types';
+
+// Service settings, stored as config.json in userData. Fields missing from the
+// file (or invalid) fall back to the defaults below.
+
+const DEFAULT_CONFIG: ServiceConfig = {
+  apiPort: 3847,
+  pollIntervalMs: 3000,
+  notifications: true,
+  recordMode: false,
+  // null keeps the database in userData
+  databasePath: null,
+  allowedOrigins: ['https://localhost:3003'],
+  trashRetentionDays: 30,
+  // Retention is off until enabled; GET /retention/preview shows its effect
+  retentionEnabled: false,
+  retentionMaxAgeDays: null,
+  retentionMaxSessions: null,
+  retentionMaxDatabaseMB: null,
+  retentionKeepStarred: true,
+  retentionKeepSaved: true,
+  backupEnabled: true,
+  backupIntervalHours: 24,
+  backupKeepCount: 7,
+};
+
+const MIN_POLL_INTERVAL_MS = 500;
+const MAX_POLL_INTERVAL_MS = 60000;
+const MAX_TRASH_RETENTION_DAYS = 365;
+const MAX_BACKUP_INTERVAL_HOURS = 24 * 30;
+const MAX_BACKUP_KEEP_COUNT = 100;
+// Upper bounds of the retention limits
+export const RETENTION_LIMITS = {
+  retentionMaxAgeDays: 3650,
+  retentionMaxSessions: 1000000,
+  retentionMaxDatabaseMB: 10240,
+};
+// scheme://host[:port], without a path or trailing slash
+const ORIGIN_PATTERN = /^https?:\/\/[^/\s]+$/;
+
+type ConfigListener = (config: ServiceConfig, previous: ServiceConfig) => void;
+
+let config: ServiceConfig = { ...DEFAULT_CONFIG };
+const listeners: ConfigListener[] = [];
+
+export function getConfigPath(): string {
+  return path.join(app.getPath('userData'), 'config.json');
+}
+
+// Check one field; returns an error message or null
+function validateField(key: keyof ServiceConfig, value: unknown): string | null {
+  switch (key) {
+    case 'apiPort':
+      return Number.isInteger(value) && (value as number) >= 1024 && (value as number) <= 65535
+        ? null
+        : 'apiPort must be an integer between 1024 and 65535';
+    case 'pollIntervalMs':
+      return Number.isInteger(value) &&
+        (value as number) >= MIN_POLL_INTERVAL_MS &&
+        (value as number) <= MAX_POLL_INTERVAL_MS
+        ? null
+        : `pollIntervalMs must be an integer between ${MIN_POLL_INTERVAL_MS} and ${MAX_POLL_INTERVAL_MS}`;
+    case 'notifications':
+      return typeof value === 'boolean' ? null : 'notifications must be a boolean';
+    case 'recordMode':
+      return typeof value === 'boolean' ? null : 'recordMode must be a boolean';
+    case 'databasePath':
+      return value === null || (typeof value === 'string' && path.isAbsolute(value))
+        ? null
+        : 'databasePath must be an absolute path or null';
+    case 'allowedOrigins':
+      return Array.isArray(value) && value.every(origin => typeof origin === 'string' && ORIGIN_PATTERN.test(origin))
+        ? null
+        : 'allowedOrigins must be a list of origins like https://localhost:3003';
+    case 'trashRetentionDays':
+      return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_TRASH_RETENTION_DAYS
+        ? null
+        : `trashRetentionDays must be an integer between 1 and ${MAX_TRASH_RETENTION_DAYS}`;
+    case 'retentionMaxAgeDays':
+    case 'retentionMaxSessions':
+    case 'retentionMaxDatabaseMB':
+      return value === null ||
+        (Number.isInteger(value) && (value as number) >= 1 && (value as number) <= RETENTION_LIMITS[key])
+        ? null
+        : `${key} must be null or an integer between 1 and ${RETENTION_LIMITS[key]}`;
+    case 'retentionEnabled':
+    case 'retentionKeepStarred':
+    case 'retentionKeepSaved':
+    case 'backupEnabled':
+      return typeof value === 'boolean' ? null : `${key} must be a boolean`;
+    case 'backupIntervalHours':
+      return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_BACKUP_INTERVAL_HOURS
+        ? null
+        : `backupIntervalHours must be an integer between 1 and ${MAX_BACKUP_INTERVAL_HOURS}`;
+    case 'backupKeepCount':
+      return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_BACKUP_KEEP_COUNT
+        ? null
+        : `backupKeepCount must be an integer between 1 and ${MAX_BACKUP_KEEP_COUNT}`;
+  }
+}
+
+// Validate a partial update; returns a list of problems (empty when valid)
+export function validateConfigChanges(changes: unknown): string[] {
+  if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+    return ['Config must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(changes)) {
+    if (!(key in DEFAULT_CONFIG)) {
+      errors.push(`Unknown setting: ${key}`);
+      continue;
+    }
+    const error = validateField(key as keyof ServiceConfig, value);
+    if (error) {
+      errors.push(error);
+    }
+  }
+  return errors;
+}
+
+function saveConfig(settings: ServiceConfig): void {
+  fs.writeFileSync(getConfigPath(), JSON.stringify(settings, null, 2));
+}
+
+export function loadConfig(): ServiceConfig {
+  const configPath = getConfigPath();
+  const loaded: ServiceConfig = { ...DEFAULT_CONFIG };
+
+  try {
+    if (fs.existsSync(configPath)) {
+      const file = JSON.parse(fs.readFileSync(configPath, 'utf8')) as Record<string, unknown>;
+      for (const key of Object.keys(DEFAULT_CONFIG) as (keyof ServiceConfig)[]) {
+        if (!(key in file)) continue;
+        const error = validateField(key, file[key]);
+        if (error) {
+          console.error(`[Config] Using default for ${key}:`, error);
+        } else {
+          (loaded as unknown as Record<string, unknown>)[key] = file[key];
+        }
+      }
+    }
+  } catch (error) {
+    console.error('[Config] Using defaults, failed to read', configPath + ':', error);
+  }
+
+  config = loaded;
+  // Write the defaults once so there is a file to edit; an existing file is
+  // never overwritten on load, even when parts of it are invalid
+  if (!fs.existsSync(configPath)) {
+    try {
+      saveConfig(config);
+    } catch (error) {
+      console.error('[Config] Failed to write', configPath + ':', error);
+    }
+  }
+  console.log('[Config] Loaded', config);
+  return config;
+}
+
+export function getConfig(): ServiceConfig {
+  return config;
+}
+
+// Apply validated changes, save them and tell listeners what changed
+export function updateConfig(changes: Partial<ServiceConfig>): ServiceConfig {
+  const errors = validateConfigChanges(changes);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+
+  // Only applied once saved, so a failed write leaves the running settings alone
+  const previous = config;
+  const updated = { ...config, ...changes };
+  saveConfig(updated);
+  config = updated;
+  console.log('[Config] Updated', changes);
+
+  for (const listener of listeners) {
+    try {
+      listener(config, previous);
+    } catch (error) {
+      console.error('[Config] Failed to apply change:', error);
+    }
+  }
+  return config;
+}
+
+export function onConfigChange(listener: ConfigListener): void {
+  listeners.push(listener);
+}
+
+// Settings that only take effect after a restart
+export function requiresRestart(config: ServiceConfig, previous: ServiceConfig): boolean {
+  return config.databasePath !== previous.databasePath;
+}
@@ -0,0 +1,157 @@
+import { app, safeStorage } from 'electron';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// sessions.db is encrypted with AES-256-GCM. The key is random and is kept in
+// database-key.json in userData, itself encrypted by the OS credential store
+// (safeStorage: DPAPI on Windows, Keychain on macOS). Where safeStorage is not
+// available the database stays in plaintext.
+//
+// Encrypted file layout: MAGIC | IV (12 bytes) | auth tag (16 bytes) | ciphertext
+
+const MAGIC = Buffer.from('CEMDBv1\0', 'ascii');
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+// Every plaintext SQLite file starts with this
+const SQLITE_HEADER = Buffer.from('SQLite format 3\0', 'ascii');
+
+// Decrypted keys, newest first. More than one only while a rotation is
+// under way, so a crash mid-rotation never loses the key to a file.
+let keys: Buffer[] | null = null;
+
+function getKeyPath(): string {
+  return path.join(app.getPath('userData'), 'database-key.json');
+}
+
+export function isEncryptionAvailable(): boolean {
+  return safeStorage.isEncryptionAvailable();
+}
+
+export function isEncryptedFile(data: Uint8Array): boolean {
+  return data.length >= MAGIC.length && Buffer.from(data.subarray(0, MAGIC.length)).equals(MAGIC);
+}
+
+export function isPlaintextDatabase(data: Uint8Array): boolean {
+  return (
+    data.length >= SQLITE_HEADER.length &&
+    Buffer.from(data.subarray(0, SQLITE_HEADER.length)).equals(SQLITE_HEADER)
+  );
+}
+
+function loadKeys(): Buffer[] {
+  if (keys) return keys;
+
+  const keyPath = getKeyPath();
+  if (!fs.existsSync(keyPath)) {
+    keys = [];
+    return keys;
+  }
+
+  const stored = JSON.parse(fs.readFileSync(keyPath, 'utf8')) as { keys?: unknown };
+  if (!Array.isArray(stored.keys) || !stored.keys.every((k) => typeof k === 'string')) {
+    throw new Error(`${keyPath} is not a valid key file`);
+  }
+  keys = (stored.keys as string[]).map((k) =>
+    Buffer.from(safeStorage.decryptString(Buffer.from(k, 'base64')), 'hex')
+  );
+  return keys;
+}
+
+function saveKeys(updated: Buffer[]): void {
+  const stored = updated.map((k) => safeStorage.encryptString(k.toString('hex')).toString('base64'));
+  const keyPath = getKeyPath();
+  const tempPath = `${keyPath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify({ keys: stored }, null, 2), { mode: 0o600 });
+  fs.renameSync(tempPath, keyPath);
+  keys = updated;
+}
+
+function getCurrentKey(): Buffer {
+  const loaded = loadKeys();
+  if (loaded.length > 0) {
+    return loaded[0];
+  }
+  const key = crypto.randomBytes(KEY_LENGTH);
+  saveKeys([key]);
+  console.log('[Encryption] Created a database key');
+  return key;
+}
+
+// Bytes to write to disk: encrypted when the credential store is available
+export function encryptDatabase(data: Uint8Array): Uint8Array {
+  if (!isEncryptionAvailable()) {
+    return data;
+  }
+
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getCurrentKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([MAGIC, iv, cipher.getAuthTag(), ciphertext]);
+}
+
+// Plain SQLite bytes from a file read from disk, encrypted or not
+export function decryptDatabase(data: Uint8Array): Uint8Array {
+  if (!isEncryptedFile(data)) {
+    return data;
+  }
+  if (!isEncryptionAvailable()) {
+    throw new Error(
+      'sessions.db is encrypted, but the OS credential store that holds its key is not available'
+    );
+  }
+
+  const loaded = loadKeys();
+  if (loaded.length === 0) {
+    throw new Error(`sessions.db is encrypted, but its key (${getKeyPath()}) is missing`);
+  }
+
+  const ivStart = MAGIC.length;
+  const tagStart = ivStart + IV_LENGTH;
+  const iv = data.subarray(ivStart, tagStart);
+  const tag = data.subarray(tagStart, tagStart + TAG_LENGTH);
+  const ciphertext = data.subarray(tagStart + TAG_LENGTH);
+
+  for (const key of loaded) {
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    } catch {
+      // Written with another key (or damaged); try the next one
+    }
+  }
+  throw new Error('sessions.db could not be decrypted with the stored key');
+}
+
+// Start a key rotation: files written from now on use a new key, while the
+// old ones can still be read. Call finishKeyRotation once every file has been
+// rewritten.
+export function beginKeyRotation(): void {
+  if (!isEncryptionAvailable()) {
+    throw new Error('The OS credential store is not available, so the database is not encrypted');
+  }
+  saveKeys([crypto.randomBytes(KEY_LENGTH), ...loadKeys()]);
+}
+
+export function finishKeyRotation(): void {
+  const loaded = loadKeys();
+  if (loaded.length > 1) {
+    saveKeys([loaded[0]]);
+  }
+  console.log('[Encryption] Rotated the database key');
+}
+
+// Re-encrypt a database copy (such as a migration backup) with the current
+// key; plaintext copies are encrypted, which is how they are migrated
+export function reencryptFile(filePath: string): void {
+  const data = fs.readFileSync(filePath);
+  if (!isEncryptedFile(data) && !isPlaintextDatabase(data)) {
+    return;
+  }
+
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, encryptDatabase(decryptDatabase(data)));
+  fs.renameSync(tempPath, filePath);
+}
@@ -0,0 +1,42 @@
+import { SessionSummary } from './types';
+
+// Change notifications for API clients (streamed by GET /events)
+
+export interface CaptureStatusEvent {
+  running: boolean;
+  capturing: boolean;
+}
+
+export type ServiceEvent =
+  | { type: 'session.created'; session: SessionSummary }
+  | { type: 'session.updated'; session: SessionSummary }
+  // Moved to the trash
+  | { type: 'session.deleted'; id: string }
+  | { type: 'session.restored'; session: SessionSummary }
+  // Removed for good (from the trash or directly)
+  | { type: 'session.purged'; id: string }
+  // Sessions were restored from a backup (merged or replaced); clients reload
+  | { type: 'database.restored' }
+  | { type: 'capture.status'; status: CaptureStatusEvent };
+
+type ServiceEventListener = (event: ServiceEvent) => void;
+
+const listeners = new Set<ServiceEventListener>();
+
+// Returns a function that removes the listener
+export function subscribeServiceEvents(listener: ServiceEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function emitServiceEvent(event: ServiceEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('[Events] Listener failed:', error);
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { CapturedSession, ExportFormat, StoredMessage } from './types';
+
+// Threads rendered as downloadable files. Every format carries the session's
+// metadata; CSV and JSONL have one row per message.
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'html', 'json', 'jsonl', 'csv'];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+};
+
+const CSV_COLUMNS = [
+  'session_id', 'session_title', 'workbook_name', 'captured_at', 'model', 'tags',
+  'ordinal', 'role', 'cell_context', 'content',
+];
+
+// Longest title part of a filename
+const MAX_SLUG_LENGTH = 40;
+
+export interface ExportSession {
+  session: CapturedSession;
+  messages: StoredMessage[];
+}
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .substring(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '');
+}
+
+// claude-session-2026-10-19-budget-forecast-1a2b3c4d.md for one thread,
+// claude-sessions-2026-10-19-12.md (export date, count) for several
+export function getExportFilename(sessions: CapturedSession[], format: ExportFormat): string {
+  if (sessions.length === 1) {
+    const session = sessions[0];
+    const slug = slugify(session.title || '');
+    const parts = ['claude-session', session.captured_at.substring(0, 10), slug, session.id.substring(0, 8)];
+    return `${parts.filter(Boolean).join('-')}.${format}`;
+  }
+  return `claude-sessions-${new Date().toISOString().substring(0, 10)}-${sessions.length}.${format}`;
+}
+
+function getMetadata(session: CapturedSession) {
+  return {
+    id: session.id,
+    title: session.title ?? null,
+    workbook_name: session.workbook_name,
+    captured_at: session.captured_at,
+    model: session.model,
+    input_tokens: session.input_tokens,
+    output_tokens: session.output_tokens,
+    starred: session.starred ?? false,
+    tags: session.tags ?? [],
+    deleted_at: session.deleted_at ?? null,
+  };
+}
+
+function roleLabel(role: 'user' | 'assistant'): string {
+  return role === 'user' ? 'You' : 'Claude';
+}
+
+function toMarkdown(items: ExportSession[]): string {
+  return items
+    .map(({ session, messages }) => {
+      const lines = [
+        `# ${session.title || 'Claude for Excel session'}`,
+        '',
+        `- Workbook: ${session.workbook_name || 'Unknown'}`,
+        `- Captured: ${session.captured_at}`,
+        `- Model: ${session.model || 'Unknown'}`,
+      ];
+      if (session.tags && session.tags.length > 0) {
+        lines.push(`- Tags: ${session.tags.join(', ')}`);
+      }
+      lines.push(`- Session: ${session.id}`, '');
+
+      for (const message of messages) {
+        const context = message.cell_context ? ` (${message.cell_context})` : '';
+        lines.push(`## ${roleLabel(message.role)}${context}`, '', message.content, '');
+      }
+      return lines.join('\n');
+    })
+    .join('\n---\n\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Same look as the add-in's MessageBubble
+const HTML_STYLE = `
+  body { font-family: 'Segoe UI', -apple-system, sans-serif; color: #323130; max-width: 760px; margin: 24px auto; padding: 0 16px; }
+  h1 { font-size: 20px; font-weight: 600; margin: 0 0 4px; }
+  .meta { font-size: 12px; color: #605e5c; margin: 0 0 16px; }
+  .session { border-bottom: 1px solid #edebe9; padding-bottom: 24px; margin-bottom: 24px; }
+  .thread { display: flex; flex-direction: column; }
+  .message { max-width: 90%; margin-bottom: 12px; display: flex; flex-direction: column; }
+  .message.user { align-self: flex-end; align-items: flex-end; }
+  .message.assistant { align-self: flex-start; align-items: flex-start; }
+  .role { font-size: 10px; color: #605e5c; margin-bottom: 4px; }
+  .cell { font-size: 10px; color: #323130; border: 1px solid #c8c6c4; border-radius: 10px; padding: 1px 8px; margin-bottom: 4px; background: white; }
+  .bubble { font-size: 12px; padding: 10px 14px; border-radius: 8px; white-space: pre-wrap; word-break: break-word; }
+  .user .bubble { background: #0078d4; color: white; }
+  .assistant .bubble { background: #f3f2f1; color: #323130; }
+`;
+
+function toHtml(items: ExportSession[]): string {
+  const sections = items.map(({ session, messages }) => {
+    const meta = [
+      session.workbook_name || 'Unknown workbook',
+      session.captured_at,
+      session.model || 'Unknown model',
+      ...(session.tags && session.tags.length > 0 ? [`Tags: ${session.tags.join(', ')}`] : []),
+    ];
+    const bubbles = messages.map((message) => `
+      <div class="message ${message.role}">
+        <div class="role">${roleLabel(message.role)}</div>
+        ${message.cell_context ? `<div class="cell">${escapeHtml(message.cell_context)}</div>` : ''}
+        <div class="bubble">${escapeHtml(message.content)}</div>
+      </div>`);
+    return `
+  <section class="session" data-session-id="${escapeHtml(session.id)}">
+    <h1>${escapeHtml(session.title || 'Claude for Excel session')}</h1>
+    <p class="meta">${meta.map(escapeHtml).join(' · ')}</p>
+    <div class="thread">${bubbles.join('')}
+    </div>
+  </section>`;
+  });
+
+  const title = items.length === 1 ? items[0].session.title || 'Claude for Excel session' : 'Claude for Excel sessions';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>${HTML_STYLE}</style>
+</head>
+<body>${sections.join('')}
+</body>
+</html>
+`;
+}
+
+function toJson(items: ExportSession[]): string {
+  const sessions = items.map(({ session, messages }) => ({
+    ...getMetadata(session),
+    messages: messages.map((m) => ({
+      ordinal: m.ordinal,
+      role: m.role,
+      content: m.content,
+      cell_context: m.cell_context,
+      first_seen_at: m.first_seen_at,
+      updated_at: m.updated_at,
+    })),
+  }));
+  return JSON.stringify({ exported_at: new Date().toISOString(), sessions }, null, 2);
+}
+
+function messageRows(items: ExportSession[]) {
+  return items.flatMap(({ session, messages }) =>
+    messages.map((m) => ({
+      session_id: session.id,
+      session_title: session.title ?? null,
+      workbook_name: session.workbook_name,
+      captured_at: session.captured_at,
+      model: session.model,
+      tags: (session.tags ?? []).join(', '),
+      ordinal: m.ordinal,
+      role: m.role,
+      cell_context: m.cell_context,
+      content: m.content,
+    }))
+  );
+}
+
+function toJsonl(items: ExportSession[]): string {
+  return messageRows(items).map((row) => JSON.stringify(row) + '\n').join('');
+}
+
+// Quote per RFC 4180. Cells that Excel would read as a formula get a
+// leading apostrophe, since these files are usually opened in Excel.
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(items: ExportSession[]): string {
+  const rows = messageRows(items).map((row) =>
+    CSV_COLUMNS.map((column) => csvCell(row[column as keyof typeof row])).join(',')
+  );
+  // The BOM makes Excel read the file as UTF-8
+  return '\uFEFF' + [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export function exportSessions(items: ExportSession[], format: ExportFormat): ExportFile {
+  const render = { md: toMarkdown, html: toHtml, json: toJson, jsonl: toJsonl, csv: toCsv }[format];
+  return {
+    filename: getExportFilename(items.map((item) => item.session), format),
+    contentType: CONTENT_TYPES[format],
+    content: render(items),
+  };
+}
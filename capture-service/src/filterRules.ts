@@ -0,0 +1,225 @@
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+
+// Rules that drop Claude panel UI (buttons, suggestion chips, ...) from captured
+// text. They live in filter-rules.json in userData and are reloaded on change.
+//
+// A rule with scope "message" (the default) tests a whole message and drops it;
+// scope "line" tests each line and drops only matching lines (a message left
+// without lines is dropped too). "role" limits a rule to user or assistant text.
+
+export type FilterScope = 'message' | 'line';
+
+interface FilterRuleBase {
+  name?: string;
+  scope?: FilterScope;
+  role?: 'user' | 'assistant';
+}
+
+export interface ExactFilterRule extends FilterRuleBase {
+  type: 'exact';
+  values: string[];
+}
+
+export interface RegexFilterRule extends FilterRuleBase {
+  type: 'regex';
+  pattern: string;
+  flags?: string;
+}
+
+export interface MinLengthFilterRule extends FilterRuleBase {
+  type: 'minLength';
+  length: number;
+}
+
+export type FilterRule = ExactFilterRule | RegexFilterRule | MinLengthFilterRule;
+
+export interface FilterRulesFile {
+  rules: FilterRule[];
+}
+
+export interface FilterMatch {
+  rule: string;
+  scope: FilterScope;
+  text: string;
+}
+
+export interface FilterResult {
+  // What is left of the text, or null when the whole message is dropped
+  content: string | null;
+  matches: FilterMatch[];
+}
+
+// Written to filter-rules.json the first time the service starts
+const DEFAULT_RULES: FilterRulesFile = {
+  rules: [
+    {
+      name: 'panel-buttons',
+      type: 'exact',
+      scope: 'line',
+      values: ['BETA', 'Untitled', 'Claude', 'Copy', 'Retry', 'Send', 'Stop', 'New chat', 'Type a message'],
+    },
+    {
+      name: 'suggestion-chips',
+      type: 'exact',
+      values: [
+        'Build a new analysis',
+        'Import data',
+        'Check a different file',
+        'Let me know what you\'d like to accomplish!',
+        'What can I do for you?',
+      ],
+    },
+    {
+      name: 'cell-selection',
+      type: 'regex',
+      scope: 'line',
+      pattern: '^[A-Z]+\\d+(:[A-Z]+\\d+)? selected$',
+    },
+    {
+      name: 'single-word',
+      type: 'regex',
+      role: 'user',
+      pattern: '^[A-Za-z]{1,15}$',
+    },
+    {
+      name: 'short-user-text',
+      type: 'minLength',
+      role: 'user',
+      length: 16,
+    },
+  ],
+};
+
+// How often the rules file is checked for changes
+const WATCH_INTERVAL_MS = 2000;
+
+interface CompiledRule {
+  name: string;
+  scope: FilterScope;
+  role?: 'user' | 'assistant';
+  matches: (text: string) => boolean;
+}
+
+export function getFilterRulesPath(): string {
+  return path.join(app.getPath('userData'), 'filter-rules.json');
+}
+
+function compileRule(rule: FilterRule, index: number): CompiledRule {
+  const name = rule.name || `${rule.type}#${index}`;
+  const scope: FilterScope = rule.scope === 'line' ? 'line' : 'message';
+
+  switch (rule.type) {
+    case 'exact': {
+      if (!Array.isArray(rule.values)) {
+        throw new Error(`Rule ${name}: values must be an array of strings`);
+      }
+      const values = new Set(rule.values.map(value => String(value).trim()));
+      return { name, scope, role: rule.role, matches: (text) => values.has(text) };
+    }
+    case 'regex': {
+      const regex = new RegExp(rule.pattern, rule.flags);
+      return { name, scope, role: rule.role, matches: (text) => regex.test(text) };
+    }
+    case 'minLength': {
+      if (typeof rule.length !== 'number') {
+        throw new Error(`Rule ${name}: length must be a number`);
+      }
+      return { name, scope, role: rule.role, matches: (text) => text.length < rule.length };
+    }
+    default:
+      throw new Error(`Rule ${name}: unknown type ${(rule as { type: unknown }).type}`);
+  }
+}
+
+// Parse and compile a rules file; throws on the first invalid rule so a
+// half-edited file never replaces working rules
+function compileFilterRules(file: FilterRulesFile): CompiledRule[] {
+  if (!file || !Array.isArray(file.rules)) {
+    throw new Error('Filter rules file must contain a "rules" array');
+  }
+  return file.rules.map(compileRule);
+}
+
+// The defaults apply until the rules file has been loaded
+let loadedRules: FilterRulesFile = DEFAULT_RULES;
+let compiledRules: CompiledRule[] = compileFilterRules(DEFAULT_RULES);
+let watchedPath: string | null = null;
+
+export function loadFilterRules(): void {
+  const rulesPath = getFilterRulesPath();
+
+  try {
+    if (!fs.existsSync(rulesPath)) {
+      fs.writeFileSync(rulesPath, JSON.stringify(DEFAULT_RULES, null, 2));
+      console.log('[FilterRules] Wrote default rules to', rulesPath);
+    }
+
+    const file = JSON.parse(fs.readFileSync(rulesPath, 'utf8')) as FilterRulesFile;
+    compiledRules = compileFilterRules(file);
+    loadedRules = file;
+    console.log('[FilterRules] Loaded', compiledRules.length, 'rules');
+  } catch (error) {
+    console.error('[FilterRules] Keeping previous rules, failed to load', rulesPath + ':', error);
+  }
+}
+
+export function startWatchingFilterRules(): void {
+  loadFilterRules();
+  if (watchedPath) return;
+
+  watchedPath = getFilterRulesPath();
+  fs.watchFile(watchedPath, { interval: WATCH_INTERVAL_MS }, (current, previous) => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      console.log('[FilterRules] Rules file changed, reloading');
+      loadFilterRules();
+    }
+  });
+}
+
+export function stopWatchingFilterRules(): void {
+  if (watchedPath) {
+    fs.unwatchFile(watchedPath);
+    watchedPath = null;
+  }
+}
+
+export function getFilterRules(): FilterRulesFile {
+  return loadedRules;
+}
+
+function findRule(text: string, role: 'user' | 'assistant', scope: FilterScope): CompiledRule | undefined {
+  return compiledRules.find(rule =>
+    rule.scope === scope && (!rule.role || rule.role === role) && rule.matches(text)
+  );
+}
+
+// Run a captured text through the rules
+export function applyFilterRules(text: string, role: 'user' | 'assistant'): FilterResult {
+  const matches: FilterMatch[] = [];
+
+  const keptLines = text.split('\n').filter(line => {
+    const trimmed = line.trim();
+    if (!trimmed) return true;
+    const rule = findRule(trimmed, role, 'line');
+    if (rule) {
+      matches.push({ rule: rule.name, scope: 'line', text: trimmed });
+      return false;
+    }
+    return true;
+  });
+
+  const content = keptLines.join('\n').trim();
+  if (!content) {
+    return { content: null, matches };
+  }
+
+  const rule = findRule(content, role, 'message');
+  if (rule) {
+    matches.push({ rule: rule.name, scope: 'message', text: content });
+    return { content: null, matches };
+  }
+
+  return { content, matches };
+}
@@ -4,9 +4,21 @@ import {
   startUICapture,
   stopUICapture,
   setOnSessionCaptured,
+  setCaptureInterval,
 } from './uiCapture';
-import { startApi, stopApi } from './api';
-import { createTray, destroyTray, notifySessionCaptured } from './tray';
+import { createPowerShellSource } from './powershellSource';
+import { createReplaySource } from './replaySource';
+import { startRecording, stopRecording } from './recorder';
+import { startWatchingFilterRules, stopWatchingFilterRules } from './filterRules';
+import { startWatchingRedactionRules, stopWatchingRedactionRules } from './redaction';
+import { startApi, stopApi, restartApi } from './api';
+import { loadConfig, onConfigChange } from './config';
+import { loadAuthToken } from './auth';
+import { startTrashPurge, stopTrashPurge, purgeExpiredTrash } from './trash';
+import { startRetention, stopRetention, checkRetention } from './retention';
+import { startBackups, stopBackups, checkBackups } from './backup';
+import { CaptureSource } from './types';
+import { createTray, destroyTray, notifySessionCaptured, updateTray } from './tray';
 
 // Prevent multiple instances
 const gotTheLock = app.requestSingleInstanceLock();
@@ -28,21 +40,58 @@ if (process.platform === 'darwin') {
   app.dock?.hide();
 }
 
+// Live UI Automation capture, or a recorded replay when
+// CLAUDE_MEMORY_REPLAY_DIR is set (headless testing)
+function createCaptureSource(): CaptureSource {
+  const replayDir = process.env.CLAUDE_MEMORY_REPLAY_DIR;
+  if (replayDir) {
+    const speed = Number(process.env.CLAUDE_MEMORY_REPLAY_SPEED ?? 1);
+    return createReplaySource(replayDir, { speed: Number.isNaN(speed) ? 1 : speed });
+  }
+  return createPowerShellSource();
+}
+
 async function initialize(): Promise<void> {
   try {
     console.log('Initializing Claude Excel Memory Capture...');
 
+    // Load settings (database path, port, poll interval, ...)
+    const config = loadConfig();
+
+    // Token the add-in needs for every API call (created on first start)
+    loadAuthToken();
+
     // Initialize database
     await initDatabase();
     console.log('Database initialized');
 
+    // Purge sessions that have been in the trash longer than trashRetentionDays
+    startTrashPurge();
+
+    // Apply the retention policy (when enabled) once a day
+    startRetention();
+
+    // Snapshot the database into the backups folder on schedule
+    startBackups();
+
     // Set up session capture callback
     setOnSessionCaptured(() => {
       notifySessionCaptured();
     });
 
-    // Start UI capture (polls every 3 seconds)
-    startUICapture(3000);
+    // Record every capture snapshot as a regression fixture
+    if (config.recordMode || process.env.CLAUDE_MEMORY_RECORD === '1') {
+      startRecording();
+    }
+
+    // Load UI-noise filter rules and reload them when the file changes
+    startWatchingFilterRules();
+
+    // Load redaction settings and reload them when the file changes
+    startWatchingRedactionRules();
+
+    // Start UI capture
+    startUICapture(createCaptureSource(), config.pollIntervalMs);
     console.log('UI Capture started');
 
     // Start API server
@@ -53,6 +102,34 @@ async function initialize(): Promise<void> {
     createTray();
     console.log('System tray created');
 
+    // Apply settings changed through the API or the tray
+    onConfigChange((updated, previous) => {
+      if (updated.pollIntervalMs !== previous.pollIntervalMs) {
+        setCaptureInterval(updated.pollIntervalMs);
+      }
+      if (updated.apiPort !== previous.apiPort) {
+        restartApi();
+      }
+      if (updated.recordMode !== previous.recordMode) {
+        if (updated.recordMode) {
+          startRecording();
+        } else {
+          stopRecording();
+        }
+      }
+      if (updated.trashRetentionDays < previous.trashRetentionDays) {
+        purgeExpiredTrash();
+      }
+      if (updated.retentionEnabled && !previous.retentionEnabled) {
+        checkRetention();
+      }
+      if (updated.backupEnabled !== previous.backupEnabled ||
+        updated.backupIntervalHours !== previous.backupIntervalHours) {
+        checkBackups();
+      }
+      updateTray();
+    });
+
     console.log('Claude Excel Memory Capture is running');
   } catch (error) {
     console.error('Failed to initialize:', error);
@@ -69,6 +146,12 @@ async function cleanup(): Promise<void> {
   destroyTray();
   stopApi();
   stopUICapture();
+  stopWatchingFilterRules();
+  stopWatchingRedactionRules();
+  stopTrashPurge();
+  stopRetention();
+  stopBackups();
+  stopRecording();
   closeDatabase();
   console.log('Cleanup complete');
 }
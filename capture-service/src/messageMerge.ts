@@ -0,0 +1,77 @@
+import { Message } from './types';
+import { ComparableMessage, isSameComparable, toComparable } from './threadBoundary';
+
+// Longest-common-subsequence table: lcs[i][j] is the best alignment length of
+// existing[i..] and visible[j..]
+function buildLcsTable(existing: ComparableMessage[], visible: ComparableMessage[]): number[][] {
+  const table: number[][] = Array.from({ length: existing.length + 1 }, () =>
+    new Array<number>(visible.length + 1).fill(0)
+  );
+
+  for (let i = existing.length - 1; i >= 0; i--) {
+    for (let j = visible.length - 1; j >= 0; j--) {
+      table[i][j] = isSameComparable(existing[i], visible[j])
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  return table;
+}
+
+// Merge the messages visible on screen into the stored thread.
+// Messages are aligned by LCS so that:
+// - on-screen order is kept, new messages land where they appear (also above
+//   older ones when the user scrolled up)
+// - a longer version of a matched message (still streaming) replaces the shorter
+// - a cell selection seen on either side is kept
+// - nothing from either side is ever dropped
+export function mergeMessages(existing: Message[], visible: Message[]): Message[] {
+  if (existing.length === 0) {
+    return visible;
+  }
+
+  // Normalized once here rather than on every comparison in the table
+  const existingComparable = existing.map(toComparable);
+  const visibleComparable = visible.map(toComparable);
+  const lcs = buildLcsTable(existingComparable, visibleComparable);
+  const result: Message[] = [];
+
+  // Unmatched messages between two anchors: stored ones first, then the new ones
+  let pendingExisting: Message[] = [];
+  let pendingVisible: Message[] = [];
+  const flushPending = () => {
+    result.push(...pendingExisting, ...pendingVisible);
+    pendingExisting = [];
+    pendingVisible = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < existing.length && j < visible.length) {
+    const matched = isSameComparable(existingComparable[i], visibleComparable[j]);
+    if (matched && lcs[i][j] === lcs[i + 1][j + 1] + 1) {
+      flushPending();
+      const [kept, other] = visible[j].content.length > existing[i].content.length
+        ? [visible[j], existing[i]]
+        : [existing[i], visible[j]];
+      // The selection chip may only have been visible in one of the captures
+      const cellContext = kept.cellContext ?? other.cellContext;
+      result.push(cellContext ? { ...kept, cellContext } : kept);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pendingExisting.push(existing[i]);
+      i++;
+    } else {
+      pendingVisible.push(visible[j]);
+      j++;
+    }
+  }
+
+  pendingExisting.push(...existing.slice(i));
+  pendingVisible.push(...visible.slice(j));
+  flushPending();
+
+  return result;
+}
@@ -0,0 +1,333 @@
+import type { Database } from 'sql.js';
+import fs from 'fs';
+import { CapturedSession, Message } from './types';
+
+interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database) => void;
+}
+
+export function tableExists(db: Database, name: string): boolean {
+  const stmt = db.prepare("SELECT name FROM sqlite_master WHERE type IN ('table', 'view') AND name = ?");
+  stmt.bind([name]);
+  const exists = stmt.step();
+  stmt.free();
+  return exists;
+}
+
+function textFromContent(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .filter((block) => block && block.type === 'text' && typeof block.text === 'string')
+      .map((block) => block.text)
+      .join('\n');
+  }
+  return '';
+}
+
+// Pull the individual messages out of a session's legacy JSON bodies
+function extractMessages(session: CapturedSession): Message[] {
+  const messages: Message[] = [];
+
+  try {
+    const request = JSON.parse(session.request_body);
+    if (Array.isArray(request.messages)) {
+      for (const msg of request.messages) {
+        messages.push({ role: msg.role, content: textFromContent(msg.content) });
+      }
+    }
+  } catch {
+    // Ignore parse errors
+  }
+
+  try {
+    const response = JSON.parse(session.response_body);
+    if (Array.isArray(response.content)) {
+      messages.push({ role: 'assistant', content: textFromContent(response.content) });
+    }
+  } catch {
+    // Ignore parse errors
+  }
+
+  if (messages.length === 0) {
+    if (session.user_prompt) {
+      messages.push({ role: 'user', content: session.user_prompt });
+    }
+    if (session.assistant_response) {
+      messages.push({ role: 'assistant', content: session.assistant_response });
+    }
+  }
+
+  return messages.filter(
+    (m) => (m.role === 'user' || m.role === 'assistant') && m.content.length > 0
+  );
+}
+
+// Ordered schema steps. Never edit a released step, append a new one instead.
+// Steps must tolerate databases created before versioning existed (version 0).
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create sessions table',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          workbook_name TEXT,
+          captured_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          request_body TEXT,
+          response_body TEXT,
+          model TEXT,
+          input_tokens INTEGER,
+          output_tokens INTEGER,
+          user_prompt TEXT,
+          assistant_response TEXT
+        )
+      `);
+      db.run('CREATE INDEX IF NOT EXISTS idx_workbook ON sessions(workbook_name)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_captured ON sessions(captured_at)');
+    },
+  },
+  {
+    version: 2,
+    description: 'Split JSON bodies into a messages table',
+    up: (db) => {
+      if (tableExists(db, 'messages')) return;
+
+      db.run(`
+        CREATE TABLE messages (
+          session_id TEXT NOT NULL,
+          ordinal INTEGER NOT NULL,
+          role TEXT NOT NULL,
+          content TEXT NOT NULL,
+          first_seen_at DATETIME NOT NULL,
+          updated_at DATETIME NOT NULL,
+          PRIMARY KEY (session_id, ordinal)
+        )
+      `);
+
+      const stmt = db.prepare('SELECT * FROM sessions');
+      const sessions: CapturedSession[] = [];
+      while (stmt.step()) {
+        sessions.push(stmt.getAsObject() as unknown as CapturedSession);
+      }
+      stmt.free();
+
+      for (const session of sessions) {
+        extractMessages(session).forEach((msg, ordinal) => {
+          db.run(
+            `INSERT INTO messages (session_id, ordinal, role, content, first_seen_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?)`,
+            [session.id, ordinal, msg.role, msg.content, session.captured_at, session.captured_at]
+          );
+        });
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Create full-text index over messages',
+    up: (db) => {
+      db.run('DROP TABLE IF EXISTS messages_fts');
+      db.run(`
+        CREATE VIRTUAL TABLE messages_fts USING fts4(
+          session_id, role, content,
+          notindexed=session_id, notindexed=role,
+          tokenize=unicode61
+        )
+      `);
+      db.run(`
+        INSERT INTO messages_fts (session_id, role, content)
+        SELECT session_id, role, content FROM messages ORDER BY session_id, ordinal
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: 'Key messages and full-text rows by a stable message id',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE messages_v4 (
+          id INTEGER PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          ordinal INTEGER NOT NULL,
+          role TEXT NOT NULL,
+          content TEXT NOT NULL,
+          first_seen_at DATETIME NOT NULL,
+          updated_at DATETIME NOT NULL,
+          UNIQUE (session_id, ordinal)
+        )
+      `);
+      db.run(`
+        INSERT INTO messages_v4 (session_id, ordinal, role, content, first_seen_at, updated_at)
+        SELECT session_id, ordinal, role, content, first_seen_at, updated_at
+        FROM messages ORDER BY session_id, ordinal
+      `);
+      db.run('DROP TABLE messages');
+      db.run('ALTER TABLE messages_v4 RENAME TO messages');
+
+      db.run('DELETE FROM messages_fts');
+      db.run(`
+        INSERT INTO messages_fts (docid, session_id, role, content)
+        SELECT id, session_id, role, content FROM messages
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: 'Store the cell range selected with each user message',
+    up: (db) => {
+      db.run('ALTER TABLE messages ADD COLUMN cell_context TEXT');
+    },
+  },
+  {
+    version: 6,
+    description: 'Soft delete: sessions in the trash carry deleted_at',
+    up: (db) => {
+      db.run('ALTER TABLE sessions ADD COLUMN deleted_at DATETIME');
+      db.run('CREATE INDEX IF NOT EXISTS idx_deleted ON sessions(deleted_at)');
+    },
+  },
+  {
+    version: 7,
+    description: 'Keep a revision history of every thread',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          revision INTEGER NOT NULL,
+          created_at DATETIME NOT NULL,
+          message_count INTEGER NOT NULL,
+          added INTEGER NOT NULL,
+          changed INTEGER NOT NULL,
+          removed INTEGER NOT NULL,
+          changes TEXT NOT NULL,
+          restored_from INTEGER,
+          UNIQUE (session_id, revision)
+        )
+      `);
+
+      // The current state of each existing thread becomes its first revision
+      const sessions = db.exec('SELECT id, captured_at FROM sessions')[0]?.values ?? [];
+      const messagesStmt = db.prepare(
+        'SELECT role, content, cell_context FROM messages WHERE session_id = ? ORDER BY ordinal'
+      );
+      for (const [id, capturedAt] of sessions) {
+        const changes: { ordinal: number; message: Message }[] = [];
+        messagesStmt.bind([id]);
+        while (messagesStmt.step()) {
+          const row = messagesStmt.getAsObject() as {
+            role: Message['role'];
+            content: string;
+            cell_context: string | null;
+          };
+          changes.push({
+            ordinal: changes.length,
+            message: {
+              role: row.role,
+              content: row.content,
+              ...(row.cell_context ? { cellContext: row.cell_context } : {}),
+            },
+          });
+        }
+        messagesStmt.reset();
+        if (changes.length === 0) continue;
+
+        db.run(
+          `INSERT INTO revisions
+            (session_id, revision, created_at, message_count, added, changed, removed, changes)
+           VALUES (?, 1, ?, ?, ?, 0, 0, ?)`,
+          [id, capturedAt, changes.length, changes.length, JSON.stringify(changes)]
+        );
+      }
+      messagesStmt.free();
+    },
+  },
+  {
+    version: 8,
+    description: 'Add titles, tags and stars to sessions',
+    up: (db) => {
+      // Titles of existing sessions are generated on the next start
+      db.run('ALTER TABLE sessions ADD COLUMN title TEXT');
+      db.run("ALTER TABLE sessions ADD COLUMN title_source TEXT NOT NULL DEFAULT 'auto'");
+      db.run('ALTER TABLE sessions ADD COLUMN starred INTEGER NOT NULL DEFAULT 0');
+      db.run(`
+        CREATE TABLE IF NOT EXISTS session_tags (
+          session_id TEXT NOT NULL,
+          tag TEXT NOT NULL,
+          PRIMARY KEY (session_id, tag)
+        )
+      `);
+      db.run('CREATE INDEX IF NOT EXISTS idx_session_tags_tag ON session_tags(tag)');
+    },
+  },
+  {
+    version: 9,
+    description: 'Track sessions saved to a workbook',
+    up: (db) => {
+      db.run('ALTER TABLE sessions ADD COLUMN saved INTEGER NOT NULL DEFAULT 0');
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function getSchemaVersion(db: Database): number {
+  if (!tableExists(db, 'schema_version')) {
+    return 0;
+  }
+  const result = db.exec('SELECT MAX(version) FROM schema_version');
+  return Number(result[0]?.values[0]?.[0] ?? 0);
+}
+
+// Bring a database up to LATEST_SCHEMA_VERSION.
+// The file at dbFilePath (if any) is copied aside before the first step runs;
+// pass null for a database that has no file of its own yet.
+export function runMigrations(db: Database, dbFilePath: string | null): void {
+  const current = getSchemaVersion(db);
+
+  if (current > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `sessions.db uses schema version ${current}, but this version of the app ` +
+      `only supports up to ${LATEST_SCHEMA_VERSION}. Please update the app.`
+    );
+  }
+
+  const pending = MIGRATIONS.filter((m) => m.version > current);
+  if (pending.length === 0) {
+    return;
+  }
+
+  if (dbFilePath && fs.existsSync(dbFilePath)) {
+    const backupPath = `${dbFilePath}.v${current}-${Date.now()}.bak`;
+    fs.copyFileSync(dbFilePath, backupPath);
+    console.log('[Migrations] Backed up database to', backupPath);
+  }
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      description TEXT,
+      applied_at DATETIME NOT NULL
+    )
+  `);
+
+  for (const migration of pending) {
+    db.run('BEGIN');
+    try {
+      migration.up(db);
+      db.run(
+        'INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)',
+        [migration.version, migration.description, new Date().toISOString()]
+      );
+      db.run('COMMIT');
+      console.log(`[Migrations] Applied v${migration.version}: ${migration.description}`);
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw new Error(`Migration v${migration.version} failed: ${error}`);
+    }
+  }
+}
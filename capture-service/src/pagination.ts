@@ -0,0 +1,127 @@
+import { SessionCursor, SessionListOptions, SessionSort } from './types';
+
+// Cursors are opaque to clients: base64url-encoded JSON
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const SORTS: SessionSort[] = ['newest', 'oldest', 'relevance'];
+// A bare date as "to" means the end of that day
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function encodeCursor(cursor: SessionCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Returns null for anything that is not a cursor this service handed out
+export function decodeCursor(value: string): SessionCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (cursor && typeof cursor.capturedAt === 'string' && typeof cursor.id === 'string') {
+      return { capturedAt: cursor.capturedAt, id: cursor.id };
+    }
+    if (cursor && Number.isInteger(cursor.offset) && cursor.offset >= 0) {
+      return { offset: cursor.offset };
+    }
+  } catch {
+    // Not base64 JSON
+  }
+  return null;
+}
+
+function parseDate(value: string, endOfDay: boolean): string | null {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return null;
+  return new Date(endOfDay && DATE_ONLY_PATTERN.test(value) ? time + DAY_MS - 1 : time).toISOString();
+}
+
+// Turn GET /sessions query parameters into list options; returns an error
+// message for anything invalid
+export function parseSessionListQuery(
+  query: Record<string, unknown>
+): { options: SessionListOptions } | { error: string } {
+  const text = (key: string): string | undefined => {
+    const value = query[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+  // Comma-separated ids; present but empty is an empty list, not "no filter"
+  const idList = (key: string): string[] | undefined => {
+    const value = query[key];
+    if (typeof value !== 'string') return undefined;
+    return value.split(',').map((id) => id.trim()).filter((id) => id !== '');
+  };
+
+  const search = text('search');
+
+  let limit = DEFAULT_PAGE_SIZE;
+  const limitText = text('limit');
+  if (limitText !== undefined) {
+    limit = Number(limitText);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+    }
+  }
+
+  const sort = (text('sort') ?? (search ? 'relevance' : 'newest')) as SessionSort;
+  if (!SORTS.includes(sort)) {
+    return { error: `sort must be one of ${SORTS.join(', ')}` };
+  }
+  if (sort === 'relevance' && !search) {
+    return { error: 'sort=relevance needs a search query' };
+  }
+
+  const fromText = text('from');
+  const from = fromText !== undefined ? parseDate(fromText, false) : undefined;
+  if (from === null) {
+    return { error: 'from must be an ISO date' };
+  }
+  const toText = text('to');
+  const to = toText !== undefined ? parseDate(toText, true) : undefined;
+  if (to === null) {
+    return { error: 'to must be an ISO date' };
+  }
+
+  const deletedText = text('deleted');
+  if (deletedText !== undefined && deletedText !== 'true' && deletedText !== 'false') {
+    return { error: 'deleted must be true or false' };
+  }
+  const starredText = text('starred');
+  if (starredText !== undefined && starredText !== 'true' && starredText !== 'false') {
+    return { error: 'starred must be true or false' };
+  }
+
+  // ?tag= may be repeated; sessions must carry every tag
+  const tagValues = Array.isArray(query.tag) ? query.tag : [query.tag];
+  const tags = tagValues
+    .filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== '')
+    .map((tag) => tag.trim());
+
+  let cursor: SessionCursor | null = null;
+  const cursorText = text('cursor');
+  if (cursorText !== undefined) {
+    cursor = decodeCursor(cursorText);
+    // Search pages by offset, plain listing by position
+    if (!cursor || ('offset' in cursor) !== !!search) {
+      return { error: 'Invalid cursor' };
+    }
+  }
+
+  return {
+    options: {
+      search,
+      workbook: text('workbook'),
+      model: text('model'),
+      from,
+      to,
+      deleted: deletedText === 'true',
+      starred: starredText === undefined ? undefined : starredText === 'true',
+      ids: idList('ids'),
+      excludeIds: idList('excludeIds'),
+      tags: tags.length > 0 ? tags : undefined,
+      title: text('title'),
+      sort,
+      limit,
+      cursor,
+    },
+  };
+}
@@ -0,0 +1,213 @@
+import { CaptureResult, CaptureSource } from './types';
+import { createWorkerClient } from './workerClient';
+
+// A UIA walk normally takes well under a second; anything longer is a hung worker
+const CAPTURE_TIMEOUT_MS = 15000;
+
+// PowerShell worker that captures messages with proper user/assistant detection
+// User messages: Text outside assistant containers (detected by Y position gaps)
+// Assistant messages: Inside Group elements with "justify-start mb-3" className
+// Every Excel window with the Claude panel open is reported as its own entry
+// The UIAutomation assemblies are loaded once; the worker then answers
+// line-delimited JSON requests on stdin (see workerClient.ts)
+const WORKER_SCRIPT = `
+Add-Type -AssemblyName UIAutomationClient
+Add-Type -AssemblyName UIAutomationTypes
+
+[Console]::InputEncoding = [System.Text.Encoding]::UTF8
+[Console]::OutputEncoding = [System.Text.Encoding]::UTF8
+
+function Invoke-Capture {
+    $root = [System.Windows.Automation.AutomationElement]::RootElement
+    $excelWindows = $root.FindAll([System.Windows.Automation.TreeScope]::Children, [System.Windows.Automation.Condition]::TrueCondition)
+
+    $result = @{
+        found = $false
+        windows = @()
+    }
+    $windows = @()
+
+    foreach ($win in $excelWindows) {
+        if ($win.Current.ClassName -eq 'XLMAIN') {
+            $webContentCondition = New-Object System.Windows.Automation.PropertyCondition(
+                [System.Windows.Automation.AutomationElement]::NameProperty,
+                'Claude in Microsoft Office - Web content'
+            )
+
+            $webContent = $win.FindFirst([System.Windows.Automation.TreeScope]::Descendants, $webContentCondition)
+
+            if ($webContent) {
+                $result.found = $true
+                $workbookName = $win.Current.Name -replace ' - Excel$', ''
+
+                # Get all Group elements (assistant message containers)
+                $groupCondition = New-Object System.Windows.Automation.PropertyCondition(
+                    [System.Windows.Automation.AutomationElement]::ControlTypeProperty,
+                    [System.Windows.Automation.ControlType]::Group
+                )
+                $groups = $webContent.FindAll([System.Windows.Automation.TreeScope]::Descendants, $groupCondition)
+
+                $textCondition = New-Object System.Windows.Automation.PropertyCondition(
+                    [System.Windows.Automation.AutomationElement]::ControlTypeProperty,
+                    [System.Windows.Automation.ControlType]::Text
+                )
+
+                # Collect assistant containers with Y ranges
+                $assistantContainers = @()
+                foreach ($group in $groups) {
+                    $className = $group.Current.ClassName
+                    if ($className -and $className.Contains('justify-start') -and $className.Contains('mb-3')) {
+                        $rect = $group.Current.BoundingRectangle
+                        $texts = $group.FindAll([System.Windows.Automation.TreeScope]::Descendants, $textCondition)
+                        $content = @()
+                        foreach ($t in $texts) {
+                            $tName = $t.Current.Name
+                            if ($tName -and $tName.Length -gt 0) {
+                                $content += $tName
+                            }
+                        }
+                        if ($content.Count -gt 0) {
+                            $assistantContainers += @{
+                                yStart = $rect.Y
+                                yEnd = $rect.Y + $rect.Height
+                                content = $content -join "\`n"
+                            }
+                        }
+                    }
+                }
+
+                # Find user messages: text with empty className, outside all assistant containers
+                $allTexts = $webContent.FindAll([System.Windows.Automation.TreeScope]::Descendants, $textCondition)
+                $userMessages = @()
+                $selections = @()
+
+                foreach ($t in $allTexts) {
+                    $className = $t.Current.ClassName
+                    $name = $t.Current.Name
+                    $rect = $t.Current.BoundingRectangle
+
+                    if (-not $name) { continue }
+
+                    # Check if this text is inside ANY assistant container
+                    $isInAssistant = $false
+                    foreach ($ac in $assistantContainers) {
+                        if ($rect.Y -ge $ac.yStart -and $rect.Y -le $ac.yEnd) {
+                            $isInAssistant = $true
+                            break
+                        }
+                    }
+                    if ($isInAssistant) { continue }
+
+                    # Selection chips ("B2:D14 selected") show the range sent with a user message
+                    if ($name.Trim() -match '^([A-Z]+[0-9]+(:[A-Z]+[0-9]+)?) selected$') {
+                        $selections += @{
+                            range = $Matches[1]
+                            y = $rect.Y
+                        }
+                        continue
+                    }
+
+                    # User messages: text with empty className. UI noise (buttons,
+                    # suggestion chips) is dropped by the filter rules in the service.
+                    if ((-not $className -or $className -eq '') -and $name.Trim().Length -gt 0) {
+                        $userMessages += @{
+                            y = $rect.Y
+                            yEnd = $rect.Y + $rect.Height
+                            content = $name
+                        }
+                    }
+                }
+
+                # A Stop button is only shown while a response is streaming
+                $buttonCondition = New-Object System.Windows.Automation.PropertyCondition(
+                    [System.Windows.Automation.AutomationElement]::ControlTypeProperty,
+                    [System.Windows.Automation.ControlType]::Button
+                )
+                $streaming = $false
+                foreach ($button in $webContent.FindAll([System.Windows.Automation.TreeScope]::Descendants, $buttonCondition)) {
+                    if ($button.Current.Name -match '^Stop') {
+                        $streaming = $true
+                        break
+                    }
+                }
+
+                # Combine into messages list
+                $allMessages = @()
+
+                foreach ($um in $userMessages) {
+                    $allMessages += @{
+                        role = "user"
+                        content = $um.content
+                        y = $um.y
+                        yEnd = $um.yEnd
+                    }
+                }
+
+                foreach ($ac in $assistantContainers) {
+                    $allMessages += @{
+                        role = "assistant"
+                        content = $ac.content
+                        y = $ac.yStart
+                    }
+                }
+
+                # Sort by Y position (screen order); @() keeps single results as arrays
+                $windows += @{
+                    workbookName = $workbookName
+                    messages = @($allMessages | Sort-Object { $_.y })
+                    selections = @($selections)
+                    streaming = $streaming
+                }
+            }
+        }
+    }
+
+    $result.windows = @($windows)
+    return $result
+}
+
+while ($true) {
+    $line = [Console]::In.ReadLine()
+    if ($null -eq $line) { break }
+    if ($line.Trim().Length -eq 0) { continue }
+
+    $id = $null
+    try {
+        $request = $line | ConvertFrom-Json
+        $id = $request.id
+        if ($request.command -eq 'capture') {
+            $response = @{ id = $id; ok = $true; result = (Invoke-Capture) }
+        } else {
+            $response = @{ id = $id; ok = $false; error = "Unknown command: $($request.command)" }
+        }
+    } catch {
+        $response = @{ id = $id; ok = $false; error = $_.Exception.Message }
+    }
+
+    # -Compress keeps the response on one line; newlines in text are escaped
+    [Console]::Out.WriteLine(($response | ConvertTo-Json -Depth 10 -Compress))
+    [Console]::Out.Flush()
+}
+`;
+
+// Capture source backed by Windows UI Automation through a persistent
+// PowerShell worker (restarted automatically if it crashes or hangs)
+export function createPowerShellSource(): CaptureSource {
+  const worker = createWorkerClient({
+    name: 'UIAWorker',
+    command: 'powershell',
+    args: ['-NoProfile', '-NonInteractive', '-ExecutionPolicy', 'Bypass', '-Command', WORKER_SCRIPT],
+    requestTimeoutMs: CAPTURE_TIMEOUT_MS,
+  });
+
+  return {
+    name: 'powershell-uia',
+    async capture(): Promise<CaptureResult | null> {
+      const result = await worker.request<CaptureResult | null>('capture');
+      return result ?? null;
+    },
+    dispose(): void {
+      worker.dispose();
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import { app } from 'electron';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { applyRedaction } from './redaction';
+import { CaptureResult, CapturedMessage, RecordedSnapshot } from './types';
+
+// Each recording gets its own folder; older folders are rotated out
+const MAX_RECORDINGS = 10;
+const MAX_SNAPSHOTS_PER_RECORDING = 2000;
+
+let recordingDir: string | null = null;
+let snapshotCount = 0;
+let lastSnapshotJson = '';
+// Per-recording salt so anonymised workbook names cannot be looked up;
+// kept when a long recording rotates into a new folder
+let salt = '';
+
+export function getRecordingsRoot(): string {
+  return path.join(app.getPath('userData'), 'recordings');
+}
+
+function timestampForPath(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace('T', '-').replace(/\..*$/, '');
+}
+
+function anonymiseWorkbook(name: string): string {
+  if (!name) return name;
+  const digest = crypto.createHash('sha256').update(salt + name).digest('hex');
+  return `workbook-${digest.substring(0, 8)}`;
+}
+
+// Recordings get the same redaction as stored sessions. A message a drop
+// detector matches is kept empty, so the snapshot keeps its layout.
+function redactMessages(messages: CapturedMessage[]): CapturedMessage[] {
+  return messages.map(message => ({ ...message, content: applyRedaction(message.content).content ?? '' }));
+}
+
+// Keep only the newest MAX_RECORDINGS folders
+function rotateRecordings(root: string): void {
+  const folders = fs.readdirSync(root)
+    .filter(name => name.startsWith('recording-'))
+    .sort();
+
+  for (const folder of folders.slice(0, Math.max(0, folders.length - MAX_RECORDINGS))) {
+    fs.rmSync(path.join(root, folder), { recursive: true, force: true });
+  }
+}
+
+function openRecordingFolder(): void {
+  const root = getRecordingsRoot();
+  fs.mkdirSync(root, { recursive: true });
+
+  let dir = path.join(root, `recording-${timestampForPath(new Date())}`);
+  for (let suffix = 1; fs.existsSync(dir); suffix++) {
+    dir = path.join(root, `recording-${timestampForPath(new Date())}-${suffix}`);
+  }
+  fs.mkdirSync(dir);
+
+  recordingDir = dir;
+  snapshotCount = 0;
+
+  rotateRecordings(root);
+  console.log('[Recorder] Recording to', dir);
+}
+
+export function startRecording(): void {
+  if (recordingDir) return;
+  salt = crypto.randomBytes(16).toString('hex');
+  lastSnapshotJson = '';
+  openRecordingFolder();
+}
+
+export function stopRecording(): void {
+  if (!recordingDir) return;
+  console.log('[Recorder] Stopped after', snapshotCount, 'snapshots');
+  recordingDir = null;
+}
+
+export function isRecording(): boolean {
+  return recordingDir !== null;
+}
+
+// Save a decoded capture, anonymised and redacted. Consecutive identical
+// snapshots are skipped; the replay source keeps returning the previous one
+// until the next file is due.
+export function recordSnapshot(result: CaptureResult): void {
+  if (!recordingDir) return;
+
+  try {
+    const anonymised: CaptureResult = {
+      ...result,
+      windows: result.windows?.map(window => ({
+        ...window,
+        workbookName: anonymiseWorkbook(window.workbookName),
+        messages: redactMessages(window.messages),
+      })),
+      messages: result.messages && redactMessages(result.messages),
+      workbookName: result.workbookName && anonymiseWorkbook(result.workbookName),
+    };
+    const json = JSON.stringify(anonymised);
+    if (json === lastSnapshotJson) return;
+    lastSnapshotJson = json;
+
+    if (snapshotCount >= MAX_SNAPSHOTS_PER_RECORDING) {
+      openRecordingFolder();
+    }
+
+    const capturedAt = new Date();
+    const snapshot: RecordedSnapshot = { capturedAt: capturedAt.toISOString(), result: anonymised };
+    const fileName = `${String(snapshotCount).padStart(6, '0')}-${capturedAt.getTime()}.json`;
+
+    fs.writeFileSync(path.join(recordingDir, fileName), JSON.stringify(snapshot, null, 2));
+    snapshotCount++;
+  } catch (error) {
+    console.error('[Recorder] Failed to save snapshot:', error);
+  }
+}
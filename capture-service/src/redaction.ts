@@ -0,0 +1,319 @@
+import { app } from 'electron';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Redaction of personal data and secrets in captured text, applied before
+// anything is stored. Settings live in redaction-rules.json in userData and
+// are reloaded on change.
+//
+// Each detector (built-in or a user-defined regex) has a mode:
+//   mask - replace the match with a label, e.g. [email]
+//   hash - replace it with a label and a keyed hash, e.g. [email:3f2a9c1b],
+//          so the same value can still be recognised across threads
+//   drop - drop the whole message, as a filter rule would
+//   off  - leave the text alone
+
+export type RedactionMode = 'mask' | 'hash' | 'drop' | 'off';
+
+export type BuiltInDetector = 'email' | 'card' | 'iban' | 'phone' | 'apiKey';
+
+export interface CustomDetector {
+  name: string;
+  pattern: string;
+  flags?: string;
+  mode: RedactionMode;
+}
+
+export interface RedactionRulesFile {
+  enabled: boolean;
+  // Built-in detectors left out are off
+  detectors: Partial<Record<BuiltInDetector, RedactionMode>>;
+  custom: CustomDetector[];
+  // Key for hash mode; generated on first start, never sent over the API
+  hashKey?: string;
+}
+
+export interface RedactionMatch {
+  detector: string;
+  mode: RedactionMode;
+  text: string;
+  // What the text was replaced with; null when the message is dropped
+  replacement: string | null;
+}
+
+export interface RedactionResult {
+  // The redacted text, or null when a drop detector matched
+  content: string | null;
+  matches: RedactionMatch[];
+}
+
+const MODES: RedactionMode[] = ['mask', 'hash', 'drop', 'off'];
+const HASH_LENGTH = 8;
+
+const DEFAULT_RULES: RedactionRulesFile = {
+  enabled: true,
+  detectors: {
+    email: 'mask',
+    card: 'mask',
+    iban: 'mask',
+    phone: 'mask',
+    apiKey: 'mask',
+  },
+  custom: [],
+};
+
+// How often the rules file is checked for changes
+const WATCH_INTERVAL_MS = 2000;
+
+interface CompiledDetector {
+  name: string;
+  // Label used in replacements
+  label: string;
+  mode: RedactionMode;
+  regex: RegExp;
+  // Extra check on a regex match (checksums), to keep numbers in
+  // spreadsheets from being taken for card numbers or IBANs
+  accept?: (text: string) => boolean;
+}
+
+// Luhn checksum used by payment card numbers
+export function isValidCardNumber(text: string): boolean {
+  const digits = text.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616 mod-97 check
+export function isValidIban(text: string): boolean {
+  const iban = text.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = char >= 'A' && char <= 'Z' ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// In the order they run: keys and IBANs contain digit runs that could
+// otherwise be taken for card or phone numbers
+const BUILT_IN_PATTERNS: Record<BuiltInDetector, Omit<CompiledDetector, 'mode'>> = {
+  // sk-..., sk-ant-..., sk-proj-... style secret keys
+  apiKey: {
+    name: 'apiKey',
+    label: 'api-key',
+    regex: /\bsk-[A-Za-z0-9_-]{20,}/g,
+  },
+  email: {
+    name: 'email',
+    label: 'email',
+    regex: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  iban: {
+    name: 'iban',
+    label: 'iban',
+    regex: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    accept: isValidIban,
+  },
+  card: {
+    name: 'card',
+    label: 'card',
+    regex: /\b\d(?:[ -]?\d){12,18}\b/g,
+    accept: isValidCardNumber,
+  },
+  // International numbers with a + prefix, or North American ones written
+  // with separators; bare digit runs are left alone (they are usually data).
+  // Nothing right after a cell reference, a bracket or an operator counts: in
+  // =B2+1000000 or =SUM(A1:A10)+2500000 the number is part of a formula.
+  phone: {
+    name: 'phone',
+    label: 'phone',
+    regex: /(?<![\w)\]=*\/^&<>+-]|\b\$?[A-Z]{1,3}\$?\d+ +)(?:\+\d{1,3}[ .-]?(?:\(\d{1,4}\)[ .-]?)?\d{1,4}(?:[ .-]?\d{2,4}){1,4}|\(\d{3}\)[ .-]?\d{3}[ .-]\d{4}|\b\d{3}[.-]\d{3}[.-]\d{4})\b/g,
+    accept: (text) => {
+      const digits = text.replace(/\D/g, '').length;
+      return digits >= 7 && digits <= 15;
+    },
+  },
+};
+
+export function getRedactionRulesPath(): string {
+  return path.join(app.getPath('userData'), 'redaction-rules.json');
+}
+
+function validateMode(mode: unknown, name: string): RedactionMode {
+  if (!MODES.includes(mode as RedactionMode)) {
+    throw new Error(`Detector ${name}: mode must be one of ${MODES.join(', ')}`);
+  }
+  return mode as RedactionMode;
+}
+
+// Compile a rules file; throws on the first invalid entry so a half-edited
+// file never replaces working rules
+function compileRedactionRules(file: RedactionRulesFile): CompiledDetector[] {
+  if (!file || typeof file.enabled !== 'boolean') {
+    throw new Error('Redaction rules file must contain "enabled": true or false');
+  }
+  if (!file.detectors || typeof file.detectors !== 'object') {
+    throw new Error('Redaction rules file must contain a "detectors" object');
+  }
+  if (!Array.isArray(file.custom)) {
+    throw new Error('Redaction rules file must contain a "custom" array');
+  }
+
+  for (const name of Object.keys(file.detectors)) {
+    if (!(name in BUILT_IN_PATTERNS)) {
+      throw new Error(`Unknown detector: ${name}`);
+    }
+  }
+
+  const detectors: CompiledDetector[] = [];
+  for (const [name, builtIn] of Object.entries(BUILT_IN_PATTERNS)) {
+    const mode = file.detectors[name as BuiltInDetector];
+    if (mode !== undefined) {
+      detectors.push({ ...builtIn, mode: validateMode(mode, name) });
+    }
+  }
+
+  file.custom.forEach((custom, index) => {
+    const name = custom.name || `custom#${index}`;
+    if (typeof custom.pattern !== 'string' || !custom.pattern) {
+      throw new Error(`Detector ${name}: pattern must be a non-empty string`);
+    }
+    const flags = (custom.flags ?? '').replace(/g/g, '') + 'g';
+    detectors.push({
+      name,
+      label: name,
+      mode: validateMode(custom.mode, name),
+      regex: new RegExp(custom.pattern, flags),
+    });
+  });
+
+  // Dropping wins over rewriting, so drop detectors are checked first
+  return detectors
+    .filter((d) => d.mode !== 'off')
+    .sort((a, b) => Number(b.mode === 'drop') - Number(a.mode === 'drop'));
+}
+
+// The defaults apply until the rules file has been loaded
+let loadedRules: RedactionRulesFile = DEFAULT_RULES;
+let compiledDetectors: CompiledDetector[] = compileRedactionRules(DEFAULT_RULES);
+let hashKey = crypto.randomBytes(32).toString('hex');
+let watchedPath: string | null = null;
+
+export function loadRedactionRules(): void {
+  const rulesPath = getRedactionRulesPath();
+
+  try {
+    if (!fs.existsSync(rulesPath)) {
+      const defaults = { ...DEFAULT_RULES, hashKey: crypto.randomBytes(32).toString('hex') };
+      fs.writeFileSync(rulesPath, JSON.stringify(defaults, null, 2), { mode: 0o600 });
+      console.log('[Redaction] Wrote default rules to', rulesPath);
+    }
+
+    const file = JSON.parse(fs.readFileSync(rulesPath, 'utf8')) as RedactionRulesFile;
+    compiledDetectors = compileRedactionRules(file);
+    if (typeof file.hashKey === 'string' && file.hashKey) {
+      hashKey = file.hashKey;
+    } else {
+      // Keep hashes stable across restarts for files written without a key
+      file.hashKey = hashKey;
+      fs.writeFileSync(rulesPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+      console.log('[Redaction] Added a hash key to', rulesPath);
+    }
+    loadedRules = file;
+    console.log(
+      '[Redaction]', file.enabled ? 'Enabled with' : 'Disabled;',
+      compiledDetectors.length, 'active detectors'
+    );
+  } catch (error) {
+    console.error('[Redaction] Keeping previous rules, failed to load', rulesPath + ':', error);
+  }
+}
+
+export function startWatchingRedactionRules(): void {
+  loadRedactionRules();
+  if (watchedPath) return;
+
+  watchedPath = getRedactionRulesPath();
+  fs.watchFile(watchedPath, { interval: WATCH_INTERVAL_MS }, (current, previous) => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      console.log('[Redaction] Rules file changed, reloading');
+      loadRedactionRules();
+    }
+  });
+}
+
+export function stopWatchingRedactionRules(): void {
+  if (watchedPath) {
+    fs.unwatchFile(watchedPath);
+    watchedPath = null;
+  }
+}
+
+// The loaded rules, without the hash key
+export function getRedactionRules(): Omit<RedactionRulesFile, 'hashKey'> {
+  const { hashKey: _hashKey, ...rules } = loadedRules;
+  return rules;
+}
+
+function hashValue(text: string): string {
+  return crypto.createHmac('sha256', hashKey).update(text).digest('hex').substring(0, HASH_LENGTH);
+}
+
+function findMatches(detector: CompiledDetector, text: string): string[] {
+  detector.regex.lastIndex = 0;
+  return [...text.matchAll(detector.regex)]
+    .map((match) => match[0])
+    .filter((match) => match && (!detector.accept || detector.accept(match)));
+}
+
+// Run a captured text through the detectors. With `enabled` off in the
+// rules file the text passes through unchanged.
+export function applyRedaction(text: string): RedactionResult {
+  if (!loadedRules.enabled) {
+    return { content: text, matches: [] };
+  }
+
+  const matches: RedactionMatch[] = [];
+  let content = text;
+
+  for (const detector of compiledDetectors) {
+    const found = findMatches(detector, content);
+    if (found.length === 0) continue;
+
+    if (detector.mode === 'drop') {
+      for (const match of found) {
+        matches.push({ detector: detector.name, mode: 'drop', text: match, replacement: null });
+      }
+      return { content: null, matches };
+    }
+
+    const replacements = new Map<string, string>();
+    for (const match of found) {
+      const replacement = detector.mode === 'hash'
+        ? `[${detector.label}:${hashValue(match)}]`
+        : `[${detector.label}]`;
+      replacements.set(match, replacement);
+      matches.push({ detector: detector.name, mode: detector.mode, text: match, replacement });
+    }
+    detector.regex.lastIndex = 0;
+    content = content.replace(detector.regex, (match) => replacements.get(match) ?? match);
+  }
+
+  return { content, matches };
+}
@@ -0,0 +1,82 @@
+import fs from 'fs';
+import path from 'path';
+import { CaptureResult, CaptureSource, RecordedSnapshot } from './types';
+
+export interface ReplayOptions {
+  // Playback speed relative to the recorded timestamps (2 = twice as fast).
+  // 0 replays one snapshot per poll regardless of timestamps.
+  speed?: number;
+}
+
+interface ReplayEntry {
+  offsetMs: number | null;
+  result: CaptureResult;
+}
+
+function isRecordedSnapshot(value: unknown): value is RecordedSnapshot {
+  return typeof value === 'object' && value !== null && 'result' in value && 'capturedAt' in value;
+}
+
+// Load every *.json snapshot in the directory, in file name order.
+// Files hold either a RecordedSnapshot or a bare CaptureResult.
+function loadSnapshots(directory: string): ReplayEntry[] {
+  const files = fs.readdirSync(directory)
+    .filter(file => file.endsWith('.json'))
+    .sort();
+
+  const entries: { time: number | null; result: CaptureResult }[] = files.map(file => {
+    const data: unknown = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8'));
+    if (isRecordedSnapshot(data)) {
+      const time = Date.parse(data.capturedAt);
+      return { time: Number.isNaN(time) ? null : time, result: data.result };
+    }
+    return { time: null, result: data as CaptureResult };
+  });
+
+  const start = entries[0]?.time ?? null;
+  return entries.map(entry => ({
+    offsetMs: entry.time !== null && start !== null ? entry.time - start : null,
+    result: entry.result,
+  }));
+}
+
+// Capture source that plays back recorded snapshots, for running the capture
+// pipeline without Windows. Once the recording ends the last snapshot keeps
+// being returned, like a panel that no longer changes.
+export function createReplaySource(directory: string, options: ReplayOptions = {}): CaptureSource {
+  const speed = options.speed ?? 1;
+  const entries = loadSnapshots(directory);
+  const timed = speed > 0 && entries.every(entry => entry.offsetMs !== null);
+
+  let index = -1;
+  let startedAt = 0;
+  let finished = false;
+
+  console.log(`[Replay] Loaded ${entries.length} snapshots from ${directory}`);
+
+  return {
+    name: `replay:${path.basename(directory)}`,
+    async capture(): Promise<CaptureResult | null> {
+      if (entries.length === 0) return null;
+
+      if (index < 0) {
+        startedAt = Date.now();
+        index = 0;
+      } else if (timed) {
+        const elapsed = (Date.now() - startedAt) * speed;
+        while (index + 1 < entries.length && (entries[index + 1].offsetMs ?? 0) <= elapsed) {
+          index++;
+        }
+      } else if (index + 1 < entries.length) {
+        index++;
+      }
+
+      if (index === entries.length - 1 && !finished) {
+        finished = true;
+        console.log('[Replay] Reached the end of the recording');
+      }
+
+      return entries[index].result;
+    },
+  };
+}
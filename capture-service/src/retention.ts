@@ -0,0 +1,239 @@
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import {
+  compactDatabase,
+  getDatabaseSize,
+  getRetentionCandidates,
+  purgeSession,
+} from './storage';
+import { getConfig, RETENTION_LIMITS } from './config';
+import {
+  RetentionCandidate,
+  RetentionPlan,
+  RetentionPolicy,
+  RetentionReason,
+  RetentionRemoval,
+  RetentionReport,
+  ServiceConfig,
+} from './types';
+
+// Retention limits (max age, max sessions, max database size) are applied
+// once a day while retentionEnabled is on. Removed sessions are purged for
+// good, not moved to the trash, and every run appends a report to
+// retention-reports.jsonl in userData.
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const RUN_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Older reports are dropped from the file
+const MAX_REPORTS = 30;
+
+let checkTimer: NodeJS.Timeout | null = null;
+let lastRunAt: number | null = null;
+
+function getReportsPath(): string {
+  return path.join(app.getPath('userData'), 'retention-reports.jsonl');
+}
+
+export function getRetentionPolicy(config: ServiceConfig = getConfig()): RetentionPolicy {
+  return {
+    maxAgeDays: config.retentionMaxAgeDays,
+    maxSessions: config.retentionMaxSessions,
+    maxDatabaseMB: config.retentionMaxDatabaseMB,
+    keepStarred: config.retentionKeepStarred,
+    keepSaved: config.retentionKeepSaved,
+  };
+}
+
+const LIMIT_PARAMS = {
+  maxAgeDays: 'retentionMaxAgeDays',
+  maxSessions: 'retentionMaxSessions',
+  maxDatabaseMB: 'retentionMaxDatabaseMB',
+} as const;
+
+// Preview parameters override the saved policy, so a policy can be tried
+// before it is saved: ?maxAgeDays=90&keepStarred=false. An empty limit
+// (maxSessions=) means no limit.
+export function parseRetentionPolicyQuery(
+  query: Record<string, unknown>
+): { policy: RetentionPolicy } | { error: string } {
+  const policy = getRetentionPolicy();
+
+  for (const [param, key] of Object.entries(LIMIT_PARAMS) as [keyof typeof LIMIT_PARAMS, keyof typeof RETENTION_LIMITS][]) {
+    const value = query[param];
+    if (value === undefined) continue;
+    if (value === '') {
+      policy[param] = null;
+      continue;
+    }
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 1 || limit > RETENTION_LIMITS[key]) {
+      return { error: `${param} must be empty or an integer between 1 and ${RETENTION_LIMITS[key]}` };
+    }
+    policy[param] = limit;
+  }
+
+  for (const param of ['keepStarred', 'keepSaved'] as const) {
+    const value = query[param];
+    if (value === undefined) continue;
+    if (value !== 'true' && value !== 'false') {
+      return { error: `${param} must be true or false` };
+    }
+    policy[param] = value === 'true';
+  }
+
+  return { policy };
+}
+
+// Decide which sessions a policy removes. Age and count limits apply to live
+// sessions; the size limit takes the oldest trashed sessions first, then the
+// oldest live ones. Starred and saved sessions are spared when the policy
+// says so, but still count towards the limits.
+export function planRetention(
+  policy: RetentionPolicy,
+  candidates: RetentionCandidate[],
+  databaseBytes: number,
+  now: number = Date.now()
+): RetentionPlan {
+  const removed = new Map<string, RetentionRemoval>();
+  const isKept = (c: RetentionCandidate) =>
+    (policy.keepStarred && c.starred) || (policy.keepSaved && c.saved);
+  const remove = (c: RetentionCandidate, reason: RetentionReason) => {
+    removed.set(c.id, { id: c.id, title: c.title, captured_at: c.captured_at, reason, bytes: c.bytes });
+  };
+
+  const live = candidates
+    .filter((c) => c.deleted_at === null)
+    .sort((a, b) => a.captured_at.localeCompare(b.captured_at));
+
+  if (policy.maxAgeDays !== null) {
+    const cutoff = new Date(now - policy.maxAgeDays * DAY_MS).toISOString();
+    for (const c of live) {
+      if (c.captured_at < cutoff && !isKept(c)) {
+        remove(c, 'age');
+      }
+    }
+  }
+
+  if (policy.maxSessions !== null) {
+    let excess = live.length - removed.size - policy.maxSessions;
+    for (const c of live) {
+      if (excess <= 0) break;
+      if (removed.has(c.id) || isKept(c)) continue;
+      remove(c, 'count');
+      excess--;
+    }
+  }
+
+  if (policy.maxDatabaseMB !== null) {
+    const limit = policy.maxDatabaseMB * 1024 * 1024;
+    let size = databaseBytes - [...removed.values()].reduce((sum, r) => sum + r.bytes, 0);
+    const trash = candidates
+      .filter((c) => c.deleted_at !== null)
+      .sort((a, b) => (a.deleted_at as string).localeCompare(b.deleted_at as string));
+    for (const c of [...trash, ...live]) {
+      if (size <= limit) break;
+      if (removed.has(c.id) || (c.deleted_at === null && isKept(c))) continue;
+      remove(c, 'size');
+      size -= c.bytes;
+    }
+  }
+
+  const removals = [...removed.values()].sort((a, b) => a.captured_at.localeCompare(b.captured_at));
+  return {
+    policy,
+    removals,
+    database_bytes: databaseBytes,
+    freed_bytes: removals.reduce((sum, r) => sum + r.bytes, 0),
+  };
+}
+
+// What the policy would remove right now, without removing anything
+export function previewRetention(policy: RetentionPolicy = getRetentionPolicy()): RetentionPlan {
+  return planRetention(policy, getRetentionCandidates(), getDatabaseSize());
+}
+
+function writeReport(report: RetentionReport): void {
+  const reportsPath = getReportsPath();
+  const lines = fs.existsSync(reportsPath)
+    ? fs.readFileSync(reportsPath, 'utf8').split('\n').filter(Boolean)
+    : [];
+  lines.push(JSON.stringify(report));
+  fs.writeFileSync(reportsPath, lines.slice(-MAX_REPORTS).join('\n') + '\n');
+}
+
+// The most recent report, or null before the first run
+export function getLastRetentionReport(): RetentionReport | null {
+  try {
+    const reportsPath = getReportsPath();
+    if (!fs.existsSync(reportsPath)) return null;
+    const lines = fs.readFileSync(reportsPath, 'utf8').split('\n').filter(Boolean);
+    return lines.length > 0 ? (JSON.parse(lines[lines.length - 1]) as RetentionReport) : null;
+  } catch (error) {
+    console.error('[Retention] Failed to read reports:', error);
+    return null;
+  }
+}
+
+// Apply the saved policy now and write a report
+export function runRetention(): RetentionReport {
+  const plan = previewRetention();
+  for (const removal of plan.removals) {
+    purgeSession(removal.id);
+  }
+  if (plan.removals.length > 0) {
+    compactDatabase();
+  }
+
+  const report: RetentionReport = {
+    ...plan,
+    ran_at: new Date().toISOString(),
+    database_bytes_after: getDatabaseSize(),
+  };
+  lastRunAt = Date.parse(report.ran_at);
+  try {
+    writeReport(report);
+  } catch (error) {
+    console.error('[Retention] Failed to write report:', error);
+  }
+
+  const counts = { age: 0, count: 0, size: 0 };
+  for (const removal of plan.removals) {
+    counts[removal.reason]++;
+  }
+  console.log(
+    '[Retention] Removed', plan.removals.length, 'sessions',
+    `(age ${counts.age}, count ${counts.count}, size ${counts.size});`,
+    'database', plan.database_bytes, '->', report.database_bytes_after, 'bytes'
+  );
+  return report;
+}
+
+// Run when enabled and the last run was a day or more ago
+export function checkRetention(): void {
+  if (!getConfig().retentionEnabled) return;
+  if (lastRunAt !== null && Date.now() - lastRunAt < RUN_INTERVAL_MS) return;
+
+  try {
+    runRetention();
+  } catch (error) {
+    console.error('[Retention] Run failed:', error);
+  }
+}
+
+export function startRetention(): void {
+  if (checkTimer) return;
+  const lastReport = getLastRetentionReport();
+  lastRunAt = lastReport ? Date.parse(lastReport.ran_at) : null;
+
+  checkRetention();
+  checkTimer = setInterval(checkRetention, CHECK_INTERVAL_MS);
+}
+
+export function stopRetention(): void {
+  if (checkTimer) {
+    clearInterval(checkTimer);
+    checkTimer = null;
+  }
+}
@@ -0,0 +1,52 @@
+// Full-text search helpers for the messages_fts index.
+// sql.js is compiled without FTS5, so ranking is done with a BM25 function
+// registered on the connection and fed by FTS4's matchinfo().
+
+// BM25 tuning constants (standard values)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Column of messages_fts that holds the searchable text
+export const FTS_CONTENT_COLUMN = 2;
+
+// Snippet markers, the add-in splits on these to render highlights
+export const SNIPPET_START = '<mark>';
+export const SNIPPET_END = '</mark>';
+
+// Turn free text into a safe FTS4 MATCH expression.
+// Every word becomes a prefix term, so "vlook form" finds "VLOOKUP formula".
+export function buildMatchQuery(query: string): string | null {
+  const terms = query.match(/[\p{L}\p{N}_]+/gu);
+  if (!terms || terms.length === 0) {
+    return null;
+  }
+  return terms.map(term => `${term}*`).join(' ');
+}
+
+// Score a row from matchinfo(messages_fts, 'pcnalx'). Higher is better.
+// Layout (32-bit unsigned ints): p, c, n, a[c], l[c], x[3 * c * p]
+export function bm25FromMatchInfo(blob: Uint8Array, column: number = FTS_CONTENT_COLUMN): number {
+  const info = new Uint32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4);
+  const phraseCount = info[0];
+  const columnCount = info[1];
+  const rowCount = info[2];
+
+  const avgLength = info[3 + column] || 1;
+  const docLength = info[3 + columnCount + column];
+  const hitsOffset = 3 + columnCount * 2;
+
+  let score = 0;
+  for (let phrase = 0; phrase < phraseCount; phrase++) {
+    const base = hitsOffset + 3 * (phrase * columnCount + column);
+    const termFrequency = info[base];
+    const docsWithHits = info[base + 2];
+
+    if (termFrequency === 0) continue;
+
+    const idf = Math.log(1 + (rowCount - docsWithHits + 0.5) / (docsWithHits + 0.5));
+    const norm = BM25_K1 * (1 - BM25_B + BM25_B * (docLength / avgLength));
+    score += idf * ((termFrequency * (BM25_K1 + 1)) / (termFrequency + norm));
+  }
+
+  return score;
+}
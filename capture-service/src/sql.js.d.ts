@@ -20,6 +20,7 @@ declare module 'sql.js' {
     export(): Uint8Array;
     close(): void;
     getRowsModified(): number;
+    create_function(name: string, func: (...args: unknown[]) => unknown): Database;
   }
 
   export interface Statement {
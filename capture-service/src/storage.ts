@@ -1,95 +1,605 @@
 import initSqlJs from 'sql.js';
-import type { Database } from 'sql.js';
+import type { Database, SqlJsStatic } from 'sql.js';
 import path from 'path';
 import fs from 'fs';
 import { app } from 'electron';
-import { CapturedSession, SessionSummary } from './types';
+import {
+  CapturedSession,
+  SessionSummary,
+  SessionFilters,
+  SessionListOptions,
+  SessionMetaChanges,
+  SessionPage,
+  Message,
+  MessageChange,
+  RevisionDiff,
+  RevisionSummary,
+  RevisionDetail,
+  RetentionCandidate,
+  RestoreConflict,
+  MergeCounts,
+  StoredMessage,
+} from './types';
+import {
+  buildMatchQuery,
+  bm25FromMatchInfo,
+  FTS_CONTENT_COLUMN,
+  SNIPPET_START,
+  SNIPPET_END,
+} from './search';
+import { runMigrations, tableExists } from './migrations';
+import {
+  beginKeyRotation,
+  decryptDatabase,
+  encryptDatabase,
+  finishKeyRotation,
+  isEncryptionAvailable,
+  isPlaintextDatabase,
+  reencryptFile,
+} from './encryption';
+import { getConfig } from './config';
+import { emitServiceEvent } from './events';
+import { encodeCursor } from './pagination';
+import { generateTitle } from './titles';
 
+// Writes are batched: every change marks the database dirty and the full
+// export is written at most once per debounce window (and at least every
+// SAVE_MAX_DELAY_MS while changes keep coming).
+const SAVE_DEBOUNCE_MS = 1000;
+const SAVE_MAX_DELAY_MS = 10000;
+
+// A session's tags, joined by newlines (tags never contain one)
+const TAGS_COLUMN = `(SELECT group_concat(tag, char(10)) FROM session_tags
+        WHERE session_tags.session_id = sessions.id) as tags`;
+
+// Columns of a SessionSummary
+const SUMMARY_COLUMNS = `id, workbook_name, captured_at, model, input_tokens, output_tokens,
+      SUBSTR(user_prompt, 1, 200) as user_prompt_preview, title, title_source, starred, saved,
+      ${TAGS_COLUMN}, deleted_at`;
+
+// Set by initDatabase; also used to open backups
+let sqlModule: SqlJsStatic | null = null;
 let db: Database | null = null;
 let dbPath: string = '';
+let saveTimer: NodeJS.Timeout | null = null;
+let dirtySince: number | null = null;
 
 export function getDbPath(): string {
   if (!dbPath) {
-    const userDataPath = app.getPath('userData');
-    dbPath = path.join(userDataPath, 'sessions.db');
+    dbPath = getConfig().databasePath || path.join(app.getPath('userData'), 'sessions.db');
   }
   return dbPath;
 }
 
-function saveDatabase(): void {
+// Custom SQL functions. db.export() reopens the connection and drops them,
+// so they are registered again after every export.
+function registerFunctions(database: Database): void {
+  database.create_function('bm25', (matchInfo: unknown) =>
+    matchInfo instanceof Uint8Array ? bm25FromMatchInfo(matchInfo) : 0
+  );
+}
+
+// Write the database via a temp file + rename so a crash mid-write never
+// leaves a truncated sessions.db behind. Encrypted when possible.
+function writeDatabaseFile(): void {
   if (!db) return;
-  const data = db.export();
-  const buffer = Buffer.from(data);
-  fs.writeFileSync(getDbPath(), buffer);
+  const data = encryptDatabase(db.export());
+  registerFunctions(db);
+
+  const filePath = getDbPath();
+  const tempPath = `${filePath}.tmp`;
+  const fd = fs.openSync(tempPath, 'w');
+  try {
+    fs.writeSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempPath, filePath);
+}
+
+function scheduleSave(): void {
+  const now = Date.now();
+  if (dirtySince === null) {
+    dirtySince = now;
+  }
+
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+  }
+  const delay = Math.min(SAVE_DEBOUNCE_MS, dirtySince + SAVE_MAX_DELAY_MS - now);
+  saveTimer = setTimeout(flushDatabase, Math.max(0, delay));
+}
+
+// Write pending changes to disk now
+export function flushDatabase(): void {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  if (!db || dirtySince === null) return;
+
+  const pendingSince = dirtySince;
+  dirtySince = null;
+  try {
+    writeDatabaseFile();
+  } catch (error) {
+    console.error('[Storage] Save failed, will retry:', error);
+    dirtySince = pendingSince;
+    saveTimer = setTimeout(flushDatabase, SAVE_DEBOUNCE_MS);
+  }
 }
 
 export async function initDatabase(): Promise<void> {
   const SQL = await initSqlJs();
+  sqlModule = SQL;
   const dbFilePath = getDbPath();
+  fs.mkdirSync(path.dirname(dbFilePath), { recursive: true });
+
+  // Left over from a write interrupted by a crash; sessions.db is intact
+  fs.rmSync(`${dbFilePath}.tmp`, { force: true });
 
   let database: Database;
+  let wasPlaintext = false;
   if (fs.existsSync(dbFilePath)) {
     const fileBuffer = fs.readFileSync(dbFilePath);
-    database = new SQL.Database(fileBuffer);
+    wasPlaintext = isPlaintextDatabase(fileBuffer);
+    database = new SQL.Database(decryptDatabase(fileBuffer));
   } else {
     database = new SQL.Database();
   }
 
-  database.run(`
-    CREATE TABLE IF NOT EXISTS sessions (
-      id TEXT PRIMARY KEY,
-      workbook_name TEXT,
-      captured_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      request_body TEXT,
-      response_body TEXT,
-      model TEXT,
-      input_tokens INTEGER,
-      output_tokens INTEGER,
-      user_prompt TEXT,
-      assistant_response TEXT
-    )
+  runMigrations(database, dbFilePath);
+  registerFunctions(database);
+
+  db = database;
+  backfillTitles();
+  writeDatabaseFile();
+
+  // A plaintext database from before encryption was encrypted by the write
+  // above; its migration backups are encrypted too
+  if (wasPlaintext && isEncryptionAvailable()) {
+    for (const backupPath of getBackupPaths()) {
+      try {
+        reencryptFile(backupPath);
+      } catch (error) {
+        console.error('[Storage] Failed to encrypt backup', backupPath + ':', error);
+      }
+    }
+    console.log('[Storage] Encrypted the plaintext database');
+  } else if (!isEncryptionAvailable()) {
+    console.warn('[Storage] OS credential store not available; sessions.db is not encrypted');
+  }
+}
+
+// Copies of the database made before migrations, next to sessions.db
+function getBackupPaths(): string[] {
+  const dbFilePath = getDbPath();
+  const prefix = `${path.basename(dbFilePath)}.v`;
+  return fs
+    .readdirSync(path.dirname(dbFilePath))
+    .filter((name) => name.startsWith(prefix) && name.endsWith('.bak'))
+    .map((name) => path.join(path.dirname(dbFilePath), name));
+}
+
+export function isDatabaseEncrypted(): boolean {
+  return isEncryptionAvailable();
+}
+
+// Re-encrypt the database, its migration backups and the given encrypted
+// snapshots with a new key. The old key is only dropped once every file has
+// been rewritten.
+export function rotateDatabaseKey(snapshotPaths: string[]): void {
+  if (!db) throw new Error('Database not initialized');
+
+  beginKeyRotation();
+  writeDatabaseFile();
+  for (const backupPath of [...getBackupPaths(), ...snapshotPaths]) {
+    reencryptFile(backupPath);
+  }
+  finishKeyRotation();
+}
+
+// Plain SQLite bytes of the database as it is in memory, for snapshots
+export function exportDatabase(): Uint8Array {
+  if (!db) throw new Error('Database not initialized');
+
+  const data = db.export();
+  registerFunctions(db);
+  return data;
+}
+
+// Open a backup (plain SQLite, or encrypted with this machine's key) and bring
+// it up to the current schema. Throws when it is not a usable sessions
+// database; the file itself is never changed.
+export function openBackupDatabase(data: Uint8Array): Database {
+  if (!sqlModule) throw new Error('Database not initialized');
+
+  const bytes = decryptDatabase(data);
+  if (!isPlaintextDatabase(bytes)) {
+    throw new Error('Not a SQLite database');
+  }
+
+  const backup = new sqlModule.Database(bytes);
+  try {
+    const check = String(backup.exec('PRAGMA integrity_check')[0]?.values[0]?.[0]);
+    if (check !== 'ok') {
+      throw new Error(`Integrity check failed: ${check}`);
+    }
+    if (!tableExists(backup, 'sessions')) {
+      throw new Error('Not a session database (it has no sessions table)');
+    }
+    runMigrations(backup, null);
+  } catch (error) {
+    backup.close();
+    throw error;
+  }
+  return backup;
+}
+
+// Swap the database for a restored one and write it out. Changes not yet
+// saved are dropped, so take a snapshot first.
+export function replaceDatabase(restored: Database): void {
+  if (!db) throw new Error('Database not initialized');
+
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  dirtySince = null;
+  db.close();
+
+  registerFunctions(restored);
+  db = restored;
+  backfillTitles();
+  writeDatabaseFile();
+  emitServiceEvent({ type: 'database.restored' });
+}
+
+// When a session last changed: its newest revision, or its capture time
+const LAST_CHANGED_COLUMN = `COALESCE((SELECT MAX(created_at) FROM revisions
+        WHERE revisions.session_id = sessions.id), captured_at) as last_changed`;
+
+function getLastChanged(id: string): string | null {
+  if (!db) return null;
+
+  const stmt = db.prepare(`SELECT ${LAST_CHANGED_COLUMN} FROM sessions WHERE id = ?`);
+  stmt.bind([id]);
+  const lastChanged = stmt.step() ? String(stmt.get()[0]) : null;
+  stmt.free();
+  return lastChanged;
+}
+
+// Copy one session with its messages, revisions and tags from another
+// database (same schema) into this one
+function copySession(source: Database, row: Record<string, unknown>, columns: string[]): void {
+  if (!db) return;
+  const database = db;
+  const id = String(row.id);
+
+  database.run(
+    `INSERT INTO sessions (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+    columns.map((column) => row[column] ?? null)
+  );
+
+  const messages = source.prepare(`
+    SELECT ordinal, role, content, cell_context, first_seen_at, updated_at
+    FROM messages WHERE session_id = ? ORDER BY ordinal
   `);
+  messages.bind([id]);
+  while (messages.step()) {
+    const m = messages.getAsObject();
+    database.run(
+      `INSERT INTO messages (session_id, ordinal, role, content, cell_context, first_seen_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, m.ordinal, m.role, m.content, m.cell_context, m.first_seen_at, m.updated_at]
+    );
+    database.run(
+      `INSERT INTO messages_fts (docid, session_id, role, content)
+       VALUES (last_insert_rowid(), ?, ?, ?)`,
+      [id, m.role, m.content]
+    );
+  }
+  messages.free();
 
-  database.run('CREATE INDEX IF NOT EXISTS idx_workbook ON sessions(workbook_name)');
-  database.run('CREATE INDEX IF NOT EXISTS idx_captured ON sessions(captured_at)');
+  const revisions = source.prepare(`
+    SELECT revision, created_at, message_count, added, changed, removed, changes, restored_from
+    FROM revisions WHERE session_id = ? ORDER BY revision
+  `);
+  revisions.bind([id]);
+  while (revisions.step()) {
+    const r = revisions.getAsObject();
+    database.run(
+      `INSERT INTO revisions
+        (session_id, revision, created_at, message_count, added, changed, removed, changes, restored_from)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, r.revision, r.created_at, r.message_count, r.added, r.changed, r.removed, r.changes, r.restored_from]
+    );
+  }
+  revisions.free();
 
-  db = database;
-  saveDatabase();
+  const tags = source.prepare('SELECT tag FROM session_tags WHERE session_id = ?');
+  tags.bind([id]);
+  while (tags.step()) {
+    database.run('INSERT INTO session_tags (session_id, tag) VALUES (?, ?)', [id, tags.get()[0]]);
+  }
+  tags.free();
+}
+
+// Add the sessions of a restored database to this one. Sessions are matched
+// by id; `conflict` decides which copy of a session in both is kept. Runs as
+// one transaction, so a failed merge changes nothing.
+export function mergeDatabase(source: Database, conflict: RestoreConflict): MergeCounts {
+  if (!db) throw new Error('Database not initialized');
+  const database = db;
+
+  // Only columns this schema knows; both sides are at the latest version
+  const columns = (database.exec('PRAGMA table_info(sessions)')[0]?.values ?? [])
+    .map((row) => String(row[1]));
+  const counts: MergeCounts = { added: 0, replaced: 0, skipped: 0 };
+
+  const stmt = source.prepare(`SELECT *, ${LAST_CHANGED_COLUMN} FROM sessions`);
+  database.run('BEGIN');
+  try {
+    while (stmt.step()) {
+      const row = stmt.getAsObject();
+      const id = String(row.id);
+      const current = getLastChanged(id);
+
+      if (current !== null) {
+        const useBackup = conflict === 'overwrite' ||
+          (conflict === 'newest' && String(row.last_changed) > current);
+        if (!useBackup) {
+          counts.skipped++;
+          continue;
+        }
+        deleteSessionRows(id);
+        counts.replaced++;
+      } else {
+        counts.added++;
+      }
+      copySession(source, row, columns);
+    }
+    database.run('COMMIT');
+  } catch (error) {
+    database.run('ROLLBACK');
+    throw error;
+  } finally {
+    stmt.free();
+  }
+
+  backfillTitles();
+  dirtySince = dirtySince ?? Date.now();
+  flushDatabase();
+  emitServiceEvent({ type: 'database.restored' });
+  return counts;
+}
+
+// SQL rows carry starred and saved as 0/1 and tags as one joined string
+function withMetaFields<T>(row: Record<string, unknown>): T {
+  const tags = typeof row.tags === 'string' && row.tags ? row.tags.split('\n').sort() : [];
+  return { ...row, starred: row.starred === 1, saved: row.saved === 1, tags } as unknown as T;
+}
+
+// Write a thread's messages, keeping first_seen_at for messages that already
+// exist and bumping updated_at only where the content changed. Full-text rows
+// share the message id, so only changed messages are re-indexed.
+// Returns what changed, for the revision history.
+function writeMessages(sessionId: string, messages: Message[], timestamp: string): RevisionDiff {
+  const diff: RevisionDiff = {
+    messageCount: messages.length,
+    changes: [],
+    added: 0,
+    changed: 0,
+    removed: 0,
+  };
+  if (!db) return diff;
+  const database = db;
+
+  const existing = new Map(getSessionMessages(sessionId).map((m) => [m.ordinal, m]));
+
+  messages.forEach((msg, ordinal) => {
+    const current = existing.get(ordinal);
+    const isNew = !current;
+    const isChanged = !!current && (
+      current.role !== msg.role ||
+      current.content !== msg.content ||
+      current.cell_context !== (msg.cellContext ?? null)
+    );
+    if (isNew || isChanged) {
+      diff.changes.push({ ordinal, message: msg });
+      if (isNew) diff.added++;
+      else diff.changed++;
+    }
+
+    if (!current) {
+      database.run(
+        `INSERT INTO messages (session_id, ordinal, role, content, cell_context, first_seen_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [sessionId, ordinal, msg.role, msg.content, msg.cellContext ?? null, timestamp, timestamp]
+      );
+      database.run(
+        `INSERT INTO messages_fts (docid, session_id, role, content)
+         VALUES (last_insert_rowid(), ?, ?, ?)`,
+        [sessionId, msg.role, msg.content]
+      );
+    } else if (current.role !== msg.role || current.content !== msg.content) {
+      database.run(
+        'UPDATE messages SET role = ?, content = ?, cell_context = ?, updated_at = ? WHERE id = ?',
+        [msg.role, msg.content, msg.cellContext ?? null, timestamp, current.id]
+      );
+      database.run(
+        'UPDATE messages_fts SET role = ?, content = ? WHERE docid = ?',
+        [msg.role, msg.content, current.id]
+      );
+    } else if (current.cell_context !== (msg.cellContext ?? null)) {
+      // The selection is not indexed, so the full-text row stays as it is
+      database.run(
+        'UPDATE messages SET cell_context = ?, updated_at = ? WHERE id = ?',
+        [msg.cellContext ?? null, timestamp, current.id]
+      );
+    }
+  });
+
+  const removed = [...existing.values()].filter((m) => m.ordinal >= messages.length);
+  for (const msg of removed) {
+    database.run('DELETE FROM messages_fts WHERE docid = ?', [msg.id]);
+    database.run('DELETE FROM messages WHERE id = ?', [msg.id]);
+  }
+  diff.removed = removed.length;
+
+  return diff;
+}
+
+// Append a write to the session's revision history; writes that changed
+// nothing are not recorded
+function appendRevision(
+  sessionId: string,
+  diff: RevisionDiff,
+  timestamp: string,
+  restoredFrom: number | null = null
+): void {
+  if (!db || (diff.changes.length === 0 && diff.removed === 0)) return;
+
+  const stmt = db.prepare('SELECT COALESCE(MAX(revision), 0) + 1 FROM revisions WHERE session_id = ?');
+  stmt.bind([sessionId]);
+  stmt.step();
+  const revision = Number(stmt.get()[0]);
+  stmt.free();
+
+  db.run(
+    `INSERT INTO revisions
+      (session_id, revision, created_at, message_count, added, changed, removed, changes, restored_from)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      sessionId,
+      revision,
+      timestamp,
+      diff.messageCount,
+      diff.added,
+      diff.changed,
+      diff.removed,
+      JSON.stringify(diff.changes),
+      restoredFrom,
+    ]
+  );
+}
+
+// Regenerate the title from the thread unless the user has set one
+function refreshAutoTitle(sessionId: string, messages: Message[]): void {
+  if (!db) return;
+  db.run("UPDATE sessions SET title = ? WHERE id = ? AND title_source = 'auto'", [
+    generateTitle(messages),
+    sessionId,
+  ]);
+}
+
+// Sessions from before titles existed get one when the database is opened
+function backfillTitles(): void {
+  if (!db) return;
+
+  const untitled = db.exec("SELECT id FROM sessions WHERE title IS NULL AND title_source = 'auto'");
+  const ids = (untitled[0]?.values ?? []).map((row) => String(row[0]));
+  for (const id of ids) {
+    const messages = getSessionMessages(id).map((m) => ({ role: m.role, content: m.content }));
+    refreshAutoTitle(id, messages);
+  }
+  if (ids.length > 0) {
+    console.log('[Storage] Generated titles for', ids.length, 'sessions');
+  }
+}
+
+// Preview fields of a session, derived from its messages
+export function summarizeThread(
+  messages: Message[]
+): { user_prompt: string; assistant_response: string } {
+  return {
+    user_prompt: messages.find((m) => m.role === 'user')?.content || '',
+    assistant_response: messages
+      .filter((m) => m.role === 'assistant')
+      .map((m) => m.content)
+      .join('\n\n'),
+  };
+}
+
+// Remove a session's messages and their full-text rows
+function deleteMessages(sessionId: string): void {
+  if (!db) return;
+
+  db.run(
+    'DELETE FROM messages_fts WHERE docid IN (SELECT id FROM messages WHERE session_id = ?)',
+    [sessionId]
+  );
+  db.run('DELETE FROM messages WHERE session_id = ?', [sessionId]);
+}
+
+// Delete a session and everything stored with it; true when it existed
+function deleteSessionRows(id: string): boolean {
+  if (!db) return false;
+
+  deleteMessages(id);
+  db.run('DELETE FROM revisions WHERE session_id = ?', [id]);
+  db.run('DELETE FROM session_tags WHERE session_id = ?', [id]);
+  db.run('DELETE FROM sessions WHERE id = ?', [id]);
+  return db.getRowsModified() > 0;
+}
+
+// Run a write of several statements as one transaction, so a failure partway
+// through never leaves the session row, messages and full-text rows out of step
+function inTransaction<T>(write: (database: Database) => T): T {
+  if (!db) throw new Error('Database not initialized');
+  const database = db;
+
+  database.run('BEGIN');
+  try {
+    const result = write(database);
+    database.run('COMMIT');
+    return result;
+  } catch (error) {
+    database.run('ROLLBACK');
+    throw error;
+  }
 }
 
 export function closeDatabase(): void {
   if (db) {
-    saveDatabase();
+    flushDatabase();
     db.close();
     db = null;
   }
 }
 
-export function insertSession(session: CapturedSession): void {
+export function insertSession(session: CapturedSession, messages: Message[]): void {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    db.run(
-      `INSERT INTO sessions (
-        id, workbook_name, captured_at, request_body, response_body,
-        model, input_tokens, output_tokens, user_prompt, assistant_response
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        session.id,
-        session.workbook_name,
-        session.captured_at,
-        session.request_body,
-        session.response_body,
-        session.model,
-        session.input_tokens,
-        session.output_tokens,
-        session.user_prompt,
-        session.assistant_response,
-      ]
-    );
+    inTransaction((database) => {
+      database.run(
+        `INSERT INTO sessions (
+          id, workbook_name, captured_at, request_body, response_body,
+          model, input_tokens, output_tokens, user_prompt, assistant_response
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          session.id,
+          session.workbook_name,
+          session.captured_at,
+          session.request_body,
+          session.response_body,
+          session.model,
+          session.input_tokens,
+          session.output_tokens,
+          session.user_prompt,
+          session.assistant_response,
+        ]
+      );
+      const diff = writeMessages(session.id, messages, session.captured_at);
+      appendRevision(session.id, diff, session.captured_at);
+      refreshAutoTitle(session.id, messages);
+    });
 
-    saveDatabase();
+    scheduleSave();
     console.log('[Storage] Inserted session:', session.id, '- Count now:', getSessionCount());
+    emitSessionEvent('session.created', session.id);
   } catch (error) {
     console.error('[Storage] Insert failed:', error);
   }
@@ -100,15 +610,15 @@ export function getActiveSessionByWorkbook(workbookName: string): CapturedSessio
   if (!db) throw new Error('Database not initialized');
 
   const stmt = db.prepare(`
-    SELECT * FROM sessions
-    WHERE workbook_name = ?
+    SELECT *, ${TAGS_COLUMN} FROM sessions
+    WHERE workbook_name = ? AND deleted_at IS NULL
     ORDER BY captured_at DESC
     LIMIT 1
   `);
   stmt.bind([workbookName]);
 
   if (stmt.step()) {
-    const row = stmt.getAsObject() as unknown as CapturedSession;
+    const row = withMetaFields<CapturedSession>(stmt.getAsObject());
     stmt.free();
     return row;
   }
@@ -118,30 +628,36 @@ export function getActiveSessionByWorkbook(workbookName: string): CapturedSessio
 }
 
 // Update an existing session (for thread updates)
-export function updateSession(session: CapturedSession): void {
+export function updateSession(session: CapturedSession, messages: Message[]): void {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    db.run(
-      `UPDATE sessions SET
-        captured_at = ?,
-        request_body = ?,
-        response_body = ?,
-        user_prompt = ?,
-        assistant_response = ?
-      WHERE id = ?`,
-      [
-        session.captured_at,
-        session.request_body,
-        session.response_body,
-        session.user_prompt,
-        session.assistant_response,
-        session.id,
-      ]
-    );
+    inTransaction((database) => {
+      database.run(
+        `UPDATE sessions SET
+          captured_at = ?,
+          request_body = ?,
+          response_body = ?,
+          user_prompt = ?,
+          assistant_response = ?
+        WHERE id = ?`,
+        [
+          session.captured_at,
+          session.request_body,
+          session.response_body,
+          session.user_prompt,
+          session.assistant_response,
+          session.id,
+        ]
+      );
+      const diff = writeMessages(session.id, messages, session.captured_at);
+      appendRevision(session.id, diff, session.captured_at);
+      refreshAutoTitle(session.id, messages);
+    });
 
-    saveDatabase();
+    scheduleSave();
     console.log('[Storage] Updated session:', session.id);
+    emitSessionEvent('session.updated', session.id);
   } catch (error) {
     console.error('[Storage] Update failed:', error);
   }
@@ -152,15 +668,15 @@ export function getAllSessions(): SessionSummary[] {
 
   const stmt = db.prepare(`
     SELECT
-      id, workbook_name, captured_at, model, input_tokens, output_tokens,
-      SUBSTR(user_prompt, 1, 200) as user_prompt_preview
+      ${SUMMARY_COLUMNS}
     FROM sessions
+    WHERE deleted_at IS NULL
     ORDER BY captured_at DESC
   `);
 
   const results: SessionSummary[] = [];
   while (stmt.step()) {
-    const row = stmt.getAsObject() as unknown as SessionSummary;
+    const row = withMetaFields<SessionSummary>(stmt.getAsObject());
     results.push(row);
   }
   stmt.free();
@@ -168,14 +684,37 @@ export function getAllSessions(): SessionSummary[] {
   return results;
 }
 
+export function getSessionSummary(id: string): SessionSummary | null {
+  if (!db) throw new Error('Database not initialized');
+
+  const stmt = db.prepare(`
+    SELECT
+      ${SUMMARY_COLUMNS}
+    FROM sessions
+    WHERE id = ?
+  `);
+  stmt.bind([id]);
+
+  const row = stmt.step() ? (withMetaFields<SessionSummary>(stmt.getAsObject())) : null;
+  stmt.free();
+  return row;
+}
+
+function emitSessionEvent(type: 'session.created' | 'session.updated', id: string): void {
+  const session = getSessionSummary(id);
+  if (session) {
+    emitServiceEvent({ type, session });
+  }
+}
+
 export function getSessionById(id: string): CapturedSession | null {
   if (!db) throw new Error('Database not initialized');
 
-  const stmt = db.prepare('SELECT * FROM sessions WHERE id = ?');
+  const stmt = db.prepare(`SELECT *, ${TAGS_COLUMN} FROM sessions WHERE id = ?`);
   stmt.bind([id]);
 
   if (stmt.step()) {
-    const row = stmt.getAsObject() as unknown as CapturedSession;
+    const row = withMetaFields<CapturedSession>(stmt.getAsObject());
     stmt.free();
     return row;
   }
@@ -184,22 +723,43 @@ export function getSessionById(id: string): CapturedSession | null {
   return null;
 }
 
+// Messages of a thread in on-screen order
+export function getSessionMessages(sessionId: string): StoredMessage[] {
+  if (!db) throw new Error('Database not initialized');
+
+  const stmt = db.prepare(`
+    SELECT id, session_id, ordinal, role, content, cell_context, first_seen_at, updated_at
+    FROM messages
+    WHERE session_id = ?
+    ORDER BY ordinal
+  `);
+  stmt.bind([sessionId]);
+
+  const results: StoredMessage[] = [];
+  while (stmt.step()) {
+    const row = stmt.getAsObject() as unknown as StoredMessage;
+    results.push(row);
+  }
+  stmt.free();
+
+  return results;
+}
+
 export function getSessionsByWorkbook(workbookName: string): SessionSummary[] {
   if (!db) throw new Error('Database not initialized');
 
   const stmt = db.prepare(`
     SELECT
-      id, workbook_name, captured_at, model, input_tokens, output_tokens,
-      SUBSTR(user_prompt, 1, 200) as user_prompt_preview
+      ${SUMMARY_COLUMNS}
     FROM sessions
-    WHERE workbook_name = ?
+    WHERE workbook_name = ? AND deleted_at IS NULL
     ORDER BY captured_at DESC
   `);
   stmt.bind([workbookName]);
 
   const results: SessionSummary[] = [];
   while (stmt.step()) {
-    const row = stmt.getAsObject() as unknown as SessionSummary;
+    const row = withMetaFields<SessionSummary>(stmt.getAsObject());
     results.push(row);
   }
   stmt.free();
@@ -207,21 +767,258 @@ export function getSessionsByWorkbook(workbookName: string): SessionSummary[] {
   return results;
 }
 
+// Move a session to the trash; it is purged after trashRetentionDays
 export function deleteSession(id: string): boolean {
   if (!db) throw new Error('Database not initialized');
 
-  const before = getSessionCount();
-  db.run('DELETE FROM sessions WHERE id = ?', [id]);
-  saveDatabase();
-  const after = getSessionCount();
+  db.run('UPDATE sessions SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL', [
+    new Date().toISOString(),
+    id,
+  ]);
+  const deleted = db.getRowsModified() > 0;
+
+  if (deleted) {
+    scheduleSave();
+    emitServiceEvent({ type: 'session.deleted', id });
+  }
+  return deleted;
+}
+
+// Take a session back out of the trash
+export function restoreSession(id: string): SessionSummary | null {
+  if (!db) throw new Error('Database not initialized');
+
+  db.run('UPDATE sessions SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL', [id]);
+  if (db.getRowsModified() === 0) {
+    return null;
+  }
+
+  scheduleSave();
+  const session = getSessionSummary(id);
+  if (session) {
+    emitServiceEvent({ type: 'session.restored', session });
+  }
+  return session;
+}
+
+// Remove a session and its messages for good, whether or not it is in the trash
+export function purgeSession(id: string): boolean {
+  if (!db) throw new Error('Database not initialized');
+
+  const purged = deleteSessionRows(id);
+  scheduleSave();
+
+  if (purged) {
+    emitServiceEvent({ type: 'session.purged', id });
+  }
+  return purged;
+}
+
+// Purge sessions that went to the trash before the given ISO timestamp
+// (every trashed session when omitted); returns how many were removed
+export function purgeDeletedSessions(deletedBefore?: string): number {
+  if (!db) throw new Error('Database not initialized');
+
+  const stmt = db.prepare(
+    deletedBefore
+      ? 'SELECT id FROM sessions WHERE deleted_at IS NOT NULL AND deleted_at < ?'
+      : 'SELECT id FROM sessions WHERE deleted_at IS NOT NULL'
+  );
+  stmt.bind(deletedBefore ? [deletedBefore] : []);
+  const ids: string[] = [];
+  while (stmt.step()) {
+    ids.push(String(stmt.get()[0]));
+  }
+  stmt.free();
+
+  for (const id of ids) {
+    purgeSession(id);
+  }
+  return ids.length;
+}
+
+// Every session with what retention needs to choose between them, oldest
+// first. Message text is counted twice because the full-text index keeps
+// its own copy.
+export function getRetentionCandidates(): RetentionCandidate[] {
+  if (!db) throw new Error('Database not initialized');
+
+  const stmt = db.prepare(`
+    SELECT id, title, captured_at, deleted_at, starred, saved,
+      COALESCE(length(CAST(request_body AS BLOB)), 0) +
+      COALESCE(length(CAST(response_body AS BLOB)), 0) +
+      COALESCE(length(CAST(user_prompt AS BLOB)), 0) +
+      COALESCE(length(CAST(assistant_response AS BLOB)), 0) +
+      (SELECT COALESCE(SUM(length(CAST(content AS BLOB))), 0) * 2 FROM messages
+        WHERE messages.session_id = sessions.id) +
+      (SELECT COALESCE(SUM(length(CAST(changes AS BLOB))), 0) FROM revisions
+        WHERE revisions.session_id = sessions.id) as bytes
+    FROM sessions
+    ORDER BY captured_at ASC
+  `);
+
+  const results: RetentionCandidate[] = [];
+  while (stmt.step()) {
+    const row = stmt.getAsObject();
+    results.push({
+      id: String(row.id),
+      title: row.title === null ? null : String(row.title),
+      captured_at: String(row.captured_at),
+      deleted_at: row.deleted_at === null ? null : String(row.deleted_at),
+      starred: row.starred === 1,
+      saved: row.saved === 1,
+      bytes: Number(row.bytes),
+    });
+  }
+  stmt.free();
+  return results;
+}
+
+// Bytes in use by the database (free pages left by deletes are not counted)
+export function getDatabaseSize(): number {
+  if (!db) throw new Error('Database not initialized');
+
+  const pageSize = Number(db.exec('PRAGMA page_size')[0]?.values[0]?.[0] ?? 0);
+  const pageCount = Number(db.exec('PRAGMA page_count')[0]?.values[0]?.[0] ?? 0);
+  const freePages = Number(db.exec('PRAGMA freelist_count')[0]?.values[0]?.[0] ?? 0);
+  return (pageCount - freePages) * pageSize;
+}
+
+// Rebuild the database without the space freed by deletes and write it now
+export function compactDatabase(): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.run('VACUUM');
+  dirtySince = dirtySince ?? Date.now();
+  flushDatabase();
+}
+
+// Apply user edits to a session's title, tags and star. Returns the updated
+// summary, or null when the session does not exist.
+export function updateSessionMeta(id: string, changes: SessionMetaChanges): SessionSummary | null {
+  if (!db) throw new Error('Database not initialized');
+  if (!getSessionSummary(id)) return null;
+
+  if (changes.title !== undefined) {
+    if (changes.title === null) {
+      db.run("UPDATE sessions SET title_source = 'auto' WHERE id = ?", [id]);
+      const messages = getSessionMessages(id).map((m) => ({ role: m.role, content: m.content }));
+      refreshAutoTitle(id, messages);
+    } else {
+      db.run("UPDATE sessions SET title = ?, title_source = 'user' WHERE id = ?", [changes.title, id]);
+    }
+  }
+
+  if (changes.starred !== undefined) {
+    db.run('UPDATE sessions SET starred = ? WHERE id = ?', [changes.starred ? 1 : 0, id]);
+  }
+
+  if (changes.saved !== undefined) {
+    db.run('UPDATE sessions SET saved = ? WHERE id = ?', [changes.saved ? 1 : 0, id]);
+  }
+
+  if (changes.tags !== undefined) {
+    db.run('DELETE FROM session_tags WHERE session_id = ?', [id]);
+    for (const tag of changes.tags) {
+      db.run('INSERT OR IGNORE INTO session_tags (session_id, tag) VALUES (?, ?)', [id, tag]);
+    }
+  }
+
+  scheduleSave();
+  emitSessionEvent('session.updated', id);
+  return getSessionSummary(id);
+}
+
+// Every tag in use, for suggestions
+export function getAllTags(): string[] {
+  if (!db) throw new Error('Database not initialized');
+  return (db.exec('SELECT DISTINCT tag FROM session_tags ORDER BY tag')[0]?.values ?? [])
+    .map((row) => String(row[0]));
+}
+
+// Revision history of a session, oldest first
+export function getSessionRevisions(sessionId: string): RevisionSummary[] {
+  if (!db) throw new Error('Database not initialized');
+
+  const stmt = db.prepare(`
+    SELECT revision, created_at, message_count, added, changed, removed, restored_from
+    FROM revisions
+    WHERE session_id = ?
+    ORDER BY revision
+  `);
+  stmt.bind([sessionId]);
+
+  const results: RevisionSummary[] = [];
+  while (stmt.step()) {
+    results.push(stmt.getAsObject() as unknown as RevisionSummary);
+  }
+  stmt.free();
+
+  return results;
+}
+
+// The thread as it was at a revision, rebuilt by replaying revisions 1..n
+export function getSessionRevision(sessionId: string, revision: number): RevisionDetail | null {
+  if (!db) throw new Error('Database not initialized');
+
+  const stmt = db.prepare(`
+    SELECT revision, created_at, message_count, added, changed, removed, restored_from, changes
+    FROM revisions
+    WHERE session_id = ? AND revision <= ?
+    ORDER BY revision
+  `);
+  stmt.bind([sessionId, revision]);
+
+  let messages: Message[] = [];
+  let last: RevisionSummary | null = null;
+  while (stmt.step()) {
+    const { changes, ...summary } = stmt.getAsObject() as unknown as RevisionSummary & { changes: string };
+    for (const change of JSON.parse(changes) as MessageChange[]) {
+      messages[change.ordinal] = change.message;
+    }
+    messages = messages.slice(0, summary.message_count);
+    last = summary;
+  }
+  stmt.free();
+
+  return last && last.revision === revision ? { ...last, messages } : null;
+}
+
+// Bring a thread back to an earlier revision. The restore is itself recorded
+// as a new revision, so nothing after it is lost.
+export function restoreSessionRevision(sessionId: string, revision: number): boolean {
+  if (!db) throw new Error('Database not initialized');
+
+  const target = getSessionRevision(sessionId, revision);
+  if (!target || !getSessionById(sessionId)) {
+    return false;
+  }
 
-  return after < before;
+  const timestamp = new Date().toISOString();
+  inTransaction((database) => {
+    const diff = writeMessages(sessionId, target.messages, timestamp);
+    appendRevision(sessionId, diff, timestamp, revision);
+    refreshAutoTitle(sessionId, target.messages);
+
+    const preview = summarizeThread(target.messages);
+    database.run('UPDATE sessions SET user_prompt = ?, assistant_response = ? WHERE id = ?', [
+      preview.user_prompt,
+      preview.assistant_response,
+      sessionId,
+    ]);
+  });
+
+  scheduleSave();
+  console.log('[Storage] Restored session', sessionId, 'to revision', revision);
+  emitSessionEvent('session.updated', sessionId);
+  return true;
 }
 
+// Number of live sessions (the trash is not counted)
 export function getSessionCount(): number {
   if (!db) throw new Error('Database not initialized');
 
-  const stmt = db.prepare('SELECT COUNT(*) as count FROM sessions');
+  const stmt = db.prepare('SELECT COUNT(*) as count FROM sessions WHERE deleted_at IS NULL');
   stmt.step();
   const result = stmt.getAsObject() as { count: number };
   stmt.free();
@@ -229,33 +1026,196 @@ export function getSessionCount(): number {
   return result.count;
 }
 
-export function searchSessions(query: string): SessionSummary[] {
+// SQL conditions (joined with AND) for the session filters
+function buildFilterConditions(filters: SessionFilters): { conditions: string[]; params: string[] } {
+  const conditions = [filters.deleted ? 'deleted_at IS NOT NULL' : 'deleted_at IS NULL'];
+  const params: string[] = [];
+
+  if (filters.workbook) {
+    conditions.push('workbook_name = ?');
+    params.push(filters.workbook);
+  }
+  if (filters.model) {
+    conditions.push('model = ?');
+    params.push(filters.model);
+  }
+  if (filters.from) {
+    conditions.push('captured_at >= ?');
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    conditions.push('captured_at <= ?');
+    params.push(filters.to);
+  }
+  if (filters.starred !== undefined) {
+    conditions.push(filters.starred ? 'starred = 1' : 'starred = 0');
+  }
+  if (filters.ids) {
+    conditions.push(filters.ids.length > 0 ? `id IN (${filters.ids.map(() => '?').join(', ')})` : '0');
+    params.push(...filters.ids);
+  }
+  if (filters.excludeIds && filters.excludeIds.length > 0) {
+    conditions.push(`id NOT IN (${filters.excludeIds.map(() => '?').join(', ')})`);
+    params.push(...filters.excludeIds);
+  }
+  for (const tag of filters.tags ?? []) {
+    conditions.push('id IN (SELECT session_id FROM session_tags WHERE tag = ?)');
+    params.push(tag);
+  }
+  if (filters.title) {
+    conditions.push("title LIKE ? ESCAPE '\\'");
+    params.push(`%${filters.title.replace(/[\\%_]/g, (c) => '\\' + c)}%`);
+  }
+
+  return { conditions, params };
+}
+
+function whereClause(conditions: string[]): string {
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+}
+
+// One page of sessions, newest or oldest first, or ranked when searching.
+// Date order pages by (captured_at, id) so new captures never shift later pages.
+export function listSessions(options: SessionListOptions): SessionPage {
   if (!db) throw new Error('Database not initialized');
 
-  const searchTerm = `%${query}%`;
+  if (options.search !== undefined) {
+    return listSearchResults(options);
+  }
+
+  const { conditions, params } = buildFilterConditions(options);
+
+  const countStmt = db.prepare(`SELECT COUNT(*) as count FROM sessions ${whereClause(conditions)}`);
+  countStmt.bind(params);
+  countStmt.step();
+  const total = (countStmt.getAsObject() as { count: number }).count;
+  countStmt.free();
+
+  const descending = options.sort !== 'oldest';
+  const direction = descending ? 'DESC' : 'ASC';
+  const pageConditions = [...conditions];
+  const pageParams: (string | number)[] = [...params];
+
+  if (options.cursor && 'capturedAt' in options.cursor) {
+    const op = descending ? '<' : '>';
+    pageConditions.push(`(captured_at ${op} ? OR (captured_at = ? AND id ${op} ?))`);
+    pageParams.push(options.cursor.capturedAt, options.cursor.capturedAt, options.cursor.id);
+  }
+
   const stmt = db.prepare(`
     SELECT
-      id, workbook_name, captured_at, model, input_tokens, output_tokens,
-      SUBSTR(user_prompt, 1, 200) as user_prompt_preview
+      ${SUMMARY_COLUMNS}
     FROM sessions
-    WHERE user_prompt LIKE ? OR assistant_response LIKE ?
-    ORDER BY captured_at DESC
+    ${whereClause(pageConditions)}
+    ORDER BY captured_at ${direction}, id ${direction}
+    LIMIT ?
   `);
-  stmt.bind([searchTerm, searchTerm]);
+  // One extra row tells whether there is a next page
+  stmt.bind([...pageParams, options.limit + 1]);
+
+  const rows: SessionSummary[] = [];
+  while (stmt.step()) {
+    rows.push(withMetaFields<SessionSummary>(stmt.getAsObject()));
+  }
+  stmt.free();
+
+  const sessions = rows.slice(0, options.limit);
+  const last = sessions[sessions.length - 1];
+  return {
+    sessions,
+    nextCursor: rows.length > options.limit && last
+      ? encodeCursor({ capturedAt: last.captured_at, id: last.id })
+      : null,
+    total,
+  };
+}
+
+// Search results are ranked as a whole, so they are paged by offset
+function listSearchResults(options: SessionListOptions): SessionPage {
+  const results = searchSessions(options.search ?? '', options);
+
+  if (options.sort === 'newest') {
+    results.sort((a, b) => b.captured_at.localeCompare(a.captured_at) || b.id.localeCompare(a.id));
+  } else if (options.sort === 'oldest') {
+    results.sort((a, b) => a.captured_at.localeCompare(b.captured_at) || a.id.localeCompare(b.id));
+  }
+
+  const offset = options.cursor && 'offset' in options.cursor ? options.cursor.offset : 0;
+  const end = offset + options.limit;
+  return {
+    sessions: results.slice(offset, end),
+    nextCursor: end < results.length ? encodeCursor({ offset: end }) : null,
+    total: results.length,
+  };
+}
+
+// Ranked full-text search across every message.
+// Each session is scored by its best matching message, whose snippet is returned.
+export function searchSessions(query: string, filters: SessionFilters = {}): SessionSummary[] {
+  if (!db) throw new Error('Database not initialized');
+
+  const matchQuery = buildMatchQuery(query);
+  if (!matchQuery) {
+    return [];
+  }
+
+  const matchStmt = db.prepare(`
+    SELECT
+      session_id,
+      bm25(matchinfo(messages_fts, 'pcnalx')) as score,
+      snippet(messages_fts, ?, ?, '…', ?, 16) as snippet
+    FROM messages_fts
+    WHERE messages_fts MATCH ?
+  `);
+  matchStmt.bind([SNIPPET_START, SNIPPET_END, FTS_CONTENT_COLUMN, matchQuery]);
+
+  const best = new Map<string, { score: number; snippet: string }>();
+  while (matchStmt.step()) {
+    const row = matchStmt.getAsObject() as { session_id: string; score: number; snippet: string };
+    const current = best.get(row.session_id);
+    if (!current || row.score > current.score) {
+      best.set(row.session_id, { score: row.score, snippet: row.snippet });
+    }
+  }
+  matchStmt.free();
+
+  if (best.size === 0) {
+    return [];
+  }
+
+  const ids = [...best.keys()];
+  const { conditions, params } = buildFilterConditions(filters);
+  const stmt = db.prepare(`
+    SELECT
+      ${SUMMARY_COLUMNS}
+    FROM sessions
+    ${whereClause([`id IN (${ids.map(() => '?').join(', ')})`, ...conditions])}
+  `);
+  stmt.bind([...ids, ...params]);
 
   const results: SessionSummary[] = [];
   while (stmt.step()) {
-    const row = stmt.getAsObject() as unknown as SessionSummary;
-    results.push(row);
+    const row = withMetaFields<SessionSummary>(stmt.getAsObject());
+    results.push({ ...row, snippet: best.get(row.id)?.snippet ?? null });
   }
   stmt.free();
 
-  return results;
+  return results.sort((a, b) =>
+    (best.get(b.id)?.score ?? 0) - (best.get(a.id)?.score ?? 0) ||
+    b.captured_at.localeCompare(a.captured_at)
+  );
 }
 
+// Move every live session to the trash
 export function clearAllSessions(): void {
   if (!db) throw new Error('Database not initialized');
 
-  db.run('DELETE FROM sessions');
-  saveDatabase();
+  const ids = (db.exec('SELECT id FROM sessions WHERE deleted_at IS NULL')[0]?.values ?? [])
+    .map((row) => String(row[0]));
+  db.run('UPDATE sessions SET deleted_at = ? WHERE deleted_at IS NULL', [new Date().toISOString()]);
+  scheduleSave();
+
+  for (const id of ids) {
+    emitServiceEvent({ type: 'session.deleted', id });
+  }
 }
@@ -0,0 +1,94 @@
+import { Message } from './types';
+
+// Shorter texts are too generic ("Thanks!") to prove two captures belong to the same thread
+const MIN_MATCH_LENGTH = 20;
+// ...unless this many of them in a row line up with the end of the stored thread
+const MIN_TAIL_RUN = 2;
+
+export type BoundaryReason = 'panel-reset' | 'no-overlap';
+
+export interface BoundaryDecision {
+  newThread: boolean;
+  reason: BoundaryReason | null;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// A message with its text normalized, for comparing it many times
+export interface ComparableMessage {
+  role: Message['role'];
+  text: string;
+}
+
+export function toComparable(message: Message): ComparableMessage {
+  return { role: message.role, text: normalize(message.content) };
+}
+
+// Two captures of a message match when the text is identical, or when one
+// assistant message is a longer (still streaming) version of the other
+export function isSameComparable(a: ComparableMessage, b: ComparableMessage): boolean {
+  if (a.role !== b.role) return false;
+  if (a.text === b.text) return true;
+  if (a.role !== 'assistant') return false;
+
+  const [shorter, longer] = a.text.length <= b.text.length ? [a.text, b.text] : [b.text, a.text];
+  return shorter.length > 0 && longer.startsWith(shorter);
+}
+
+export function isSameMessage(a: Message, b: Message): boolean {
+  return isSameComparable(toComparable(a), toComparable(b));
+}
+
+// A match only proves continuity when the text is specific enough
+function isEvidenceOfSameThread(a: ComparableMessage, b: ComparableMessage): boolean {
+  return isSameComparable(a, b) && Math.min(a.text.length, b.text.length) >= MIN_MATCH_LENGTH;
+}
+
+// Whether the screen starts with the end of the stored thread, message for
+// message: a thread of short exchanges ("ok", "sum B2:B9") has no single
+// message specific enough, but the run of them is. The last stored message may
+// be an assistant reply that was still streaming.
+function continuesStoredTail(stored: ComparableMessage[], visible: ComparableMessage[]): boolean {
+  for (let start = 0; start < stored.length; start++) {
+    const length = stored.length - start;
+    // A shorter run only counts when it is the whole stored thread
+    if (length > visible.length || (length < MIN_TAIL_RUN && start > 0)) continue;
+
+    const lastIndex = length - 1;
+    const linedUp = stored.slice(start).every((s, i) => {
+      const v = visible[i];
+      return i === lastIndex ? isSameComparable(s, v) : s.role === v.role && s.text === v.text;
+    });
+    if (linedUp) return true;
+  }
+  return false;
+}
+
+// Decide whether the visible conversation continues the stored thread.
+// The panel only exposes what is on screen, so the visible messages may start
+// anywhere in the stored thread; any overlap at all counts as a continuation.
+export function detectThreadBoundary(
+  stored: Message[],
+  visible: Message[],
+  panelWasReset: boolean
+): BoundaryDecision {
+  if (stored.length === 0) {
+    return { newThread: false, reason: null };
+  }
+
+  if (panelWasReset) {
+    return { newThread: true, reason: 'panel-reset' };
+  }
+
+  const storedComparable = stored.map(toComparable);
+  const visibleComparable = visible.map(toComparable);
+  const overlaps = visibleComparable.some(v => storedComparable.some(s => isEvidenceOfSameThread(s, v)))
+    || continuesStoredTail(storedComparable, visibleComparable);
+  if (!overlaps) {
+    return { newThread: true, reason: 'no-overlap' };
+  }
+
+  return { newThread: false, reason: null };
+}
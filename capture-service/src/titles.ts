@@ -0,0 +1,142 @@
+import { Message } from './types';
+
+// Short titles for captured threads, generated offline from their content.
+// Words are ranked TextRank-style (PageRank over a word co-occurrence graph,
+// like the sentence ranking in the add-in's utils/textRank.ts) and the best
+// few are joined in the order they first appear.
+
+const MAX_TITLE_LENGTH = 60;
+const MAX_KEYWORDS = 4;
+// Only the start of a long thread is read; that is what it is about
+const MAX_SOURCE_CHARS = 8000;
+// Words this close to each other are linked in the graph
+const COOCCURRENCE_WINDOW = 3;
+const ITERATIONS = 30;
+const DAMPING = 0.85;
+// The user's words say what a thread is about; replies add detail
+const USER_WEIGHT = 2;
+const FALLBACK_TITLE = 'Untitled thread';
+
+const STOPWORDS = new Set([
+  'about', 'above', 'after', 'again', 'all', 'also', 'and', 'any', 'are', 'because',
+  'been', 'before', 'being', 'below', 'between', 'both', 'but', 'can', 'could', 'did',
+  'does', 'doing', 'done', 'down', 'each', 'few', 'for', 'from', 'further', 'get',
+  'got', 'had', 'has', 'have', 'having', 'her', 'here', 'hers', 'him', 'his', 'how',
+  'into', 'its', 'itself', 'just', 'let', 'like', 'make', 'may', 'might', 'more',
+  'most', 'much', 'must', 'need', 'now', 'off', 'once', 'only', 'other', 'our',
+  'ours', 'out', 'over', 'own', 'please', 'same', 'see', 'she', 'should', 'some',
+  'such', 'than', 'thank', 'thanks', 'that', 'the', 'their', 'theirs', 'them', 'then',
+  'there', 'these', 'they', 'this', 'those', 'through', 'too', 'under', 'until', 'use',
+  'using', 'very', 'want', 'was', 'way', 'well', 'were', 'what', 'when', 'where',
+  'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your',
+  'yours', 'yes', 'okay', 'sure', 'one', 'two', 'new', 'show', 'tell', 'give',
+  'help', 'know', 'think', 'look', 'take', 'put', 'add', 'set', 'sheet', 'cell',
+  'cells', 'column', 'columns', 'row', 'rows', 'data', 'excel', 'claude', 'here\'s',
+  'i\'ll', 'i\'m', 'it\'s', 'let\'s', 'don\'t', 'can\'t', 'that\'s', 'there\'s',
+]);
+
+// Cell references ("B2", "AA10") carry no meaning on their own
+const CELL_REFERENCE = /^[a-z]{1,3}\d+$/;
+
+interface Token {
+  key: string;
+  text: string;
+}
+
+function tokenize(text: string): Token[] {
+  const words = text.match(/[A-Za-z][A-Za-z0-9'-]*/g) ?? [];
+  return words
+    .map((word) => ({ key: word.toLowerCase(), text: word }))
+    .filter(({ key }) => key.length > 2 && !STOPWORDS.has(key) && !CELL_REFERENCE.test(key));
+}
+
+function truncate(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length <= MAX_TITLE_LENGTH
+    ? singleLine
+    : singleLine.substring(0, MAX_TITLE_LENGTH - 3).trimEnd() + '...';
+}
+
+// Rank words by PageRank over the co-occurrence graph; frequent words start
+// ahead so that short threads still get sensible keywords
+function rankWords(sequences: { tokens: Token[]; weight: number }[]): Map<string, number> {
+  const edges = new Map<string, Map<string, number>>();
+  const frequency = new Map<string, number>();
+
+  const link = (a: string, b: string, weight: number) => {
+    const neighbours = edges.get(a) ?? new Map<string, number>();
+    neighbours.set(b, (neighbours.get(b) ?? 0) + weight);
+    edges.set(a, neighbours);
+  };
+
+  for (const { tokens, weight } of sequences) {
+    tokens.forEach((token, i) => {
+      frequency.set(token.key, (frequency.get(token.key) ?? 0) + weight);
+      for (let j = i + 1; j < Math.min(tokens.length, i + COOCCURRENCE_WINDOW); j++) {
+        if (tokens[j].key !== token.key) {
+          link(token.key, tokens[j].key, weight);
+          link(tokens[j].key, token.key, weight);
+        }
+      }
+    });
+  }
+
+  const words = [...frequency.keys()];
+  const totalFrequency = [...frequency.values()].reduce((a, b) => a + b, 0);
+  const prior = new Map(words.map((w) => [w, (frequency.get(w) ?? 0) / totalFrequency]));
+  const outWeight = new Map(
+    words.map((w) => [w, [...(edges.get(w)?.values() ?? [])].reduce((a, b) => a + b, 0)])
+  );
+
+  let scores = new Map(prior);
+  for (let iter = 0; iter < ITERATIONS; iter++) {
+    const next = new Map<string, number>();
+    for (const word of words) {
+      let sum = 0;
+      for (const [neighbour, weight] of edges.get(word) ?? []) {
+        sum += (weight / (outWeight.get(neighbour) || 1)) * (scores.get(neighbour) ?? 0);
+      }
+      next.set(word, (1 - DAMPING) * (prior.get(word) ?? 0) + DAMPING * sum);
+    }
+    scores = next;
+  }
+
+  return scores;
+}
+
+// A short title for a thread; falls back to its first prompt
+export function generateTitle(messages: Message[]): string {
+  const sequences: { tokens: Token[]; weight: number }[] = [];
+  let remaining = MAX_SOURCE_CHARS;
+  for (const message of messages) {
+    if (remaining <= 0) break;
+    const text = message.content.substring(0, remaining);
+    remaining -= text.length;
+    sequences.push({ tokens: tokenize(text), weight: message.role === 'user' ? USER_WEIGHT : 1 });
+  }
+
+  const scores = rankWords(sequences);
+  const keywords = [...scores.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_KEYWORDS)
+    .map(([key]) => key);
+
+  if (keywords.length === 0) {
+    const firstPrompt = messages.find((m) => m.role === 'user')?.content.trim();
+    return firstPrompt ? truncate(firstPrompt) : FALLBACK_TITLE;
+  }
+
+  // Reading order, spelled as first written
+  const firstSeen = new Map<string, { index: number; text: string }>();
+  sequences.flatMap((s) => s.tokens).forEach((token, index) => {
+    if (!firstSeen.has(token.key)) {
+      firstSeen.set(token.key, { index, text: token.text });
+    }
+  });
+  const words = keywords
+    .sort((a, b) => (firstSeen.get(a)?.index ?? 0) - (firstSeen.get(b)?.index ?? 0))
+    .map((key) => firstSeen.get(key)?.text ?? key);
+
+  const title = words.join(' ');
+  return truncate(title.charAt(0).toUpperCase() + title.slice(1));
+}
@@ -0,0 +1,37 @@
+import { purgeDeletedSessions } from './storage';
+import { getConfig } from './config';
+
+// Deleted sessions stay in the trash for trashRetentionDays days, then this
+// job removes them for good. It runs at startup and then every hour.
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let purgeTimer: NodeJS.Timeout | null = null;
+
+export function purgeExpiredTrash(): number {
+  const cutoff = new Date(Date.now() - getConfig().trashRetentionDays * DAY_MS).toISOString();
+  try {
+    const purged = purgeDeletedSessions(cutoff);
+    if (purged > 0) {
+      console.log('[Trash] Purged', purged, 'sessions deleted before', cutoff);
+    }
+    return purged;
+  } catch (error) {
+    console.error('[Trash] Purge failed:', error);
+    return 0;
+  }
+}
+
+export function startTrashPurge(): void {
+  if (purgeTimer) return;
+  purgeExpiredTrash();
+  purgeTimer = setInterval(purgeExpiredTrash, PURGE_INTERVAL_MS);
+}
+
+export function stopTrashPurge(): void {
+  if (purgeTimer) {
+    clearInterval(purgeTimer);
+    purgeTimer = null;
+  }
+}
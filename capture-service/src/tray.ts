@@ -1,11 +1,21 @@
-import { Tray, Menu, nativeImage, Notification, app } from 'electron';
+import { Tray, Menu, nativeImage, Notification, app, shell, dialog } from 'electron';
+import fs from 'fs';
 import {
   enableCapturing,
   disableCapturing,
   isUICaptureRunning,
 } from './uiCapture';
-import { getSessionCount } from './storage';
+import { getSessionCount, isDatabaseEncrypted } from './storage';
 import { getApiPort } from './api';
+import {
+  startRecording,
+  stopRecording,
+  isRecording,
+  getRecordingsRoot,
+} from './recorder';
+import { getConfig, getConfigPath, updateConfig } from './config';
+import { startPairing, resetAuthToken, getPairingCodeTtlMinutes } from './auth';
+import { createBackup, getBackupsDir, restoreBackup, rotateKey } from './backup';
 import { TrayState } from './types';
 
 let tray: Tray | null = null;
@@ -21,6 +31,9 @@ const ICON_ACTIVE_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAYAAAAf8/9hAAAABHNC
 // Gray circle for inactive state
 const ICON_INACTIVE_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAYAAAAf8/9hAAAABHNCSVQICAgIfAhkiAAAAAlwSFlzAAAAbwAAAG8B8aLcQwAAABl0RVh0U29mdHdhcmUAd3d3Lmlua3NjYXBlLm9yZ5vuPBoAAAC2SURBVDiN1ZOxCsIwFEV/krq4iJuL4Ojg5OQ3+BGOLn6Ev+AFXPwLu/kRfoC7i0gcxEWChYdNW9OqOPgg8Lj33BNCGP6FcaAP3IF7YA4cQvQDGAM+cAbmwCVEzyFFBBkCCgoJGhoq2TL8AU9gGaJv/g/bMbACVsAb6L26qUkE0gHaARbAG8gATYie/I/tEFgCnR69ZxFgF+JrQB2oh/9A75kHboEscA3Raw5dD/8HoM9ZBPYhYfkAmr4EJ7klY3EAAAAASUVORK5CYII=';
 
+// Offered in the tray; any other value can be set through PUT /config
+const POLL_INTERVAL_CHOICES_MS = [1000, 3000, 5000, 10000];
+
 function createTrayIcon(capturing: boolean): Electron.NativeImage {
   const base64Data = capturing ? ICON_ACTIVE_BASE64 : ICON_INACTIVE_BASE64;
   return nativeImage.createFromDataURL(`data:image/png;base64,${base64Data}`);
@@ -60,10 +73,172 @@ function buildContextMenu(): Menu {
       enabled: false,
     },
     { type: 'separator' },
+    {
+      label: 'Record Capture Snapshots',
+      type: 'checkbox',
+      checked: isRecording(),
+      click: () => {
+        // Also started by CLAUDE_MEMORY_RECORD, so the setting alone may not reflect it
+        const record = !isRecording();
+        if (record) {
+          startRecording();
+        } else {
+          stopRecording();
+        }
+        updateConfig({ recordMode: record });
+        updateTray();
+      },
+    },
+    {
+      label: 'Open Recordings Folder',
+      click: () => {
+        const root = getRecordingsRoot();
+        fs.mkdirSync(root, { recursive: true });
+        shell.openPath(root);
+      },
+    },
+    { type: 'separator' },
+    {
+      label: 'Show Notifications',
+      type: 'checkbox',
+      checked: getConfig().notifications,
+      click: () => {
+        updateConfig({ notifications: !getConfig().notifications });
+      },
+    },
+    {
+      label: 'Poll Interval',
+      submenu: POLL_INTERVAL_CHOICES_MS.map((intervalMs) => ({
+        label: `${intervalMs / 1000} seconds`,
+        type: 'radio' as const,
+        checked: getConfig().pollIntervalMs === intervalMs,
+        click: () => {
+          updateConfig({ pollIntervalMs: intervalMs });
+        },
+      })),
+    },
+    {
+      label: 'Open Settings File',
+      click: () => {
+        shell.openPath(getConfigPath());
+      },
+    },
     {
       label: `API Port: ${getApiPort()}`,
       enabled: false,
     },
+    {
+      label: 'Pair Excel Add-in...',
+      click: () => {
+        const code = startPairing();
+        dialog.showMessageBox({
+          type: 'info',
+          title: 'Pair Excel Add-in',
+          message: `Pairing code: ${code}`,
+          detail: `Enter this code in the Claude Memory add-in. ` +
+            `It can be used once and expires in ${getPairingCodeTtlMinutes()} minutes.`,
+        });
+      },
+    },
+    {
+      label: isDatabaseEncrypted() ? 'Database: Encrypted' : 'Database: Not Encrypted',
+      enabled: false,
+    },
+    {
+      label: 'Rotate Database Key...',
+      enabled: isDatabaseEncrypted(),
+      click: async () => {
+        const { response } = await dialog.showMessageBox({
+          type: 'question',
+          title: 'Rotate Database Key',
+          message: 'Re-encrypt the session database with a new key?',
+          detail: 'The old key is discarded once the database and its backups are rewritten.',
+          buttons: ['Rotate', 'Cancel'],
+          defaultId: 1,
+          cancelId: 1,
+        });
+        if (response !== 0) return;
+        try {
+          rotateKey();
+          showNotification('Database Key Rotated', 'The session database uses a new key.');
+        } catch (error) {
+          console.error('[Tray] Key rotation failed:', error);
+          dialog.showErrorBox('Rotate Database Key', `Failed to rotate the key:\n${error}`);
+        }
+      },
+    },
+    {
+      label: 'Back Up Now',
+      click: () => {
+        try {
+          const backup = createBackup('manual');
+          showNotification('Database Backed Up', backup.name);
+        } catch (error) {
+          console.error('[Tray] Backup failed:', error);
+          dialog.showErrorBox('Back Up Now', `Failed to back up the database:\n${error}`);
+        }
+      },
+    },
+    {
+      label: 'Restore...',
+      click: async () => {
+        const { canceled, filePaths } = await dialog.showOpenDialog({
+          title: 'Restore Sessions',
+          defaultPath: getBackupsDir(),
+          filters: [{ name: 'Session backups', extensions: ['db', 'bak'] }],
+          properties: ['openFile'],
+        });
+        if (canceled || filePaths.length === 0) return;
+
+        const { response } = await dialog.showMessageBox({
+          type: 'question',
+          title: 'Restore Sessions',
+          message: 'Merge the backup into your sessions, or replace them?',
+          detail: 'Merge adds the sessions in the backup; where a session is in both, ' +
+            'the copy changed last is kept. Replace discards every current session. ' +
+            'Either way, a snapshot of the current database is taken first.',
+          buttons: ['Merge', 'Replace', 'Cancel'],
+          defaultId: 0,
+          cancelId: 2,
+        });
+        if (response === 2) return;
+
+        try {
+          const restored = restoreBackup(filePaths[0], response === 0 ? 'merge' : 'replace');
+          if ('error' in restored) {
+            dialog.showErrorBox('Restore Sessions', restored.error);
+            return;
+          }
+          const { result } = restored;
+          showNotification(
+            'Sessions Restored',
+            result.mode === 'merge'
+              ? `${result.added} added, ${result.replaced} updated, ${result.skipped} unchanged`
+              : `${result.sessions} sessions restored`
+          );
+          updateTray();
+        } catch (error) {
+          console.error('[Tray] Restore failed:', error);
+          dialog.showErrorBox('Restore Sessions', `Failed to restore the backup:\n${error}`);
+        }
+      },
+    },
+    {
+      label: 'Unpair All Add-ins',
+      click: async () => {
+        const { response } = await dialog.showMessageBox({
+          type: 'warning',
+          title: 'Unpair All Add-ins',
+          message: 'Every paired add-in will have to pair again.',
+          buttons: ['Unpair', 'Cancel'],
+          defaultId: 1,
+          cancelId: 1,
+        });
+        if (response === 0) {
+          resetAuthToken();
+        }
+      },
+    },
     { type: 'separator' },
     {
       label: 'Quit',
@@ -115,11 +290,13 @@ export function showNotification(title: string, body: string): void {
 }
 
 export function notifySessionCaptured(): void {
-  const count = getSessionCount();
-  showNotification(
-    'Session Captured',
-    `Claude conversation captured. Total: ${count}`
-  );
+  if (getConfig().notifications) {
+    const count = getSessionCount();
+    showNotification(
+      'Session Captured',
+      `Claude conversation captured. Total: ${count}`
+    );
+  }
   updateTray();
 }
 
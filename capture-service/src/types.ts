@@ -9,6 +9,78 @@ export interface CapturedSession {
   output_tokens: number | null;
   user_prompt: string | null;
   assistant_response: string | null;
+  // When the session was moved to the trash; null (or absent before insert) when live
+  deleted_at?: string | null;
+  // Set when read back from the database
+  title?: string | null;
+  title_source?: TitleSource;
+  starred?: boolean;
+  saved?: boolean;
+  tags?: string[];
+}
+
+// 'auto' titles are regenerated as the thread grows; 'user' titles are kept
+export type TitleSource = 'auto' | 'user';
+
+// Fields a user can edit through PATCH /sessions/:id
+export interface SessionMetaChanges {
+  // null goes back to the generated title
+  title?: string | null;
+  tags?: string[];
+  starred?: boolean;
+  // Set by the add-in when it saves the session to a workbook
+  saved?: boolean;
+}
+
+// A single message of a captured thread
+export interface Message {
+  role: 'user' | 'assistant';
+  content: string;
+  // Range selected in the sheet when a user message was sent, e.g. "B2:D14"
+  cellContext?: string;
+}
+
+// Row of the messages table
+export interface StoredMessage {
+  id: number;
+  session_id: string;
+  ordinal: number;
+  role: 'user' | 'assistant';
+  content: string;
+  cell_context: string | null;
+  first_seen_at: string;
+  updated_at: string;
+}
+
+// A message written at a position of the thread by a revision
+export interface MessageChange {
+  ordinal: number;
+  message: Message;
+}
+
+// What one write did to a thread: the changed messages, then the thread is
+// cut to messageCount. Replaying revisions 1..n rebuilds the thread at n.
+export interface RevisionDiff {
+  messageCount: number;
+  changes: MessageChange[];
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+export interface RevisionSummary {
+  revision: number;
+  created_at: string;
+  message_count: number;
+  added: number;
+  changed: number;
+  removed: number;
+  // The revision this one brought back, null for captured changes
+  restored_from: number | null;
+}
+
+export interface RevisionDetail extends RevisionSummary {
+  messages: Message[];
 }
 
 export interface SessionSummary {
@@ -19,6 +91,57 @@ export interface SessionSummary {
   input_tokens: number | null;
   output_tokens: number | null;
   user_prompt_preview: string | null;
+  title: string | null;
+  title_source: TitleSource;
+  starred: boolean;
+  // Saved to a workbook at least once (reported by the add-in)
+  saved: boolean;
+  tags: string[];
+  deleted_at: string | null;
+  // Highlighted excerpt of the best matching message (search results only)
+  snippet?: string | null;
+}
+
+export type SessionSort = 'newest' | 'oldest' | 'relevance';
+
+export interface SessionFilters {
+  workbook?: string;
+  model?: string;
+  // Inclusive ISO timestamps on captured_at
+  from?: string;
+  to?: string;
+  // List the trash instead of live sessions
+  deleted?: boolean;
+  starred?: boolean;
+  // Only these sessions, or every session but these (the add-in's list of
+  // sessions saved to the open workbook)
+  ids?: string[];
+  excludeIds?: string[];
+  // Sessions carrying every one of these tags
+  tags?: string[];
+  // Case-insensitive substring of the title
+  title?: string;
+}
+
+// Position after the last session of a page: keyset for date order, offset
+// for ranked search results
+export type SessionCursor =
+  | { capturedAt: string; id: string }
+  | { offset: number };
+
+export interface SessionListOptions extends SessionFilters {
+  search?: string;
+  sort: SessionSort;
+  limit: number;
+  cursor: SessionCursor | null;
+}
+
+export interface SessionPage {
+  sessions: SessionSummary[];
+  // Pass back as ?cursor= for the next page; null on the last page
+  nextCursor: string | null;
+  // Sessions matching the filters, across all pages
+  total: number;
 }
 
 export interface ProxyStatus {
@@ -29,6 +152,120 @@ export interface ProxyStatus {
   apiPort: number;
 }
 
+export interface ServiceConfig {
+  apiPort: number;
+  pollIntervalMs: number;
+  // Show a notification for every captured turn
+  notifications: boolean;
+  // Save every capture snapshot under recordings/ (see recorder.ts)
+  recordMode: boolean;
+  // Where sessions.db lives; null for the userData folder (applies after a restart)
+  databasePath: string | null;
+  // Browser origins allowed to call the API (the add-in's origin by default)
+  allowedOrigins: string[];
+  // Days a deleted session stays in the trash before it is purged
+  trashRetentionDays: number;
+  // Apply the retention limits below once a day
+  retentionEnabled: boolean;
+  // Limits on what is kept; null means no limit
+  retentionMaxAgeDays: number | null;
+  retentionMaxSessions: number | null;
+  retentionMaxDatabaseMB: number | null;
+  // Sessions exempt from the limits
+  retentionKeepStarred: boolean;
+  retentionKeepSaved: boolean;
+  // Snapshot the database into the backups folder every backupIntervalHours
+  backupEnabled: boolean;
+  backupIntervalHours: number;
+  // Older snapshots are deleted
+  backupKeepCount: number;
+}
+
+// File formats of GET /sessions/:id/export and POST /export
+export type ExportFormat = 'md' | 'html' | 'json' | 'jsonl' | 'csv';
+
+export interface RetentionPolicy {
+  maxAgeDays: number | null;
+  maxSessions: number | null;
+  maxDatabaseMB: number | null;
+  keepStarred: boolean;
+  keepSaved: boolean;
+}
+
+// What retention looks at for each session
+export interface RetentionCandidate {
+  id: string;
+  title: string | null;
+  captured_at: string;
+  deleted_at: string | null;
+  starred: boolean;
+  saved: boolean;
+  // Approximate space the session takes up in sessions.db
+  bytes: number;
+}
+
+export type RetentionReason = 'age' | 'count' | 'size';
+
+export interface RetentionRemoval {
+  id: string;
+  title: string | null;
+  captured_at: string;
+  reason: RetentionReason;
+  bytes: number;
+}
+
+// The sessions a policy removes, oldest first
+export interface RetentionPlan {
+  policy: RetentionPolicy;
+  removals: RetentionRemoval[];
+  database_bytes: number;
+  // Estimated from the removed sessions
+  freed_bytes: number;
+}
+
+// Written after every retention run
+export interface RetentionReport extends RetentionPlan {
+  ran_at: string;
+  database_bytes_after: number;
+}
+
+// Why a snapshot was taken; part of its filename
+export type BackupKind = 'scheduled' | 'manual' | 'pre-restore';
+
+export interface BackupInfo {
+  name: string;
+  path: string;
+  kind: BackupKind;
+  created_at: string;
+  bytes: number;
+  // Encrypted snapshots can only be restored on this machine; portable ones
+  // are plain SQLite
+  encrypted: boolean;
+}
+
+// merge adds the backup's sessions to the current ones; replace swaps the
+// whole database for the backup
+export type RestoreMode = 'merge' | 'replace';
+
+// Which copy a merge keeps when a session id is in both databases:
+// the one changed last, the current one, or the backup's
+export type RestoreConflict = 'newest' | 'keep' | 'overwrite';
+
+export interface MergeCounts {
+  added: number;
+  replaced: number;
+  skipped: number;
+}
+
+export interface RestoreResult extends MergeCounts {
+  mode: RestoreMode;
+  conflict: RestoreConflict;
+  // Sessions in the backup
+  sessions: number;
+  // Snapshot of the database taken just before the restore
+  safety_backup: string;
+}
+
 export interface AnthropicMessage {
   role: 'user' | 'assistant';
   content: string | AnthropicContentBlock[];
@@ -61,6 +298,54 @@ export interface AnthropicResponse {
   [key: string]: unknown;
 }
 
+// A message as classified by the capture script, with its on-screen Y position
+export interface CapturedMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  y: number;
+  // Bottom edge of the text, reported for user messages
+  yEnd?: number;
+}
+
+// A "B2:D14 selected" chip shown in the conversation area
+export interface CapturedSelection {
+  range: string;
+  y: number;
+}
+
+// The Claude panel of one Excel window
+export interface CaptureWindow {
+  workbookName: string;
+  messages: CapturedMessage[];
+  selections?: CapturedSelection[];
+  // Whether a response was still streaming (Stop button shown); absent in
+  // older recordings
+  streaming?: boolean;
+}
+
+// One snapshot of every Excel window with the Claude panel open
+export interface CaptureResult {
+  found: boolean;
+  windows?: CaptureWindow[];
+  // Single-window layout of older captures and recordings
+  messages?: CapturedMessage[];
+  workbookName?: string;
+}
+
+// A snapshot as stored on disk for replay
+export interface RecordedSnapshot {
+  capturedAt: string;
+  result: CaptureResult;
+}
+
+// Where capture snapshots come from (live UI Automation, recorded replays, ...)
+export interface CaptureSource {
+  readonly name: string;
+  // Take one snapshot; null when there is nothing to report this poll
+  capture(): Promise<CaptureResult | null>;
+  dispose?(): void;
+}
+
 export interface TrayState {
   capturing: boolean;
   sessionCount: number;
@@ -1,10 +1,37 @@
-import { spawn } from 'child_process';
 import { v4 as uuidv4 } from 'uuid';
-import { insertSession, updateSession, getActiveSessionByWorkbook } from './storage';
-import { CapturedSession } from './types';
+import {
+  insertSession,
+  updateSession,
+  summarizeThread,
+  getActiveSessionByWorkbook,
+  getSessionMessages,
+} from './storage';
+import {
+  CapturedSession,
+  CapturedMessage,
+  CapturedSelection,
+  CaptureResult,
+  CaptureSource,
+  CaptureWindow,
+  Message,
+} from './types';
+import { detectThreadBoundary, isSameMessage } from './threadBoundary';
+import { mergeMessages } from './messageMerge';
+import { isRecording, recordSnapshot } from './recorder';
+import { applyFilterRules } from './filterRules';
+import { applyRedaction } from './redaction';
+import { emitServiceEvent } from './events';
 
 let captureInterval: NodeJS.Timeout | null = null;
-let lastCapturedHash: string = '';
+let captureSource: CaptureSource | null = null;
+// Skip a poll while the previous capture is still running
+let captureInFlight = false;
+// Hash of the last captured conversation per workbook window
+const lastCapturedHashes = new Map<string, string>();
+// Workbooks whose Claude panel was seen empty since their last capture
+const resetWorkbooks = new Set<string>();
+// Conversations that changed but have not settled yet, per workbook window
+const pendingConversations = new Map<string, PendingConversation>();
 let isCapturing = false;
 let onSessionCaptured: (() => void) | null = null;
 
@@ -12,218 +39,41 @@ export function setOnSessionCaptured(callback: () => void): void {
   onSessionCaptured = callback;
 }
 
-// PowerShell script that captures messages with proper user/assistant detection
-// User messages: Text outside assistant containers (detected by Y position gaps)
-// Assistant messages: Inside Group elements with "justify-start mb-3" className
-const CAPTURE_SCRIPT = `
-Add-Type -AssemblyName UIAutomationClient
-Add-Type -AssemblyName UIAutomationTypes
-
-$root = [System.Windows.Automation.AutomationElement]::RootElement
-$excelWindows = $root.FindAll([System.Windows.Automation.TreeScope]::Children, [System.Windows.Automation.Condition]::TrueCondition)
-
-$result = @{
-    found = $false
-    messages = @()
-    workbookName = ""
-}
-
-foreach ($win in $excelWindows) {
-    if ($win.Current.ClassName -eq 'XLMAIN') {
-        $webContentCondition = New-Object System.Windows.Automation.PropertyCondition(
-            [System.Windows.Automation.AutomationElement]::NameProperty,
-            'Claude in Microsoft Office - Web content'
-        )
-
-        $webContent = $win.FindFirst([System.Windows.Automation.TreeScope]::Descendants, $webContentCondition)
-
-        if ($webContent) {
-            $result.found = $true
-            $result.workbookName = $win.Current.Name -replace ' - Excel$', ''
-
-            # Get all Group elements (assistant message containers)
-            $groupCondition = New-Object System.Windows.Automation.PropertyCondition(
-                [System.Windows.Automation.AutomationElement]::ControlTypeProperty,
-                [System.Windows.Automation.ControlType]::Group
-            )
-            $groups = $webContent.FindAll([System.Windows.Automation.TreeScope]::Descendants, $groupCondition)
-
-            $textCondition = New-Object System.Windows.Automation.PropertyCondition(
-                [System.Windows.Automation.AutomationElement]::ControlTypeProperty,
-                [System.Windows.Automation.ControlType]::Text
-            )
-
-            # Collect assistant containers with Y ranges
-            $assistantContainers = @()
-            foreach ($group in $groups) {
-                $className = $group.Current.ClassName
-                if ($className -and $className.Contains('justify-start') -and $className.Contains('mb-3')) {
-                    $rect = $group.Current.BoundingRectangle
-                    $texts = $group.FindAll([System.Windows.Automation.TreeScope]::Descendants, $textCondition)
-                    $content = @()
-                    foreach ($t in $texts) {
-                        $tName = $t.Current.Name
-                        if ($tName -and $tName.Length -gt 0) {
-                            if ($tName -eq 'Untitled' -or $tName -match '^[A-Z]+[0-9]+(:[A-Z]+[0-9]+)? selected$') { continue }
-                            if ($tName -eq 'BETA' -or $tName -eq 'Claude' -or $tName -eq 'Copy' -or $tName -eq 'Retry') { continue }
-                            $content += $tName
-                        }
-                    }
-                    if ($content.Count -gt 0) {
-                        $assistantContainers += @{
-                            yStart = $rect.Y
-                            yEnd = $rect.Y + $rect.Height
-                            content = $content -join "\`n"
-                        }
-                    }
-                }
-            }
-
-            # Find user messages: text with empty className, outside all assistant containers
-            $allTexts = $webContent.FindAll([System.Windows.Automation.TreeScope]::Descendants, $textCondition)
-            $userMessages = @()
-
-            foreach ($t in $allTexts) {
-                $className = $t.Current.ClassName
-                $name = $t.Current.Name
-                $rect = $t.Current.BoundingRectangle
-
-                # User messages: empty className, substantial text, not UI element
-                if ((-not $className -or $className -eq '') -and $name -and $name.Length -gt 15) {
-                    # Skip UI elements
-                    if ($name -eq 'Untitled' -or $name -match '^[A-Z]+[0-9]+(:[A-Z]+[0-9]+)? selected$') { continue }
-                    if ($name -match '^(BETA|Claude|Copy|Retry|Send|Stop|New chat)$') { continue }
-                    if ($name -match '^\s*$') { continue }
-
-                    # Check if this text is inside ANY assistant container
-                    $isInAssistant = $false
-                    foreach ($ac in $assistantContainers) {
-                        if ($rect.Y -ge $ac.yStart -and $rect.Y -le $ac.yEnd) {
-                            $isInAssistant = $true
-                            break
-                        }
-                    }
-
-                    if (-not $isInAssistant) {
-                        $userMessages += @{
-                            y = $rect.Y
-                            content = $name
-                        }
-                    }
-                }
-            }
-
-            # Combine into messages list
-            $allMessages = @()
-
-            foreach ($um in $userMessages) {
-                $allMessages += @{
-                    role = "user"
-                    content = $um.content
-                    y = $um.y
-                }
-            }
-
-            foreach ($ac in $assistantContainers) {
-                $allMessages += @{
-                    role = "assistant"
-                    content = $ac.content
-                    y = $ac.yStart
-                }
-            }
-
-            # Sort by Y position (screen order)
-            $result.messages = $allMessages | Sort-Object { $_.y }
-            break
-        }
-    }
-}
-
-# Convert to JSON and then Base64 to avoid control character issues
-$json = $result | ConvertTo-Json -Depth 10 -Compress
-$bytes = [System.Text.Encoding]::UTF8.GetBytes($json)
-$base64 = [Convert]::ToBase64String($bytes)
-Write-Output $base64
-`;
-
-interface CapturedMessage {
-  role: 'user' | 'assistant';
-  content: string;
-  y: number;
-}
-
-interface CaptureResult {
-  found: boolean;
-  messages: CapturedMessage[];
-  workbookName: string;
-}
-
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-}
-
-function runPowerShell(script: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const ps = spawn('powershell', ['-ExecutionPolicy', 'Bypass', '-Command', script], {
-      windowsHide: true,
-    });
-
-    let stdout = '';
-    let stderr = '';
-
-    ps.stdout.on('data', (data) => {
-      stdout += data.toString();
-    });
-
-    ps.stderr.on('data', (data) => {
-      stderr += data.toString();
-    });
-
-    ps.on('close', (code) => {
-      if (code === 0) {
-        resolve(stdout.trim());
-      } else {
-        reject(new Error(`PowerShell exited with code ${code}: ${stderr}`));
+// A range chip such as "B2:D14 selected", also seen appended to a user message
+const SELECTION_SUFFIX = /\n+([A-Z]+\d+(?::[A-Z]+\d+)?) selected$/;
+// Selection chips further than this (in pixels) from a user message belong to none
+const SELECTION_MAX_DISTANCE = 40;
+
+// Attach each selection chip to the nearest user message (by vertical distance).
+// Returns the selected range per index into capturedMessages.
+function matchSelections(
+  capturedMessages: CapturedMessage[],
+  selections: CapturedSelection[]
+): Map<number, string> {
+  const ranges = new Map<number, string>();
+
+  for (const selection of selections) {
+    let bestIndex = -1;
+    let bestDistance = SELECTION_MAX_DISTANCE;
+
+    capturedMessages.forEach((m, index) => {
+      if (m.role !== 'user') return;
+      const bottom = m.yEnd ?? m.y;
+      const distance = selection.y < m.y ? m.y - selection.y
+        : selection.y > bottom ? selection.y - bottom
+        : 0;
+      if (distance <= bestDistance) {
+        bestIndex = index;
+        bestDistance = distance;
       }
     });
 
-    ps.on('error', reject);
-  });
-}
-
-// UI elements to filter out (not conversation content)
-const UI_ELEMENTS = new Set([
-  'BETA',
-  'Untitled',
-  'Build a new analysis',
-  'Import data',
-  'Check a different file',
-  'Let me know what you\'d like to accomplish!',
-  'What can I do for you?',
-  'Type a message',
-  'Send',
-  'Stop',
-  'Copy',
-  'Retry',
-  'New chat',
-  'Claude',
-]);
-
-function isUIElement(text: string): boolean {
-  if (UI_ELEMENTS.has(text)) return true;
-  if (text.length < 10) return true;
-  // Filter out single words that are likely buttons
-  if (text.match(/^[A-Za-z]{1,15}$/) && !text.includes(' ')) return true;
-  // Filter out cell selection notifications
-  if (/^[A-Z]+\d+(:[A-Z]+\d+)? selected$/.test(text.trim())) return true;
-  return false;
-}
+    if (bestIndex >= 0) {
+      ranges.set(bestIndex, selection.range);
+    }
+  }
 
-// Clean up text by removing noise like "X selected" suffixes
-function cleanText(text: string): string {
-  // Remove "XX selected" suffix that gets appended
-  return text.replace(/\n+[A-Z]+\d+(:[A-Z]+\d+)? selected$/g, '').trim();
+  return ranges;
 }
 
 function simpleHash(str: string): string {
@@ -236,31 +86,56 @@ function simpleHash(str: string): string {
   return hash.toString(16);
 }
 
-function contentHash(text: string): string {
-  // Create a hash of the first 100 chars for comparison
-  return simpleHash(text.substring(0, 100).toLowerCase().trim());
-}
-
 interface ParsedConversation {
   messages: Message[];
   hash: string;
 }
 
+interface PendingConversation {
+  conversation: ParsedConversation;
+  // Consecutive polls that returned this exact conversation
+  polls: number;
+}
+
+// Polls a conversation must stay unchanged before it is written, when the
+// source cannot tell whether a response is still streaming
+const STABLE_POLLS = 2;
+// A Stop button that stays up while nothing changes is treated as stale after
+// this many polls, so it cannot hold a conversation back forever
+const STALLED_STREAMING_POLLS = 10;
+
 // Convert captured messages to our Message format
-function parseConversationFromCapture(capturedMessages: CapturedMessage[]): ParsedConversation | null {
+function parseConversationFromCapture(
+  capturedMessages: CapturedMessage[],
+  selections: CapturedSelection[] = []
+): ParsedConversation | null {
   if (capturedMessages.length < 2) {
     return null;
   }
 
-  // Create hash of ALL content to detect any changes
-  const fullContent = capturedMessages.map(m => m.content).join('|||');
-  const hash = simpleHash(fullContent);
+  const selectedRanges = matchSelections(capturedMessages, selections);
+
+  // Convert to Message format, dropping UI noise and keeping the selected range.
+  // Personal data and secrets are redacted here, before the thread is merged
+  // or stored, so stored and newly captured text compare alike.
+  const messages: Message[] = [];
+  capturedMessages.forEach((m, index) => {
+    const filtered = applyFilterRules(m.content, m.role).content;
+    const content = filtered && applyRedaction(filtered).content;
+    if (!content) return;
+
+    const message: Message = { role: m.role, content };
+    const cellContext = m.role === 'user'
+      ? selectedRanges.get(index) ?? m.content.trim().match(SELECTION_SUFFIX)?.[1]
+      : undefined;
+    if (cellContext) {
+      message.cellContext = cellContext;
+    }
+    messages.push(message);
+  });
 
-  // Convert to Message format, cleaning text
-  const messages: Message[] = capturedMessages.map(m => ({
-    role: m.role,
-    content: cleanText(m.content)
-  })).filter(m => m.content.length > 0);
+  // Hash what is kept, so noise appearing or disappearing is not a change
+  const hash = simpleHash(messages.map(m => `${m.role}:${m.cellContext ?? ''}:${m.content}`).join('|||'));
 
   // Need at least one user and one assistant message
   const hasUser = messages.some(m => m.role === 'user');
@@ -273,153 +148,212 @@ function parseConversationFromCapture(capturedMessages: CapturedMessage[]): Pars
   return { messages, hash };
 }
 
-// Merge new messages with existing ones, preserving history and keeping longer versions
-function mergeMessages(existing: Message[], newMessages: Message[]): Message[] {
-  if (existing.length === 0) {
-    return newMessages;
-  }
+// Load existing messages from session
+function loadExistingMessages(session: CapturedSession): Message[] {
+  return getSessionMessages(session.id).map(m => ({
+    role: m.role,
+    content: m.content,
+    ...(m.cell_context ? { cellContext: m.cell_context } : {}),
+  }));
+}
 
-  // Create a map of hash -> message for existing, keeping track of content length
-  const existingMap = new Map<string, Message>();
-  for (const m of existing) {
-    const hash = contentHash(m.content);
-    existingMap.set(hash, m);
+// Older captures and recordings describe a single window at the top level
+function getCaptureWindows(result: CaptureResult): CaptureWindow[] {
+  if (result.windows) {
+    return result.windows;
   }
+  return [{ workbookName: result.workbookName || '', messages: result.messages || [] }];
+}
 
-  // Process new messages: update if longer, add if new
-  const result: Message[] = [...existing];
-
-  for (const newMsg of newMessages) {
-    const hash = contentHash(newMsg.content);
-    const existingMsg = existingMap.get(hash);
-
-    if (existingMsg) {
-      // Same message exists - keep the longer version
-      if (newMsg.content.length > existingMsg.content.length) {
-        // Replace with longer version
-        const idx = result.findIndex(m => contentHash(m.content) === hash);
-        if (idx >= 0) {
-          result[idx] = newMsg;
-        }
-      }
-    } else {
-      // New message - add it
-      result.push(newMsg);
+// A selection chip may disappear before the conversation settles; keep the
+// range seen in an earlier poll for the same message
+function carryOverCellContext(previous: Message[], next: Message[]): void {
+  for (const message of next) {
+    if (message.cellContext) continue;
+    const earlier = previous.find(m => m.cellContext && isSameMessage(m, message));
+    if (earlier) {
+      message.cellContext = earlier.cellContext;
     }
   }
+}
 
-  return result;
+// A conversation is settled once its response has finished streaming
+function isSettled(streaming: boolean | undefined, polls: number): boolean {
+  if (streaming === true) {
+    return polls >= STALLED_STREAMING_POLLS;
+  }
+  if (streaming === false) {
+    return true;
+  }
+  return polls >= STABLE_POLLS;
 }
 
-// Load existing messages from session
-function loadExistingMessages(session: CapturedSession): Message[] {
-  try {
-    const data = JSON.parse(session.request_body);
-    if (data.messages && Array.isArray(data.messages)) {
-      return data.messages;
+// Whether any captured text is conversation rather than UI noise. The worker
+// reports the panel's buttons, placeholder and suggestion chips too, so an
+// empty "New chat" panel still has captured messages.
+function hasConversation(capturedMessages: CapturedMessage[] | undefined): boolean {
+  return !!capturedMessages &&
+    capturedMessages.some(m => applyFilterRules(m.content, m.role).content);
+}
+
+// Look at one window's conversation and write it once it has settled.
+// Returns true when a completed turn was written.
+function captureWindow(window: CaptureWindow): boolean {
+  const workbookName = window.workbookName || 'Unknown';
+
+  // An empty conversation area means the panel was reset ("New chat"),
+  // so the next conversation in this workbook starts a new thread
+  if (!hasConversation(window.messages)) {
+    // Whatever was still pending will not change any more
+    const committed = commitPendingConversation(workbookName);
+    if (!resetWorkbooks.has(workbookName)) {
+      resetWorkbooks.add(workbookName);
+      console.log('[UICapture] Panel reset detected for:', workbookName);
     }
-  } catch {
-    // Ignore parse errors
+    return committed;
   }
-  return [];
-}
 
-async function captureOnce(): Promise<void> {
-  if (!isCapturing) return;
+  // Parse the conversation from pre-classified messages
+  const conversation = parseConversationFromCapture(window.messages, window.selections);
 
-  try {
-    const base64Output = await runPowerShell(CAPTURE_SCRIPT);
+  if (!conversation || conversation.messages.length < 2) {
+    return false;
+  }
 
-    if (!base64Output) return;
+  // Check if content has changed (using hash of this window's conversation)
+  if (conversation.hash === lastCapturedHashes.get(workbookName)) {
+    pendingConversations.delete(workbookName);
+    return false; // No change, skip
+  }
 
-    // Decode Base64 to JSON
-    let jsonString: string;
-    try {
-      jsonString = Buffer.from(base64Output, 'base64').toString('utf8');
-    } catch {
-      console.error('[UICapture] Failed to decode Base64');
-      return;
+  // Keep partial text in memory until it stops changing
+  let pending = pendingConversations.get(workbookName);
+  if (pending?.conversation.hash === conversation.hash) {
+    pending.polls++;
+  } else {
+    if (pending) {
+      carryOverCellContext(pending.conversation.messages, conversation.messages);
     }
+    pending = { conversation, polls: 1 };
+    pendingConversations.set(workbookName, pending);
+  }
 
-    const result: CaptureResult = JSON.parse(jsonString);
+  if (!isSettled(window.streaming, pending.polls)) {
+    return false;
+  }
+
+  return commitPendingConversation(workbookName);
+}
 
-    if (!result.found || !result.messages || result.messages.length === 0) {
-      return;
+// Write a workbook's pending conversation into its thread.
+// Returns true when it ends with an assistant reply, i.e. completes a turn.
+function commitPendingConversation(workbookName: string): boolean {
+  const pending = pendingConversations.get(workbookName);
+  if (!pending) {
+    return false;
+  }
+  pendingConversations.delete(workbookName);
+
+  const conversation = pending.conversation;
+  lastCapturedHashes.set(workbookName, conversation.hash);
+
+  // Check if we have an existing session for this workbook
+  let existingSession = getActiveSessionByWorkbook(workbookName);
+  let existingMessages: Message[] = [];
+
+  if (existingSession) {
+    existingMessages = loadExistingMessages(existingSession);
+    const boundary = detectThreadBoundary(
+      existingMessages,
+      conversation.messages,
+      resetWorkbooks.has(workbookName)
+    );
+    if (boundary.newThread) {
+      console.log('[UICapture] Thread boundary (' + boundary.reason + ') for:', workbookName);
+      existingSession = null;
     }
+  }
+  resetWorkbooks.delete(workbookName);
 
-    // Parse the conversation from pre-classified messages
-    const conversation = parseConversationFromCapture(result.messages);
+  let finalMessages: Message[];
 
-    if (!conversation || conversation.messages.length < 2) {
-      return;
-    }
+  if (existingSession) {
+    // MERGE: Merge the visible messages into the stored thread
+    finalMessages = mergeMessages(existingMessages, conversation.messages);
 
-    // Check if content has changed (using hash of full conversation)
-    if (conversation.hash === lastCapturedHash) {
-      return; // No change, skip
-    }
+    console.log('[UICapture] Merging messages for:', workbookName);
+    console.log('[UICapture] Existing:', existingMessages.length, '+ New:', conversation.messages.length, '= Final:', finalMessages.length);
+  } else {
+    finalMessages = conversation.messages;
+    console.log('[UICapture] New thread for:', workbookName);
+    console.log('[UICapture] Messages:', finalMessages.length);
+  }
 
-    const workbookName = result.workbookName || 'Unknown';
+  // Messages live in the messages table, the JSON bodies are left empty
+  const sessionData = {
+    request_body: '',
+    response_body: '',
+    ...summarizeThread(finalMessages),
+  };
+
+  if (existingSession) {
+    // Update the existing session with merged messages
+    const updatedSession: CapturedSession = {
+      ...existingSession,
+      ...sessionData,
+      captured_at: new Date().toISOString(),
+    };
+    updateSession(updatedSession, finalMessages);
+    console.log('[UICapture] Thread updated:', existingSession.id);
+  } else {
+    // Create a new session
+    const newSession: CapturedSession = {
+      id: uuidv4(),
+      workbook_name: workbookName,
+      captured_at: new Date().toISOString(),
+      model: 'claude-for-excel',
+      input_tokens: null,
+      output_tokens: null,
+      ...sessionData,
+    };
+    insertSession(newSession, finalMessages);
+    console.log('[UICapture] New thread created:', newSession.id);
+  }
 
-    lastCapturedHash = conversation.hash;
+  return conversation.messages[conversation.messages.length - 1].role === 'assistant';
+}
 
-    // Check if we have an existing session for this workbook
-    const existingSession = getActiveSessionByWorkbook(workbookName);
+async function captureOnce(): Promise<void> {
+  if (!isCapturing || !captureSource || captureInFlight) return;
 
-    let finalMessages: Message[];
+  captureInFlight = true;
+  try {
+    const result = await captureSource.capture();
 
-    if (existingSession) {
-      // MERGE: Load existing messages and merge with new ones
-      const existingMessages = loadExistingMessages(existingSession);
-      finalMessages = mergeMessages(existingMessages, conversation.messages);
+    if (!result) return;
 
-      console.log('[UICapture] Merging messages for:', workbookName);
-      console.log('[UICapture] Existing:', existingMessages.length, '+ New:', conversation.messages.length, '= Final:', finalMessages.length);
-    } else {
-      finalMessages = conversation.messages;
-      console.log('[UICapture] New thread for:', workbookName);
-      console.log('[UICapture] Messages:', finalMessages.length);
+    if (isRecording()) {
+      recordSnapshot(result);
     }
 
-    // Get user prompts and assistant responses for display
-    const userMessages = finalMessages.filter(m => m.role === 'user');
-    const assistantMessages = finalMessages.filter(m => m.role === 'assistant');
-
-    const firstUserPrompt = userMessages[0]?.content || '';
-    const fullResponse = assistantMessages.map(m => m.content).join('\n\n');
+    const windows = result.found ? getCaptureWindows(result) : [];
 
-    const sessionData = {
-      request_body: JSON.stringify({ messages: finalMessages }),
-      response_body: JSON.stringify({ messages: finalMessages }),
-      user_prompt: firstUserPrompt,
-      assistant_response: fullResponse,
-    };
+    let captured = false;
+    for (const window of windows) {
+      if (captureWindow(window)) {
+        captured = true;
+      }
+    }
 
-    if (existingSession) {
-      // Update the existing session with merged messages
-      const updatedSession: CapturedSession = {
-        ...existingSession,
-        ...sessionData,
-        captured_at: new Date().toISOString(),
-      };
-      updateSession(updatedSession);
-      console.log('[UICapture] Thread updated:', existingSession.id);
-    } else {
-      // Create a new session
-      const newSession: CapturedSession = {
-        id: uuidv4(),
-        workbook_name: workbookName,
-        captured_at: new Date().toISOString(),
-        model: 'claude-for-excel',
-        input_tokens: null,
-        output_tokens: null,
-        ...sessionData,
-      };
-      insertSession(newSession);
-      console.log('[UICapture] New thread created:', newSession.id);
+    // A window closed mid-response will not change any more
+    const openWorkbooks = new Set(windows.map(window => window.workbookName || 'Unknown'));
+    for (const workbookName of [...pendingConversations.keys()]) {
+      if (!openWorkbooks.has(workbookName) && commitPendingConversation(workbookName)) {
+        captured = true;
+      }
     }
 
-    if (onSessionCaptured) {
+    if (captured && onSessionCaptured) {
       onSessionCaptured();
     }
 
@@ -430,17 +364,25 @@ async function captureOnce(): Promise<void> {
         console.error('[UICapture] Error:', error.message);
       }
     }
+  } finally {
+    captureInFlight = false;
   }
 }
 
-export function startUICapture(intervalMs: number = 3000): void {
+function emitCaptureStatus(): void {
+  emitServiceEvent({ type: 'capture.status', status: { running: isCapturing, capturing: isCapturing } });
+}
+
+export function startUICapture(source: CaptureSource, intervalMs: number = 3000): void {
   if (captureInterval) {
     console.log('[UICapture] Already running');
     return;
   }
 
+  captureSource = source;
   isCapturing = true;
-  console.log(`[UICapture] Starting capture (every ${intervalMs}ms)`);
+  console.log(`[UICapture] Starting capture from ${source.name} (every ${intervalMs}ms)`);
+  emitCaptureStatus();
 
   // Initial capture after a short delay
   setTimeout(captureOnce, 1000);
@@ -449,13 +391,28 @@ export function startUICapture(intervalMs: number = 3000): void {
   captureInterval = setInterval(captureOnce, intervalMs);
 }
 
+// Poll at a new interval, keeping the current source
+export function setCaptureInterval(intervalMs: number): void {
+  if (!captureInterval) return;
+  clearInterval(captureInterval);
+  captureInterval = setInterval(captureOnce, intervalMs);
+  console.log(`[UICapture] Polling every ${intervalMs}ms`);
+}
+
 export function stopUICapture(): void {
   if (captureInterval) {
     clearInterval(captureInterval);
     captureInterval = null;
   }
+  // Keep what was seen of a response that had not settled yet
+  for (const workbookName of [...pendingConversations.keys()]) {
+    commitPendingConversation(workbookName);
+  }
+  captureSource?.dispose?.();
+  captureSource = null;
   isCapturing = false;
   console.log('[UICapture] Stopped');
+  emitCaptureStatus();
 }
 
 export function isUICaptureRunning(): boolean {
@@ -465,13 +422,16 @@ export function isUICaptureRunning(): boolean {
 export function enableCapturing(): void {
   isCapturing = true;
   console.log('[UICapture] Enabled');
+  emitCaptureStatus();
 }
 
 export function disableCapturing(): void {
   isCapturing = false;
   console.log('[UICapture] Disabled');
+  emitCaptureStatus();
 }
 
 export function resetLastCaptured(): void {
-  lastCapturedHash = '';
+  lastCapturedHashes.clear();
+  pendingConversations.clear();
 }
@@ -0,0 +1,190 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+
+// Line-delimited JSON protocol with a long-lived worker process.
+// Request:  {"id": 1, "command": "capture"}
+// Response: {"id": 1, "ok": true, "result": ...} or {"id": 1, "ok": false, "error": "..."}
+// One JSON object per line in each direction; responses are matched by id.
+
+export interface WorkerOptions {
+  command: string;
+  args?: string[];
+  // Label used in log output
+  name?: string;
+  // A request without a response in this time kills and restarts the worker
+  requestTimeoutMs?: number;
+  // First delay before restarting a crashed worker; doubles up to the max
+  restartDelayMs?: number;
+  maxRestartDelayMs?: number;
+}
+
+export interface WorkerClient {
+  request<T = unknown>(command: string, params?: Record<string, unknown>): Promise<T>;
+  isRunning(): boolean;
+  dispose(): void;
+}
+
+interface WorkerResponse {
+  id: number;
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export function createWorkerClient(options: WorkerOptions): WorkerClient {
+  const name = options.name ?? 'Worker';
+  const requestTimeoutMs = options.requestTimeoutMs ?? 15000;
+  const baseRestartDelayMs = options.restartDelayMs ?? 1000;
+  const maxRestartDelayMs = options.maxRestartDelayMs ?? 30000;
+
+  let proc: ChildProcessWithoutNullStreams | null = null;
+  let stdoutBuffer = '';
+  let nextId = 1;
+  const pending = new Map<number, PendingRequest>();
+
+  let disposed = false;
+  let restartTimer: NodeJS.Timeout | null = null;
+  let restartDelayMs = baseRestartDelayMs;
+
+  function rejectAll(error: Error): void {
+    for (const request of pending.values()) {
+      clearTimeout(request.timer);
+      request.reject(error);
+    }
+    pending.clear();
+  }
+
+  function handleLine(line: string): void {
+    if (!line.trim()) return;
+
+    let response: WorkerResponse;
+    try {
+      response = JSON.parse(line);
+    } catch {
+      console.error(`[${name}] Ignoring malformed line:`, line.substring(0, 200));
+      return;
+    }
+
+    const request = pending.get(response.id);
+    if (!request) return;
+
+    pending.delete(response.id);
+    clearTimeout(request.timer);
+    restartDelayMs = baseRestartDelayMs;
+
+    if (response.ok) {
+      request.resolve(response.result);
+    } else {
+      request.reject(new Error(response.error || `${name} request failed`));
+    }
+  }
+
+  function scheduleRestart(): void {
+    if (disposed || restartTimer) return;
+
+    console.log(`[${name}] Restarting in ${restartDelayMs}ms`);
+    restartTimer = setTimeout(() => {
+      restartTimer = null;
+      if (!disposed && !proc) {
+        start();
+      }
+    }, restartDelayMs);
+    restartDelayMs = Math.min(restartDelayMs * 2, maxRestartDelayMs);
+  }
+
+  function start(): ChildProcessWithoutNullStreams {
+    const child = spawn(options.command, options.args ?? [], { windowsHide: true });
+    proc = child;
+    stdoutBuffer = '';
+    console.log(`[${name}] Started (pid ${child.pid})`);
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => {
+      stdoutBuffer += chunk;
+      let newline = stdoutBuffer.indexOf('\n');
+      while (newline >= 0) {
+        const line = stdoutBuffer.substring(0, newline);
+        stdoutBuffer = stdoutBuffer.substring(newline + 1);
+        handleLine(line);
+        newline = stdoutBuffer.indexOf('\n');
+      }
+    });
+
+    child.stderr.on('data', (data) => {
+      console.error(`[${name}] stderr:`, data.toString().trim());
+    });
+
+    // Writes to a worker that just died surface here; the exit handler cleans up
+    child.stdin.on('error', () => {});
+
+    child.on('error', (error) => {
+      console.error(`[${name}] Failed to start:`, error.message);
+    });
+
+    child.on('close', (code, signal) => {
+      if (proc !== child) return;
+      proc = null;
+      rejectAll(new Error(`${name} exited (code ${code}, signal ${signal})`));
+
+      if (!disposed) {
+        console.error(`[${name}] Exited unexpectedly (code ${code}, signal ${signal})`);
+        scheduleRestart();
+      }
+    });
+
+    return child;
+  }
+
+  function kill(): void {
+    if (!proc) return;
+    const child = proc;
+    proc = null;
+    child.kill();
+  }
+
+  return {
+    request<T = unknown>(command: string, params: Record<string, unknown> = {}): Promise<T> {
+      if (disposed) {
+        return Promise.reject(new Error(`${name} has been disposed`));
+      }
+      if (!proc && restartTimer) {
+        return Promise.reject(new Error(`${name} is restarting`));
+      }
+      const worker = proc ?? start();
+
+      const id = nextId++;
+      return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          pending.delete(id);
+          reject(new Error(`${name} request ${command} timed out after ${requestTimeoutMs}ms`));
+          // A hung worker would block every later request, so replace it
+          kill();
+          rejectAll(new Error(`${name} restarted after a timeout`));
+          scheduleRestart();
+        }, requestTimeoutMs);
+
+        pending.set(id, { resolve: resolve as (value: unknown) => void, reject, timer });
+        worker.stdin.write(JSON.stringify({ id, command, ...params }) + '\n');
+      });
+    },
+
+    isRunning(): boolean {
+      return proc !== null;
+    },
+
+    dispose(): void {
+      disposed = true;
+      if (restartTimer) {
+        clearTimeout(restartTimer);
+        restartTimer = null;
+      }
+      kill();
+      rejectAll(new Error(`${name} has been disposed`));
+    },
+  };
+}
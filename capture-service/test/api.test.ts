@@ -0,0 +1,116 @@
+import fs from 'fs';
+import net from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { startApi, stopApi } from '../src/api';
+import { loadAuthToken, startPairing } from '../src/auth';
+import { getConfig, getConfigPath, loadConfig, updateConfig } from '../src/config';
+import { removeUserData } from './electron';
+
+vi.mock('electron', () => import('./electron'));
+
+// A port nothing listens on right now
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, 'localhost', () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+// The server binds asynchronously after a (re)start
+async function waitForApi(port: number): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetch(`http://localhost:${port}/config`, { headers: { authorization: `Bearer ${token}` } });
+    } catch (error) {
+      if (attempt === 50) throw error;
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  }
+}
+
+let token = '';
+
+describe('PUT /config', () => {
+  let port = 0;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    loadConfig();
+    port = await freePort();
+    updateConfig({ apiPort: port });
+    loadAuthToken();
+    startApi();
+    await waitForApi(port);
+
+    const response = await fetch(`http://localhost:${port}/pair`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ code: startPairing() }),
+    });
+    token = ((await response.json()) as { token: string }).token;
+  });
+
+  afterAll(() => {
+    stopApi();
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  function putConfig(changes: object): Promise<Response> {
+    return fetch(`http://localhost:${port}/config`, {
+      method: 'PUT',
+      headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+      body: JSON.stringify(changes),
+    });
+  }
+
+  it('stays on the old port when the new one cannot be saved', async () => {
+    const newPort = await freePort();
+    fs.rmSync(getConfigPath(), { force: true });
+    fs.mkdirSync(getConfigPath());
+
+    try {
+      const response = await putConfig({ apiPort: newPort });
+      expect(response.status).toBe(500);
+    } finally {
+      fs.rmSync(getConfigPath(), { recursive: true, force: true });
+    }
+
+    expect(getConfig().apiPort).toBe(port);
+    expect((await waitForApi(port)).status).toBe(200);
+    await expect(fetch(`http://localhost:${newPort}/config`)).rejects.toThrow();
+  });
+
+  it('refuses a port that is in use', async () => {
+    const blocker = net.createServer();
+    const busyPort = await freePort();
+    await new Promise<void>(resolve => blocker.listen(busyPort, 'localhost', resolve));
+
+    try {
+      const response = await putConfig({ apiPort: busyPort });
+      expect(response.status).toBe(409);
+    } finally {
+      blocker.close();
+    }
+
+    expect(getConfig().apiPort).toBe(port);
+    expect((await waitForApi(port)).status).toBe(200);
+  });
+
+  it('moves to a free port and saves it', async () => {
+    const newPort = await freePort();
+
+    const response = await putConfig({ apiPort: newPort });
+    expect(response.status).toBe(200);
+
+    expect(getConfig().apiPort).toBe(newPort);
+    expect(JSON.parse(fs.readFileSync(getConfigPath(), 'utf8')).apiPort).toBe(newPort);
+    port = newPort;
+    expect((await waitForApi(port)).status).toBe(200);
+  });
+});
@@ -0,0 +1,125 @@
+import fs from 'fs';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  getPairingCodeTtlMinutes,
+  isValidToken,
+  loadAuthToken,
+  redeemPairingCode,
+  resetAuthToken,
+  startPairing,
+} from '../src/auth';
+import { removeUserData, userDataDir } from './electron';
+
+vi.mock('electron', () => import('./electron'));
+
+// Any code other than the one issued
+function wrongCode(code: string): string {
+  return code === '000000' ? '000001' : '000000';
+}
+
+function storedToken(): string {
+  return JSON.parse(fs.readFileSync(path.join(userDataDir, 'auth.json'), 'utf8')).token;
+}
+
+describe('auth', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  describe('token', () => {
+    it('generates a token once and keeps it across restarts', () => {
+      loadAuthToken();
+      const token = storedToken();
+
+      loadAuthToken();
+
+      expect(token).toMatch(/^[0-9a-f]{64}$/);
+      expect(storedToken()).toBe(token);
+      expect(isValidToken(token)).toBe(true);
+    });
+
+    it('replaces a stored token that is too short to be one', () => {
+      fs.writeFileSync(path.join(userDataDir, 'auth.json'), JSON.stringify({ token: 'short' }));
+
+      loadAuthToken();
+
+      expect(storedToken()).toMatch(/^[0-9a-f]{64}$/);
+      expect(isValidToken('short')).toBe(false);
+    });
+
+    it('accepts only the current token', () => {
+      const token = storedToken();
+
+      expect(isValidToken(undefined)).toBe(false);
+      expect(isValidToken('')).toBe(false);
+      expect(isValidToken(token.slice(1))).toBe(false);
+
+      resetAuthToken();
+
+      expect(isValidToken(token)).toBe(false);
+      expect(isValidToken(storedToken())).toBe(true);
+    });
+  });
+
+  describe('pairing', () => {
+    it('exchanges a code for the token once', () => {
+      const code = startPairing();
+
+      expect(code).toMatch(/^\d{6}$/);
+      expect(redeemPairingCode(` ${code} `)).toBe(storedToken());
+      expect(redeemPairingCode(code)).toBeNull();
+    });
+
+    it('refuses a code once it has expired', () => {
+      vi.useFakeTimers();
+      const code = startPairing();
+
+      vi.advanceTimersByTime(getPairingCodeTtlMinutes() * 60000 + 1);
+
+      expect(redeemPairingCode(code)).toBeNull();
+    });
+
+    it('accepts a code until it expires', () => {
+      vi.useFakeTimers();
+      const code = startPairing();
+
+      vi.advanceTimersByTime(getPairingCodeTtlMinutes() * 60000);
+
+      expect(redeemPairingCode(code)).toBe(storedToken());
+    });
+
+    it('discards the code after five wrong guesses', () => {
+      const code = startPairing();
+
+      for (let i = 0; i < 4; i++) {
+        expect(redeemPairingCode(wrongCode(code))).toBeNull();
+      }
+      expect(redeemPairingCode(code)).toBe(storedToken());
+
+      const next = startPairing();
+      for (let i = 0; i < 5; i++) {
+        expect(redeemPairingCode(wrongCode(next))).toBeNull();
+      }
+      expect(redeemPairingCode(next)).toBeNull();
+    });
+
+    it('invalidates a pending code when the token is reset', () => {
+      const code = startPairing();
+
+      resetAuthToken();
+
+      expect(redeemPairingCode(code)).toBeNull();
+    });
+  });
+});
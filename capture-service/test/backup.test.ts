@@ -0,0 +1,239 @@
+import fs from 'fs';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createBackup,
+  getBackupsDir,
+  listBackups,
+  resolveBackupPath,
+  restoreBackup,
+  rotateKey,
+} from '../src/backup';
+import { updateConfig } from '../src/config';
+import { isEncryptedFile } from '../src/encryption';
+import {
+  closeDatabase,
+  getSessionCount,
+  getSessionMessages,
+  getSessionRevisions,
+  getSessionSummary,
+  initDatabase,
+  insertSession,
+  listSessions,
+  purgeSession,
+  searchSessions,
+  updateSession,
+  updateSessionMeta,
+} from '../src/storage';
+import { RestoreConflict } from '../src/types';
+import { removeUserData, safeStorage, userDataDir } from './electron';
+import { insertThread, makeSession, thread } from './sessions';
+
+vi.mock('electron', () => import('./electron'));
+
+// Snapshot names carry the time to the millisecond
+async function createSpacedBackup(kind: 'manual' | 'scheduled') {
+  await new Promise(resolve => setTimeout(resolve, 5));
+  return createBackup(kind);
+}
+
+// Purge every session, live or in the trash
+function purgeAll(): void {
+  for (const deleted of [false, true]) {
+    for (const session of listSessions({ deleted, sort: 'newest', limit: 200, cursor: null }).sessions) {
+      purgeSession(session.id);
+    }
+  }
+}
+
+function storedKeyCount(): number {
+  const file = JSON.parse(fs.readFileSync(path.join(userDataDir, 'database-key.json'), 'utf8'));
+  return file.keys.length;
+}
+
+describe('backups', () => {
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    safeStorage.available = true;
+    await initDatabase();
+    insertSession({
+      id: 'session-1',
+      workbook_name: 'Budget.xlsx',
+      captured_at: '2026-10-19T08:00:00.000Z',
+      request_body: '',
+      response_body: '',
+      model: null,
+      input_tokens: null,
+      output_tokens: null,
+      user_prompt: 'Sum column B',
+      assistant_response: 'Use =SUM(B:B).',
+    }, [
+      { role: 'user', content: 'Sum column B' },
+      { role: 'assistant', content: 'Use =SUM(B:B).' },
+    ]);
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    safeStorage.available = false;
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  it('re-encrypts snapshots on key rotation so they restore with the new key only', () => {
+    const encrypted = createBackup('manual');
+    const portable = createBackup('manual', true);
+    const before = fs.readFileSync(encrypted.path);
+
+    rotateKey();
+
+    expect(storedKeyCount()).toBe(1);
+    const after = fs.readFileSync(encrypted.path);
+    expect(isEncryptedFile(after)).toBe(true);
+    expect(after.equals(before)).toBe(false);
+    expect(isEncryptedFile(fs.readFileSync(portable.path))).toBe(false);
+
+    const restored = restoreBackup(encrypted.path, 'replace');
+    expect('error' in restored ? restored.error : null).toBeNull();
+    expect(getSessionCount()).toBe(1);
+  });
+
+  describe('snapshot rotation', () => {
+    beforeAll(() => {
+      fs.rmSync(getBackupsDir(), { recursive: true, force: true });
+      updateConfig({ backupKeepCount: 2 });
+    });
+
+    it('keeps the newest backupKeepCount of each kind', async () => {
+      const oldest = await createSpacedBackup('manual');
+      await createSpacedBackup('manual');
+      await createSpacedBackup('scheduled');
+      await createSpacedBackup('manual');
+
+      const names = listBackups().map(backup => backup.name);
+      expect(names.filter(name => name.includes('-manual'))).toHaveLength(2);
+      expect(names.filter(name => name.includes('-scheduled'))).toHaveLength(1);
+      expect(names).not.toContain(oldest.name);
+    });
+
+    it('keeps scheduled and manual snapshots when restores add safety snapshots', async () => {
+      const before = listBackups().map(backup => backup.name);
+
+      for (let i = 0; i < 3; i++) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        expect(restoreBackup(listBackups().find(b => b.kind === 'manual')!.path, 'merge')).not.toHaveProperty('error');
+      }
+
+      const after = listBackups();
+      expect(after.filter(backup => backup.kind !== 'pre-restore').map(backup => backup.name)).toEqual(before);
+      expect(after.filter(backup => backup.kind === 'pre-restore')).toHaveLength(2);
+    });
+
+    it('never deletes the snapshot being restored', async () => {
+      const oldestSafety = listBackups().filter(backup => backup.kind === 'pre-restore').pop()!;
+
+      await new Promise(resolve => setTimeout(resolve, 5));
+      expect(restoreBackup(oldestSafety.path, 'merge')).not.toHaveProperty('error');
+
+      expect(fs.existsSync(oldestSafety.path)).toBe(true);
+    });
+  });
+
+  describe('resolveBackupPath', () => {
+    const name = 'sessions-2026-10-19T08-30-00-000Z-scheduled.db';
+
+    it('accepts snapshot names and their paths in the backups folder', () => {
+      expect(resolveBackupPath(name)).toBe(path.join(getBackupsDir(), name));
+      expect(resolveBackupPath(path.join(getBackupsDir(), name))).toBe(path.join(getBackupsDir(), name));
+    });
+
+    it('rejects files outside the backups folder', () => {
+      expect(resolveBackupPath('/etc/passwd')).toBeNull();
+      expect(resolveBackupPath(path.join(userDataDir, 'auth.json'))).toBeNull();
+      expect(resolveBackupPath(path.join(userDataDir, name))).toBeNull();
+      expect(resolveBackupPath(`../${name}`)).toBeNull();
+      expect(resolveBackupPath(path.join(getBackupsDir(), '..', 'sessions.db'))).toBeNull();
+    });
+
+    it('rejects other files in the backups folder', () => {
+      expect(resolveBackupPath('notes.txt')).toBeNull();
+      expect(resolveBackupPath(path.join(getBackupsDir(), `${name}.tmp`))).toBeNull();
+    });
+  });
+
+  describe('merge restores', () => {
+    let snapshotPath = '';
+
+    // In the snapshot: "changed-here" as first captured, "changed-there" with a
+    // later edit, and "only-there"
+    beforeAll(() => {
+      purgeAll();
+      insertThread('changed-here', '2026-10-01T09:00:00.000Z', thread('Chart monthly sales', 'Added a line chart.'));
+      insertThread('changed-there', '2026-10-01T09:00:00.000Z', thread('Pivot revenue', 'Created a PivotTable.'));
+      updateSession(
+        makeSession('changed-there', '2026-10-05T09:00:00.000Z'),
+        thread('Pivot revenue', 'Created a PivotTable grouped by region.')
+      );
+      insertThread('only-there', '2026-10-02T09:00:00.000Z', thread('Freeze the header row', 'Froze row 1.'));
+      updateSessionMeta('only-there', { tags: ['layout'], starred: true });
+      snapshotPath = createBackup('manual').path;
+    });
+
+    // Here: "changed-here" edited after the snapshot, "changed-there" recaptured
+    // before its edit in the snapshot, and "only-here"
+    beforeEach(() => {
+      purgeAll();
+      insertThread('changed-here', '2026-10-01T09:00:00.000Z', thread('Chart monthly sales', 'Added a line chart.'));
+      updateSession(
+        makeSession('changed-here', '2026-10-03T09:00:00.000Z'),
+        thread('Chart monthly sales', 'Added a column chart instead.')
+      );
+      insertThread('changed-there', '2026-10-02T09:00:00.000Z', thread('Pivot revenue', 'Working on it'));
+      insertThread('only-here', '2026-10-04T09:00:00.000Z', thread('Sort by date', 'Sorted.'));
+    });
+
+    function merge(conflict: RestoreConflict) {
+      const restored = restoreBackup(snapshotPath, 'merge', conflict);
+      if ('error' in restored) throw new Error(restored.error);
+      return restored.result;
+    }
+
+    function answer(id: string): string {
+      return getSessionMessages(id)[1].content;
+    }
+
+    it('keeps whichever copy changed last by default', () => {
+      expect(merge('newest')).toMatchObject({ sessions: 3, added: 1, replaced: 1, skipped: 1 });
+
+      expect(answer('changed-here')).toBe('Added a column chart instead.');
+      expect(answer('changed-there')).toBe('Created a PivotTable grouped by region.');
+      expect(getSessionSummary('only-here')).not.toBeNull();
+    });
+
+    it('keeps every session already here when asked to', () => {
+      expect(merge('keep')).toMatchObject({ added: 1, replaced: 0, skipped: 2 });
+
+      expect(answer('changed-here')).toBe('Added a column chart instead.');
+      expect(answer('changed-there')).toBe('Working on it');
+    });
+
+    it('takes every session from the snapshot when asked to', () => {
+      expect(merge('overwrite')).toMatchObject({ added: 1, replaced: 2, skipped: 0 });
+
+      expect(answer('changed-here')).toBe('Added a line chart.');
+      expect(answer('changed-there')).toBe('Created a PivotTable grouped by region.');
+      expect(getSessionSummary('only-here')).not.toBeNull();
+    });
+
+    it('brings sessions in with their revisions, tags, stars and search index', () => {
+      merge('newest');
+
+      expect(getSessionSummary('only-there')).toMatchObject({ tags: ['layout'], starred: true });
+      expect(getSessionRevisions('changed-there').map(r => r.created_at))
+        .toEqual(['2026-10-01T09:00:00.000Z', '2026-10-05T09:00:00.000Z']);
+      expect(searchSessions('froze').map(s => s.id)).toEqual(['only-there']);
+      expect(searchSessions('grouped').map(s => s.id)).toEqual(['changed-there']);
+      expect(searchSessions('working')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import fs from 'fs';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  getConfig,
+  getConfigPath,
+  loadConfig,
+  onConfigChange,
+  updateConfig,
+  validateConfigChanges,
+} from '../src/config';
+import { removeUserData } from './electron';
+
+vi.mock('electron', () => import('./electron'));
+
+// Make the next config write fail: a folder where config.json should be
+function blockConfigWrites(): void {
+  fs.rmSync(getConfigPath(), { force: true });
+  fs.mkdirSync(getConfigPath());
+}
+
+function unblockConfigWrites(): void {
+  fs.rmSync(getConfigPath(), { recursive: true, force: true });
+}
+
+describe('validateConfigChanges', () => {
+  it('accepts valid changes', () => {
+    expect(validateConfigChanges({
+      apiPort: 4000,
+      pollIntervalMs: 500,
+      databasePath: null,
+      allowedOrigins: ['https://localhost:3003', 'http://127.0.0.1:8080'],
+      retentionMaxAgeDays: null,
+      retentionMaxSessions: 500,
+      backupKeepCount: 100,
+    })).toEqual([]);
+  });
+
+  it('lists every invalid field', () => {
+    expect(validateConfigChanges({
+      apiPort: 80,
+      pollIntervalMs: 2.5,
+      notifications: 'yes',
+      databasePath: 'relative/sessions.db',
+      allowedOrigins: ['https://localhost:3003/'],
+      trashRetentionDays: 0,
+      retentionMaxDatabaseMB: 20000,
+      backupKeepCount: 101,
+    })).toEqual([
+      'apiPort must be an integer between 1024 and 65535',
+      'pollIntervalMs must be an integer between 500 and 60000',
+      'notifications must be a boolean',
+      'databasePath must be an absolute path or null',
+      'allowedOrigins must be a list of origins like https://localhost:3003',
+      'trashRetentionDays must be an integer between 1 and 365',
+      'retentionMaxDatabaseMB must be null or an integer between 1 and 10240',
+      'backupKeepCount must be an integer between 1 and 100',
+    ]);
+  });
+
+  it('rejects unknown settings and anything but an object', () => {
+    expect(validateConfigChanges({ theme: 'dark' })).toEqual(['Unknown setting: theme']);
+    expect(validateConfigChanges(null)).toEqual(['Config must be a JSON object']);
+    expect(validateConfigChanges([1])).toEqual(['Config must be a JSON object']);
+  });
+});
+
+describe('loadConfig', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(getConfigPath(), { force: true });
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('writes the defaults when there is no file', () => {
+    const loaded = loadConfig();
+
+    expect(loaded.apiPort).toBe(3847);
+    expect(JSON.parse(fs.readFileSync(getConfigPath(), 'utf8'))).toEqual(loaded);
+  });
+
+  it('uses the default for each invalid field and keeps the file as it is', () => {
+    const file = JSON.stringify({ apiPort: 4100, pollIntervalMs: 10, backupEnabled: 'no' });
+    fs.writeFileSync(getConfigPath(), file);
+
+    const loaded = loadConfig();
+
+    expect(loaded).toMatchObject({ apiPort: 4100, pollIntervalMs: 3000, backupEnabled: true });
+    expect(console.error).toHaveBeenCalledWith('[Config] Using default for pollIntervalMs:', expect.any(String));
+    expect(fs.readFileSync(getConfigPath(), 'utf8')).toBe(file);
+  });
+
+  it('falls back to the defaults when the file does not parse', () => {
+    fs.writeFileSync(getConfigPath(), '{ "apiPort": 4100,');
+
+    expect(loadConfig().apiPort).toBe(3847);
+    expect(fs.readFileSync(getConfigPath(), 'utf8')).toBe('{ "apiPort": 4100,');
+  });
+});
+
+describe('updateConfig', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    loadConfig();
+  });
+
+  afterEach(() => {
+    unblockConfigWrites();
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  it('saves the changes and tells listeners', () => {
+    const listener = vi.fn();
+    onConfigChange(listener);
+
+    updateConfig({ pollIntervalMs: 5000 });
+
+    expect(getConfig().pollIntervalMs).toBe(5000);
+    expect(JSON.parse(fs.readFileSync(getConfigPath(), 'utf8')).pollIntervalMs).toBe(5000);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ pollIntervalMs: 5000 }),
+      expect.objectContaining({ pollIntervalMs: 3000 })
+    );
+  });
+
+  it('keeps the running settings when the write fails', () => {
+    const before = getConfig();
+    const listener = vi.fn();
+    onConfigChange(listener);
+    blockConfigWrites();
+
+    expect(() => updateConfig({ apiPort: before.apiPort + 1 })).toThrow();
+
+    expect(getConfig()).toBe(before);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid changes without saving them', () => {
+    const before = getConfig();
+
+    expect(() => updateConfig({ pollIntervalMs: -1 })).toThrow(/pollIntervalMs/);
+
+    expect(getConfig()).toBe(before);
+  });
+});
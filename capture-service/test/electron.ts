@@ -0,0 +1,30 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Stand-in for the electron module in tests: vi.mock('electron', () => import('./electron')).
+// userData is a fresh temp folder per test file.
+
+export const userDataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-memory-test-'));
+
+export const app = {
+  getPath: (_name: string) => userDataDir,
+};
+
+// Reversible stand-in for the OS credential store; off unless a test turns it on
+export const safeStorage = {
+  available: false,
+  isEncryptionAvailable(): boolean {
+    return this.available;
+  },
+  encryptString(text: string): Buffer {
+    return Buffer.from(`safe:${text}`);
+  },
+  decryptString(data: Buffer): string {
+    return data.toString().replace(/^safe:/, '');
+  },
+};
+
+export function removeUserData(): void {
+  fs.rmSync(userDataDir, { recursive: true, force: true });
+}
@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  beginKeyRotation,
+  decryptDatabase,
+  encryptDatabase,
+  finishKeyRotation,
+  isEncryptedFile,
+  isPlaintextDatabase,
+  reencryptFile,
+} from '../src/encryption';
+import { removeUserData, safeStorage, userDataDir } from './electron';
+
+vi.mock('electron', () => import('./electron'));
+
+// Enough of a SQLite file to be recognised as one
+const DATABASE = Buffer.concat([Buffer.from('SQLite format 3\0', 'ascii'), Buffer.from('Sum column B -> 412')]);
+
+function storedKeys(): string[] {
+  return JSON.parse(fs.readFileSync(path.join(userDataDir, 'database-key.json'), 'utf8')).keys;
+}
+
+describe('encryption', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    safeStorage.available = false;
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  describe('without the OS credential store', () => {
+    it('leaves the database in plaintext', () => {
+      expect(encryptDatabase(DATABASE)).toBe(DATABASE);
+      expect(decryptDatabase(DATABASE)).toBe(DATABASE);
+      expect(isPlaintextDatabase(DATABASE)).toBe(true);
+      expect(fs.existsSync(path.join(userDataDir, 'database-key.json'))).toBe(false);
+    });
+
+    it('refuses an encrypted file it cannot read', () => {
+      safeStorage.available = true;
+      const encrypted = encryptDatabase(DATABASE);
+      safeStorage.available = false;
+
+      expect(() => decryptDatabase(encrypted)).toThrow(/credential store .* not available/);
+    });
+  });
+
+  describe('with the OS credential store', () => {
+    it('round-trips the database through AES-GCM', () => {
+      safeStorage.available = true;
+
+      const encrypted = encryptDatabase(DATABASE);
+
+      expect(isEncryptedFile(encrypted)).toBe(true);
+      expect(isPlaintextDatabase(encrypted)).toBe(false);
+      expect(Buffer.from(encrypted).includes('Sum column B')).toBe(false);
+      expect(Buffer.from(encryptDatabase(DATABASE)).equals(Buffer.from(encrypted))).toBe(false);
+      expect(Buffer.from(decryptDatabase(encrypted)).equals(DATABASE)).toBe(true);
+    });
+
+    it('keeps its key only through the credential store', () => {
+      const [stored] = storedKeys();
+
+      expect(storedKeys()).toHaveLength(1);
+      expect(Buffer.from(stored, 'base64').toString()).toMatch(/^safe:[0-9a-f]{64}$/);
+    });
+
+    it('rejects a file that was changed', () => {
+      safeStorage.available = true;
+      const encrypted = Buffer.from(encryptDatabase(DATABASE));
+      encrypted[encrypted.length - 1] ^= 1;
+
+      expect(() => decryptDatabase(encrypted)).toThrow('could not be decrypted');
+    });
+  });
+
+  describe('key rotation', () => {
+    it('reads files under the old key until the rotation finishes', () => {
+      safeStorage.available = true;
+      const [oldKey] = storedKeys();
+      const underOldKey = encryptDatabase(DATABASE);
+
+      beginKeyRotation();
+      const underNewKey = encryptDatabase(DATABASE);
+
+      expect(storedKeys()).toHaveLength(2);
+      expect(storedKeys()[1]).toBe(oldKey);
+      expect(Buffer.from(decryptDatabase(underOldKey)).equals(DATABASE)).toBe(true);
+
+      finishKeyRotation();
+
+      expect(storedKeys()).toHaveLength(1);
+      expect(storedKeys()[0]).not.toBe(oldKey);
+      expect(() => decryptDatabase(underOldKey)).toThrow('could not be decrypted');
+      expect(Buffer.from(decryptDatabase(underNewKey)).equals(DATABASE)).toBe(true);
+    });
+
+    it('re-encrypts copies of the database with the current key', () => {
+      safeStorage.available = true;
+      const plainCopy = path.join(userDataDir, 'sessions.db.v0-1.bak');
+      const encryptedCopy = path.join(userDataDir, 'sessions.db.v1-2.bak');
+      const other = path.join(userDataDir, 'notes.txt');
+      fs.writeFileSync(plainCopy, DATABASE);
+      fs.writeFileSync(encryptedCopy, encryptDatabase(DATABASE));
+      fs.writeFileSync(other, 'not a database');
+
+      beginKeyRotation();
+      for (const file of [plainCopy, encryptedCopy, other]) {
+        reencryptFile(file);
+      }
+      finishKeyRotation();
+
+      for (const file of [plainCopy, encryptedCopy]) {
+        expect(isEncryptedFile(fs.readFileSync(file))).toBe(true);
+        expect(Buffer.from(decryptDatabase(fs.readFileSync(file))).equals(DATABASE)).toBe(true);
+      }
+      expect(fs.readFileSync(other, 'utf8')).toBe('not a database');
+    });
+
+    it('cannot start without the credential store', () => {
+      expect(() => beginKeyRotation()).toThrow(/not available/);
+      expect(storedKeys()).toHaveLength(1);
+    });
+  });
+});
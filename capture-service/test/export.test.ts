@@ -0,0 +1,165 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ExportSession, exportSessions, getExportFilename, isExportFormat } from '../src/export';
+import { CapturedSession, Message, StoredMessage } from '../src/types';
+import { makeSession, thread } from './sessions';
+
+vi.mock('electron', () => import('./electron'));
+
+function stored(sessionId: string, messages: Message[]): StoredMessage[] {
+  return messages.map((m, ordinal) => ({
+    id: ordinal + 1,
+    session_id: sessionId,
+    ordinal,
+    role: m.role,
+    content: m.content,
+    cell_context: m.cellContext ?? null,
+    first_seen_at: '2026-10-01T09:00:00.000Z',
+    updated_at: '2026-10-01T09:00:00.000Z',
+  }));
+}
+
+function item(session: CapturedSession, messages: Message[]): ExportSession {
+  return { session, messages: stored(session.id, messages) };
+}
+
+const budget = item(
+  makeSession('1a2b3c4d-5e6f', '2026-10-01T09:00:00.000Z', {
+    title: 'Q3 budget: "final" <draft>',
+    model: 'claude-for-excel',
+    tags: ['finance', 'q3'],
+  }),
+  [
+    { role: 'user', content: 'Check the totals, please', cellContext: 'B2:D14' },
+    { role: 'assistant', content: 'Row 9 is short by 120.00, see <E9> & the "notes" column.' },
+  ]
+);
+
+// The CSV rows after the header, without the BOM
+function csvRows(items: ExportSession[]): string[] {
+  return exportSessions(items, 'csv').content.slice(1).split('\r\n').slice(1, -1);
+}
+
+describe('export', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('knows its formats', () => {
+    expect(isExportFormat('csv')).toBe(true);
+    expect(isExportFormat('xlsx')).toBe(false);
+  });
+
+  describe('filenames', () => {
+    it('name one thread by its date, title and id', () => {
+      expect(getExportFilename([budget.session], 'md')).toBe('claude-session-2026-10-01-q3-budget-final-draft-1a2b3c4d.md');
+      expect(getExportFilename([makeSession('9f8e7d6c-b', '2026-10-02T09:00:00.000Z')], 'csv'))
+        .toBe('claude-session-2026-10-02-9f8e7d6c.csv');
+    });
+
+    it('name several threads by the export date and count', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-10-19T10:00:00.000Z'));
+
+      expect(getExportFilename([budget.session, budget.session], 'json')).toBe('claude-sessions-2026-10-19-2.json');
+    });
+  });
+
+  describe('csv', () => {
+    it('starts with a BOM and a header, one CRLF row per message', () => {
+      const { content, contentType } = exportSessions([budget], 'csv');
+
+      expect(contentType).toBe('text/csv; charset=utf-8');
+      expect(content.startsWith('\uFEFFsession_id,session_title,workbook_name,captured_at,model,tags,ordinal,role,cell_context,content\r\n'))
+        .toBe(true);
+      expect(csvRows([budget])).toHaveLength(2);
+    });
+
+    it('quotes cells with commas, quotes and line breaks', () => {
+      expect(csvRows([budget])).toEqual([
+        '1a2b3c4d-5e6f,"Q3 budget: ""final"" <draft>",Budget.xlsx,2026-10-01T09:00:00.000Z,claude-for-excel,' +
+          '"finance, q3",0,user,B2:D14,"Check the totals, please"',
+        '1a2b3c4d-5e6f,"Q3 budget: ""final"" <draft>",Budget.xlsx,2026-10-01T09:00:00.000Z,claude-for-excel,' +
+          '"finance, q3",1,assistant,,"Row 9 is short by 120.00, see <E9> & the ""notes"" column."',
+      ]);
+
+      const multiline = item(makeSession('multi', '2026-10-01T09:00:00.000Z'), thread('Line one\r\nLine two'));
+      expect(exportSessions([multiline], 'csv').content).toContain(',user,,"Line one\r\nLine two"\r\n');
+    });
+
+    it('keeps Excel from reading cells as formulas', () => {
+      const formulas = item(makeSession('formulas', '2026-10-01T09:00:00.000Z', { title: '=HYPERLINK("http://x")' }), [
+        { role: 'user', content: '=SUM(A1:A9)' },
+        { role: 'assistant', content: '+1 for that' },
+        { role: 'user', content: '-2 as well' },
+        { role: 'assistant', content: '@A1' },
+        { role: 'user', content: '\tindented' },
+        { role: 'assistant', content: 'Use =SUM(A1:A9) in B1' },
+      ]);
+
+      const cells = csvRows([formulas]).map(row => row.slice(row.lastIndexOf(',') + 1));
+      expect(cells).toEqual([
+        '\'=SUM(A1:A9)',
+        '\'+1 for that',
+        '\'-2 as well',
+        '\'@A1',
+        '\'\tindented',
+        'Use =SUM(A1:A9) in B1',
+      ]);
+      expect(csvRows([formulas])[0]).toContain(',"\'=HYPERLINK(""http://x"")",');
+    });
+  });
+
+  describe('html', () => {
+    it('escapes titles, metadata and message text', () => {
+      const session = item(makeSession('<id>', '2026-10-01T09:00:00.000Z', { workbook_name: 'A&B.xlsx' }), [
+        { role: 'user', content: '<script>alert(\'x\')</script>', cellContext: 'A1' },
+        { role: 'assistant', content: 'Fine' },
+      ]);
+
+      const { content } = exportSessions([budget, session], 'html');
+
+      expect(content).not.toContain('<script>');
+      expect(content).toContain('&lt;script&gt;alert(&#39;x&#39;)&lt;/script&gt;');
+      expect(content).toContain('<h1>Q3 budget: &quot;final&quot; &lt;draft&gt;</h1>');
+      expect(content).toContain('see &lt;E9&gt; &amp; the &quot;notes&quot; column.');
+      expect(content).toContain('data-session-id="&lt;id&gt;"');
+      expect(content).toContain('A&amp;B.xlsx');
+      expect(content).toContain('<div class="cell">B2:D14</div>');
+    });
+  });
+
+  describe('markdown', () => {
+    it('lists the metadata and labels each message', () => {
+      const { content } = exportSessions([budget], 'md');
+
+      expect(content).toContain('# Q3 budget: "final" <draft>');
+      expect(content).toContain('- Tags: finance, q3');
+      expect(content).toContain('## You (B2:D14)\n\nCheck the totals, please\n');
+      expect(content).toContain('## Claude\n\nRow 9 is short');
+    });
+  });
+
+  describe('json and jsonl', () => {
+    it('carry the metadata and every message', () => {
+      const json = JSON.parse(exportSessions([budget], 'json').content);
+
+      expect(json.sessions[0]).toMatchObject({
+        id: '1a2b3c4d-5e6f',
+        title: 'Q3 budget: "final" <draft>',
+        tags: ['finance', 'q3'],
+        starred: false,
+        deleted_at: null,
+      });
+      expect(json.sessions[0].messages.map((m: { cell_context: string | null }) => m.cell_context)).toEqual(['B2:D14', null]);
+    });
+
+    it('write one message per line', () => {
+      const lines = exportSessions([budget], 'jsonl').content.trimEnd().split('\n').map(line => JSON.parse(line));
+
+      expect(lines.map(line => [line.session_id, line.ordinal, line.role])).toEqual([
+        ['1a2b3c4d-5e6f', 0, 'user'],
+        ['1a2b3c4d-5e6f', 1, 'assistant'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+// Stand-in for the PowerShell UIA worker, speaking the same line-delimited
+// JSON protocol (see src/workerClient.ts). Commands:
+//   echo     {value}    -> result: value
+//   delayed  {value, delayMs} -> result: value, after delayMs
+//   pid                 -> result: this process id
+//   fail     {message}  -> ok: false
+//   garbage  {value}    -> a malformed line, a response for an unknown id,
+//                          then result: value
+//   hang                -> never answers
+//   crash               -> exits with code 3 without answering
+// With --exit-on-start the worker exits with code 3 straight away.
+
+const readline = require('readline');
+
+if (process.argv.includes('--exit-on-start')) {
+  process.exit(3);
+}
+
+function send(response) {
+  process.stdout.write(JSON.stringify(response) + '\n');
+}
+
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  const request = JSON.parse(line);
+  const { id, command } = request;
+
+  switch (command) {
+    case 'echo':
+      send({ id, ok: true, result: request.value });
+      break;
+    case 'delayed':
+      setTimeout(() => send({ id, ok: true, result: request.value }), request.delayMs);
+      break;
+    case 'pid':
+      send({ id, ok: true, result: process.pid });
+      break;
+    case 'fail':
+      send({ id, ok: false, error: request.message });
+      break;
+    case 'garbage':
+      process.stdout.write('WARNING: not json {\n');
+      send({ id: id + 1000, ok: true, result: 'stray' });
+      send({ id, ok: true, result: request.value });
+      break;
+    case 'hang':
+      break;
+    case 'crash':
+      process.exit(3);
+      break;
+    default:
+      send({ id, ok: false, error: `Unknown command: ${command}` });
+  }
+});
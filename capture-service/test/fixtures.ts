@@ -0,0 +1,27 @@
+import fs from 'fs';
+import path from 'path';
+import { CaptureResult, CaptureWindow, Message, RecordedSnapshot } from '../src/types';
+
+// Recorded capture snapshots in test/fixtures/<name>, in file name order
+// (the layout record mode writes and the replay source reads)
+
+export function getFixtureDir(name: string): string {
+  return path.join(__dirname, 'fixtures', name);
+}
+
+export function loadFixture(name: string): CaptureResult[] {
+  const dir = getFixtureDir(name);
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => (JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as RecordedSnapshot).result);
+}
+
+export function firstWindow(result: CaptureResult): CaptureWindow {
+  return result.windows?.[0] ?? { workbookName: result.workbookName || '', messages: result.messages || [] };
+}
+
+// The messages of a snapshot's first window, as the pipeline passes them on
+export function visibleMessages(result: CaptureResult): Message[] {
+  return firstWindow(result).messages.map(m => ({ role: m.role, content: m.content }));
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { mergeMessages } from '../src/messageMerge';
+import { isSameMessage } from '../src/threadBoundary';
+import { Message } from '../src/types';
+import { loadFixture, visibleMessages } from './fixtures';
+
+// Merge every snapshot of a fixture into the thread, as successive polls would
+function replay(name: string): { thread: Message[]; snapshots: Message[][] } {
+  const snapshots = loadFixture(name).map(visibleMessages);
+  const thread = snapshots.reduce<Message[]>((stored, visible) => mergeMessages(stored, visible), []);
+  return { thread, snapshots };
+}
+
+// Every input message is in the result, itself or as a longer version
+function expectNothingDropped(result: Message[], ...inputs: Message[][]): void {
+  for (const message of inputs.flat()) {
+    const kept = result.some(m => isSameMessage(m, message) && m.content.length >= message.content.length);
+    expect(kept, `dropped ${message.role}: ${message.content}`).toBe(true);
+  }
+}
+
+describe('mergeMessages', () => {
+  it('keeps different answers that start with the same words apart', () => {
+    const { thread, snapshots } = replay('message-merge/same-prefix');
+
+    expect(thread).toEqual(snapshots[1]);
+    expect(thread.filter(m => m.role === 'assistant')).toHaveLength(2);
+  });
+
+  it('puts messages scrolled into view above the ones already stored', () => {
+    const { thread, snapshots } = replay('message-merge/scrolled-up');
+    const [bottom, top] = snapshots;
+
+    expect(thread).toEqual([...top.slice(0, 2), ...bottom]);
+  });
+
+  it('replaces a streaming message with its longer version and keeps it', () => {
+    const { thread, snapshots } = replay('message-merge/streaming');
+    const finished = snapshots[2];
+
+    expect(thread).toEqual(finished);
+    // The truncated capture after the answer finished does not shorten it
+    expect(mergeMessages(finished, snapshots[3])).toEqual(finished);
+  });
+
+  it('keeps the cell selection seen in either capture', () => {
+    const stored: Message[] = [
+      { role: 'user', content: 'Format these as currency', cellContext: 'B2:B10' },
+      { role: 'assistant', content: 'Formatted B2:B10 as currency.' },
+    ];
+    const visible: Message[] = [
+      { role: 'user', content: 'Format these as currency' },
+      { role: 'assistant', content: 'Formatted B2:B10 as currency. Negative values are red.' },
+    ];
+
+    expect(mergeMessages(stored, visible)).toEqual([
+      { role: 'user', content: 'Format these as currency', cellContext: 'B2:B10' },
+      visible[1],
+    ]);
+  });
+
+  it('never drops a message from the fixtures', () => {
+    for (const name of ['message-merge/same-prefix', 'message-merge/scrolled-up', 'message-merge/streaming']) {
+      const { thread, snapshots } = replay(name);
+      expectNothingDropped(thread, ...snapshots);
+    }
+  });
+
+  it('never drops a message from any stored and visible pair', () => {
+    // Deterministic pseudo-random threads and views over them
+    let seed = 42;
+    const random = (n: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % n;
+    };
+    const pool: Message[] = Array.from({ length: 12 }, (_, index) => ({
+      role: index % 2 === 0 ? 'user' : 'assistant',
+      content: `Message number ${index} about sheet ${random(4)}`,
+    }));
+    const pick = () => pool.filter(() => random(3) > 0);
+
+    for (let round = 0; round < 200; round++) {
+      const stored = pick();
+      const visible = pick();
+      const merged = mergeMessages(stored, visible);
+
+      expectNothingDropped(merged, stored, visible);
+      expect(merged.length).toBeLessThanOrEqual(stored.length + visible.length);
+    }
+  });
+});
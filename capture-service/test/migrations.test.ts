@@ -0,0 +1,197 @@
+import fs from 'fs';
+import path from 'path';
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getSchemaVersion, LATEST_SCHEMA_VERSION, runMigrations } from '../src/migrations';
+import {
+  closeDatabase,
+  exportDatabase,
+  getDbPath,
+  getSessionMessages,
+  getSessionRevisions,
+  getSessionSummary,
+  initDatabase,
+  searchSessions,
+} from '../src/storage';
+import { removeUserData } from './electron';
+
+vi.mock('electron', () => import('./electron'));
+
+// A sessions.db from before versioning: one table, threads kept as the raw
+// request and response JSON
+async function createLegacyDatabase(): Promise<Database> {
+  const SQL = await initSqlJs();
+  const legacy = new SQL.Database();
+  legacy.run(`
+    CREATE TABLE sessions (
+      id TEXT PRIMARY KEY,
+      workbook_name TEXT,
+      captured_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      request_body TEXT,
+      response_body TEXT,
+      model TEXT,
+      input_tokens INTEGER,
+      output_tokens INTEGER,
+      user_prompt TEXT,
+      assistant_response TEXT
+    )
+  `);
+
+  const insert = 'INSERT INTO sessions VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)';
+  legacy.run(insert, [
+    'json-bodies',
+    'Budget.xlsx',
+    '2026-09-01T09:00:00.000Z',
+    JSON.stringify({
+      messages: [
+        { role: 'user', content: 'Total column B' },
+        { role: 'assistant', content: [{ type: 'text', text: 'The total is 412.' }] },
+        { role: 'user', content: [{ type: 'text', text: 'Now highlight the outliers' }, { type: 'image' }] },
+      ],
+    }),
+    JSON.stringify({ content: [{ type: 'text', text: 'Added conditional formatting for outliers.' }] }),
+    'claude-sonnet',
+    120,
+    40,
+    'Now highlight the outliers',
+    'Added conditional formatting for outliers.',
+  ]);
+  legacy.run(insert, [
+    'prompt-only',
+    'Sales.xlsx',
+    '2026-09-02T09:00:00.000Z',
+    'not json',
+    '',
+    null,
+    null,
+    null,
+    'Make a pivot of revenue',
+    'Created a PivotTable on a new sheet.',
+  ]);
+
+  return legacy;
+}
+
+describe('runMigrations', () => {
+  let legacy: Database;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    legacy = await createLegacyDatabase();
+  });
+
+  afterAll(() => {
+    legacy.close();
+    vi.restoreAllMocks();
+  });
+
+  it('brings a database from before versioning up to the latest schema', () => {
+    expect(getSchemaVersion(legacy)).toBe(0);
+
+    runMigrations(legacy, null);
+
+    expect(getSchemaVersion(legacy)).toBe(LATEST_SCHEMA_VERSION);
+    const applied = legacy.exec('SELECT version FROM schema_version ORDER BY version')[0].values.map(row => row[0]);
+    expect(applied).toEqual(Array.from({ length: LATEST_SCHEMA_VERSION }, (_, index) => index + 1));
+  });
+
+  it('does nothing on a database that is already current', () => {
+    const before = legacy.exec('SELECT COUNT(*) FROM schema_version')[0].values[0][0];
+
+    runMigrations(legacy, null);
+
+    expect(legacy.exec('SELECT COUNT(*) FROM schema_version')[0].values[0][0]).toBe(before);
+  });
+
+  it('refuses a database from a newer version of the app', () => {
+    legacy.run('INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)', [
+      LATEST_SCHEMA_VERSION + 1,
+      'From the future',
+      '2026-10-19T00:00:00.000Z',
+    ]);
+
+    expect(() => runMigrations(legacy, null)).toThrow(/schema version \d+.*Please update the app/);
+  });
+});
+
+describe('migrating sessions.db', () => {
+  let legacyBytes: Uint8Array;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const legacy = await createLegacyDatabase();
+    legacyBytes = legacy.export();
+    legacy.close();
+
+    fs.mkdirSync(path.dirname(getDbPath()), { recursive: true });
+    fs.writeFileSync(getDbPath(), legacyBytes);
+    await initDatabase();
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  function migrationBackups(): string[] {
+    const dir = path.dirname(getDbPath());
+    return fs.readdirSync(dir).filter(name => /^sessions\.db\.v\d+-\d+\.bak$/.test(name)).map(name => path.join(dir, name));
+  }
+
+  it('copies the old file aside before migrating', () => {
+    const backups = migrationBackups();
+
+    expect(backups).toHaveLength(1);
+    expect(path.basename(backups[0])).toMatch(/^sessions\.db\.v0-/);
+    expect(new Uint8Array(fs.readFileSync(backups[0]))).toEqual(legacyBytes);
+  });
+
+  it('writes the migrated database back at the latest schema', async () => {
+    const SQL = await initSqlJs();
+    const migrated = new SQL.Database(exportDatabase());
+
+    expect(getSchemaVersion(migrated)).toBe(LATEST_SCHEMA_VERSION);
+    migrated.close();
+  });
+
+  it('splits the JSON bodies into messages, text blocks only', () => {
+    expect(getSessionMessages('json-bodies').map(m => [m.role, m.content, m.first_seen_at])).toEqual([
+      ['user', 'Total column B', '2026-09-01T09:00:00.000Z'],
+      ['assistant', 'The total is 412.', '2026-09-01T09:00:00.000Z'],
+      ['user', 'Now highlight the outliers', '2026-09-01T09:00:00.000Z'],
+      ['assistant', 'Added conditional formatting for outliers.', '2026-09-01T09:00:00.000Z'],
+    ]);
+  });
+
+  it('falls back to the prompt and response when the bodies do not parse', () => {
+    expect(getSessionMessages('prompt-only').map(m => [m.role, m.content])).toEqual([
+      ['user', 'Make a pivot of revenue'],
+      ['assistant', 'Created a PivotTable on a new sheet.'],
+    ]);
+  });
+
+  it('indexes the migrated messages for search', () => {
+    expect(searchSessions('outliers').map(s => s.id)).toEqual(['json-bodies']);
+    expect(searchSessions('pivottable').map(s => s.id)).toEqual(['prompt-only']);
+  });
+
+  it('starts each thread at its first revision', () => {
+    expect(getSessionRevisions('json-bodies').map(r => [r.revision, r.message_count])).toEqual([[1, 4]]);
+  });
+
+  it('gives the migrated sessions titles', () => {
+    expect(getSessionSummary('json-bodies')?.title).toBeTruthy();
+    expect(getSessionSummary('prompt-only')?.title).toBeTruthy();
+  });
+
+  it('does not back up again once the database is current', async () => {
+    closeDatabase();
+    await initDatabase();
+
+    expect(migrationBackups()).toHaveLength(1);
+    expect(getSessionMessages('json-bodies')).toHaveLength(4);
+  });
+});
@@ -0,0 +1,156 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { decodeCursor, encodeCursor, parseSessionListQuery } from '../src/pagination';
+import { closeDatabase, deleteSession, initDatabase, listSessions } from '../src/storage';
+import { SessionListOptions, SessionPage } from '../src/types';
+import { removeUserData } from './electron';
+import { insertThread, thread } from './sessions';
+
+vi.mock('electron', () => import('./electron'));
+
+function parse(query: Record<string, unknown>): SessionListOptions {
+  const parsed = parseSessionListQuery(query);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed.options;
+}
+
+function parseError(query: Record<string, unknown>): string | null {
+  const parsed = parseSessionListQuery(query);
+  return 'error' in parsed ? parsed.error : null;
+}
+
+function list(query: Record<string, unknown>): SessionPage {
+  return listSessions(parse(query));
+}
+
+// Every page of a listing, following nextCursor
+function listAll(query: Record<string, unknown>): string[][] {
+  const pages: string[][] = [];
+  let cursor: string | null = null;
+  do {
+    const page = list(cursor ? { ...query, cursor } : query);
+    pages.push(page.sessions.map(s => s.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+describe('cursors', () => {
+  it('round-trip positions and offsets', () => {
+    const position = { capturedAt: '2026-10-01T09:00:00.000Z', id: 'a' };
+
+    expect(decodeCursor(encodeCursor(position))).toEqual(position);
+    expect(decodeCursor(encodeCursor({ offset: 50 }))).toEqual({ offset: 50 });
+  });
+
+  it('reject anything this service did not hand out', () => {
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from('{"offset":-1}').toString('base64url'))).toBeNull();
+    expect(decodeCursor(Buffer.from('{"capturedAt":1,"id":"a"}').toString('base64url'))).toBeNull();
+  });
+});
+
+describe('parseSessionListQuery', () => {
+  it('defaults to the newest 50 sessions, or by relevance when searching', () => {
+    expect(parse({})).toMatchObject({ sort: 'newest', limit: 50, cursor: null, deleted: false });
+    expect(parse({ search: ' vlookup ' })).toMatchObject({ search: 'vlookup', sort: 'relevance' });
+  });
+
+  it('reads filters, a bare "to" date as the end of that day, and repeated tags', () => {
+    expect(parse({
+      workbook: 'Budget.xlsx',
+      from: '2026-10-01',
+      to: '2026-10-02',
+      starred: 'false',
+      tag: ['q3', ' ', 'review '],
+      ids: 'a, b,,c',
+      excludeIds: '',
+    })).toMatchObject({
+      workbook: 'Budget.xlsx',
+      from: '2026-10-01T00:00:00.000Z',
+      to: '2026-10-02T23:59:59.999Z',
+      starred: false,
+      tags: ['q3', 'review'],
+      ids: ['a', 'b', 'c'],
+      excludeIds: [],
+    });
+  });
+
+  it('returns an error for invalid parameters', () => {
+    expect(parseError({ limit: '0' })).toBe('limit must be an integer between 1 and 200');
+    expect(parseError({ limit: '201' })).toBe('limit must be an integer between 1 and 200');
+    expect(parseError({ sort: 'random' })).toBe('sort must be one of newest, oldest, relevance');
+    expect(parseError({ sort: 'relevance' })).toBe('sort=relevance needs a search query');
+    expect(parseError({ from: 'yesterday' })).toBe('from must be an ISO date');
+    expect(parseError({ deleted: 'yes' })).toBe('deleted must be true or false');
+    expect(parseError({ cursor: 'junk' })).toBe('Invalid cursor');
+  });
+
+  it('only takes the kind of cursor that matches the listing', () => {
+    const position = encodeCursor({ capturedAt: '2026-10-01T09:00:00.000Z', id: 'a' });
+    const offset = encodeCursor({ offset: 10 });
+
+    expect(parseError({ cursor: offset })).toBe('Invalid cursor');
+    expect(parseError({ search: 'sum', cursor: position })).toBe('Invalid cursor');
+    expect(parseError({ search: 'sum', cursor: offset })).toBeNull();
+  });
+});
+
+describe('listSessions', () => {
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await initDatabase();
+    insertThread('s1', '2026-10-01T09:00:00.000Z', thread('Sum the invoices in column B', 'The sum is 412.'));
+    insertThread('s2', '2026-10-02T09:00:00.000Z', thread('Sum the refunds in column C', 'The sum is 38.'));
+    // Same time as s4, ordered by id
+    insertThread('s3', '2026-10-03T09:00:00.000Z', thread('Chart revenue by region', 'Added a chart.'));
+    insertThread('s4', '2026-10-03T09:00:00.000Z', thread('Sum the orders in column D', 'The sum is 1,284.'));
+    insertThread('s5', '2026-10-04T09:00:00.000Z', thread('Format the header row', 'Made it bold.'), {
+      workbook_name: 'Sales.xlsx',
+    });
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  it('pages through every session once, newest first', () => {
+    expect(listAll({ limit: '2' })).toEqual([['s5', 's4'], ['s3', 's2'], ['s1']]);
+    expect(listAll({ limit: '2', sort: 'oldest' })).toEqual([['s1', 's2'], ['s3', 's4'], ['s5']]);
+  });
+
+  it('counts every matching session on each page', () => {
+    const first = list({ limit: '2', workbook: 'Budget.xlsx' });
+    const second = list({ limit: '2', workbook: 'Budget.xlsx', cursor: first.nextCursor });
+
+    expect([first.total, second.total]).toEqual([4, 4]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('keeps its place when sessions are added or removed between pages', () => {
+    const first = list({ limit: '2' });
+
+    insertThread('s6', '2026-10-05T09:00:00.000Z', thread('Freeze the top row', 'Froze row 1.'));
+    deleteSession('s5');
+    const second = list({ limit: '2', cursor: first.nextCursor });
+
+    expect(first.sessions.map(s => s.id)).toEqual(['s5', 's4']);
+    expect(second.sessions.map(s => s.id)).toEqual(['s3', 's2']);
+  });
+
+  it('pages search results by offset in rank order', () => {
+    const pages = listAll({ search: 'sum', limit: '2' });
+
+    expect(pages.map(page => page.length)).toEqual([2, 1]);
+    expect(pages.flat().sort()).toEqual(['s1', 's2', 's4']);
+    expect(listAll({ search: 'sum', sort: 'oldest', limit: '2' })).toEqual([['s1', 's2'], ['s4']]);
+  });
+
+  it('lists only the given ids, or all but them', () => {
+    expect(list({ ids: 's1,s3' }).sessions.map(s => s.id)).toEqual(['s3', 's1']);
+    expect(list({ ids: '' })).toMatchObject({ sessions: [], total: 0 });
+    expect(list({ excludeIds: 's1,s3,s6' }).sessions.map(s => s.id)).toEqual(['s4', 's2']);
+    expect(list({ search: 'sum', excludeIds: 's4' }).sessions.map(s => s.id).sort()).toEqual(['s1', 's2']);
+  });
+});
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { closeDatabase, flushDatabase, getDbPath, getSessionMessages, getSessionSummary, initDatabase } from '../src/storage';
+import { removeUserData } from './electron';
+import { insertThread, thread } from './sessions';
+
+vi.mock('electron', () => import('./electron'));
+
+// Session ids in sessions.db as it is on disk
+async function storedIds(): Promise<string[]> {
+  const SQL = await initSqlJs();
+  const stored: Database = new SQL.Database(fs.readFileSync(getDbPath()));
+  const result = stored.exec('SELECT id FROM sessions ORDER BY id');
+  stored.close();
+  return result.length ? result[0].values.map(row => String(row[0])) : [];
+}
+
+describe('persistence', () => {
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fs.mkdirSync(path.dirname(getDbPath()), { recursive: true });
+    fs.writeFileSync(`${getDbPath()}.tmp`, 'half-written');
+    await initDatabase();
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    flushDatabase();
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  it('removes a temp file left by an interrupted write on start', () => {
+    expect(fs.existsSync(`${getDbPath()}.tmp`)).toBe(false);
+  });
+
+  it('writes changes once they have settled for a second', async () => {
+    insertThread('settled', '2026-10-01T09:00:00.000Z', thread('Sum column B', 'Done, 412.'));
+
+    vi.advanceTimersByTime(999);
+    expect(await storedIds()).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    expect(await storedIds()).toEqual(['settled']);
+  });
+
+  it('writes at least every ten seconds while changes keep coming', async () => {
+    for (let i = 0; i < 19; i++) {
+      insertThread(`busy-${i}`, '2026-10-01T10:00:00.000Z', thread('Keep going'));
+      vi.advanceTimersByTime(500);
+    }
+    expect(await storedIds()).not.toContain('busy-0');
+
+    insertThread('busy-19', '2026-10-01T10:00:00.000Z', thread('Keep going'));
+    vi.advanceTimersByTime(500);
+    expect(await storedIds()).toContain('busy-19');
+  });
+
+  it('writes pending changes right away on flush', async () => {
+    insertThread('flushed', '2026-10-01T11:00:00.000Z', thread('Chart sales'));
+
+    flushDatabase();
+
+    expect(await storedIds()).toContain('flushed');
+    expect(fs.existsSync(`${getDbPath()}.tmp`)).toBe(false);
+  });
+
+  it('keeps the last good file and retries when a write fails', async () => {
+    insertThread('retried', '2026-10-01T12:00:00.000Z', thread('Make a pivot'));
+    fs.mkdirSync(`${getDbPath()}.tmp`);
+
+    vi.advanceTimersByTime(1000);
+    expect(console.error).toHaveBeenCalledWith('[Storage] Save failed, will retry:', expect.any(Error));
+    expect(await storedIds()).not.toContain('retried');
+    expect(await storedIds()).toContain('flushed');
+
+    fs.rmdirSync(`${getDbPath()}.tmp`);
+    vi.advanceTimersByTime(1000);
+    expect(await storedIds()).toContain('retried');
+  });
+
+  it('rolls back every row of a write that fails part way', async () => {
+    insertThread('half', '2026-10-01T13:00:00.000Z', [
+      { role: 'user', content: 'Sum column C' },
+      { role: 'assistant', content: null as unknown as string },
+    ]);
+
+    expect(console.error).toHaveBeenCalledWith('[Storage] Insert failed:', expect.anything());
+    expect(getSessionSummary('half')).toBeNull();
+    expect(getSessionMessages('half')).toEqual([]);
+    flushDatabase();
+    expect(await storedIds()).not.toContain('half');
+  });
+
+  it('flushes when the database is closed', async () => {
+    insertThread('closing', '2026-10-01T14:00:00.000Z', thread('Last one'));
+
+    closeDatabase();
+
+    expect(await storedIds()).toContain('closing');
+    vi.useRealTimers();
+    await initDatabase();
+  });
+});
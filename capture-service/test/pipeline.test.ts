@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createReplaySource } from '../src/replaySource';
+import { startUICapture, stopUICapture } from '../src/uiCapture';
+import { closeDatabase, getSessionMessages, getSessionsByWorkbook, initDatabase } from '../src/storage';
+import { removeUserData } from './electron';
+import { getFixtureDir } from './fixtures';
+
+vi.mock('electron', () => import('./electron'));
+
+const POLL_MS = 1000;
+
+// Play a fixture through the replay source, one snapshot per poll, and the
+// whole capture pipeline (filters, redaction, settling, thread boundaries,
+// merging) into a fresh database
+async function replayIntoStorage(name: string, polls: number): Promise<void> {
+  startUICapture(createReplaySource(getFixtureDir(name), { speed: 0 }), POLL_MS);
+  await vi.advanceTimersByTimeAsync(POLL_MS * (polls + 1));
+  stopUICapture();
+}
+
+describe('capture pipeline', () => {
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'] });
+    await initDatabase();
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  it('stores a recorded session as two threads, filtered and redacted', async () => {
+    await replayIntoStorage('pipeline/two-threads', 10);
+
+    const sessions = getSessionsByWorkbook('workbook-c27e90d4');
+    expect(sessions).toHaveLength(2);
+
+    const threads = sessions
+      .map(session => getSessionMessages(session.id).map(m => ({
+        role: m.role,
+        content: m.content,
+        cell_context: m.cell_context,
+      })))
+      .sort((a, b) => b[0].content.length - a[0].content.length);
+
+    expect(threads[0]).toEqual([
+      {
+        role: 'user',
+        content: 'Check the totals in this range against the invoice list.',
+        cell_context: 'B2:D14',
+      },
+      {
+        role: 'assistant',
+        content: 'The totals in B2:D14 match the invoice list except row 9, which is 120.00 short. ' +
+          'I left a note in E9; send questions to [email].',
+        cell_context: null,
+      },
+    ]);
+    expect(threads[1]).toEqual([
+      { role: 'user', content: 'Make a chart of revenue by region.', cell_context: null },
+      {
+        role: 'assistant',
+        content: 'Added a clustered column chart of revenue by region on the Dashboard sheet.',
+        cell_context: null,
+      },
+    ]);
+  });
+
+  it('splits the thread when a new chat shows only the panel\'s buttons and suggestions', async () => {
+    await replayIntoStorage('pipeline/noisy-reset', 8);
+
+    const sessions = getSessionsByWorkbook('workbook-51be7f02');
+    expect(sessions).toHaveLength(2);
+    const answers = sessions.map(session => getSessionMessages(session.id).map(m => m.content)[1]).sort();
+    expect(answers).toEqual([
+      'Returns by reason: damaged 41%, wrong size 33%, changed mind 26%. I added the table on a new Summary sheet.',
+      'Which columns hold the return reason and the order value?',
+    ]);
+  });
+
+  it('keeps the range selected with each user message', async () => {
+    await replayIntoStorage('pipeline/cell-context', 4);
+
+    const sessions = getSessionsByWorkbook('workbook-7a3f1c55');
+    expect(sessions).toHaveLength(1);
+    expect(getSessionMessages(sessions[0].id).map(m => [m.role, m.content, m.cell_context])).toEqual([
+      ['user', 'Highlight the duplicate customer IDs.', 'A2:A200'],
+      ['assistant', 'Highlighted 14 duplicate customer IDs in A2:A200 in light red.', null],
+      ['user', 'Add up the order amounts.', 'C2:C9'],
+      ['assistant', 'The order amounts in C2:C9 add up to 1,284.50.', null],
+    ]);
+  });
+});
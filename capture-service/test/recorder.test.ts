@@ -0,0 +1,58 @@
+import fs from 'fs';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getRecordingsRoot, recordSnapshot, startRecording, stopRecording } from '../src/recorder';
+import { RecordedSnapshot } from '../src/types';
+import { removeUserData } from './electron';
+
+vi.mock('electron', () => import('./electron'));
+
+function readRecording(): RecordedSnapshot[] {
+  const root = getRecordingsRoot();
+  const [folder] = fs.readdirSync(root);
+  return fs.readdirSync(path.join(root, folder))
+    .sort()
+    .map(name => JSON.parse(fs.readFileSync(path.join(root, folder, name), 'utf8')));
+}
+
+describe('recorder', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  it('records snapshots anonymised and redacted', () => {
+    startRecording();
+    recordSnapshot({
+      found: true,
+      windows: [{
+        workbookName: 'Payroll 2026.xlsx',
+        messages: [
+          { role: 'user', content: 'Email the summary to jane@example.com', y: 100, yEnd: 120 },
+          { role: 'assistant', content: 'Sent. I used =B2+1000000 for the total.', y: 140 },
+        ],
+        selections: [],
+      }],
+    });
+    recordSnapshot({
+      found: true,
+      messages: [{ role: 'user', content: 'Card 4111 1111 1111 1111', y: 100 }],
+      workbookName: 'Payroll 2026.xlsx',
+    });
+    stopRecording();
+
+    const [windowed, single] = readRecording().map(snapshot => snapshot.result);
+    expect(windowed.windows?.[0].workbookName).toMatch(/^workbook-[0-9a-f]{8}$/);
+    expect(windowed.windows?.[0].messages.map(m => m.content)).toEqual([
+      'Email the summary to [email]',
+      'Sent. I used =B2+1000000 for the total.',
+    ]);
+    expect(windowed.windows?.[0].messages[0].yEnd).toBe(120);
+    expect(single.messages?.map(m => m.content)).toEqual(['Card [card]']);
+    expect(single.workbookName).toBe(windowed.windows?.[0].workbookName);
+  });
+});
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  applyRedaction,
+  getRedactionRulesPath,
+  isValidCardNumber,
+  isValidIban,
+  loadRedactionRules,
+} from '../src/redaction';
+import { removeUserData } from './electron';
+
+vi.mock('electron', () => import('./electron'));
+
+// Detectors with the default rules (every built-in one masks) until a test
+// writes a rules file
+function redact(text: string): string | null {
+  return applyRedaction(text).content;
+}
+
+function detectorsFound(text: string): string[] {
+  return applyRedaction(text).matches.map(match => match.detector);
+}
+
+describe('checksums', () => {
+  it('accepts card numbers that pass Luhn', () => {
+    expect(isValidCardNumber('4111 1111 1111 1111')).toBe(true);
+    expect(isValidCardNumber('5500-0000-0000-0004')).toBe(true);
+  });
+
+  it('rejects card numbers that fail Luhn or have the wrong length', () => {
+    expect(isValidCardNumber('4111 1111 1111 1112')).toBe(false);
+    expect(isValidCardNumber('411111111111')).toBe(false);
+  });
+
+  it('accepts IBANs that pass mod-97', () => {
+    expect(isValidIban('GB82 WEST 1234 5698 7654 32')).toBe(true);
+    expect(isValidIban('DE89370400440532013000')).toBe(true);
+  });
+
+  it('rejects IBANs that fail mod-97', () => {
+    expect(isValidIban('GB82 WEST 1234 5698 7654 33')).toBe(false);
+    expect(isValidIban('DE89370400440532013001')).toBe(false);
+  });
+});
+
+describe('built-in detectors', () => {
+  it('masks emails', () => {
+    expect(redact('Send it to jane.doe+finance@example.co.uk please')).toBe('Send it to [email] please');
+  });
+
+  it('masks API keys', () => {
+    expect(redact('export KEY=sk-ant-REDACTED')).toBe('export KEY=[api-key]');
+  });
+
+  it('masks card numbers that pass the checksum only', () => {
+    expect(redact('Card 4111 1111 1111 1111 on file')).toBe('Card [card] on file');
+    expect(redact('Card 4111 1111 1111 1112 on file')).toBe('Card 4111 1111 1111 1112 on file');
+  });
+
+  it('masks IBANs that pass the checksum only', () => {
+    expect(redact('Pay GB82 WEST 1234 5698 7654 32 today')).toBe('Pay [iban] today');
+    expect(redact('Pay GB82 WEST 1234 5698 7654 33 today')).toBe('Pay GB82 WEST 1234 5698 7654 33 today');
+  });
+
+  it('masks international and North American phone numbers', () => {
+    expect(redact('Call +44 20 7946 0958 after 5')).toBe('Call [phone] after 5');
+    expect(redact('Call +1 415-555-0132')).toBe('Call [phone]');
+    expect(redact('Mobile (work) +44 7700 900123')).toBe('Mobile (work) [phone]');
+    expect(redact('Office: (415) 555-0132')).toBe('Office: [phone]');
+    expect(redact('Office: 415.555.0132')).toBe('Office: [phone]');
+  });
+
+  it('leaves numbers in formulas alone', () => {
+    for (const formula of [
+      '=B2+1000000',
+      '=SUM(A1:A10)+2500000',
+      '=A1+100 200 300',
+      '=SUM(A1:A10) + 2500000',
+      '=$B$2 +1000000',
+      '=B2*+1000000',
+      '=IF(C3>0,C3-100-200-3000,0)',
+    ]) {
+      expect(redact(formula), formula).toBe(formula);
+    }
+  });
+
+  it('leaves plain numbers alone', () => {
+    for (const text of [
+      'Revenue grew to 1000000 in 2024',
+      'Row 42 holds 1234 5678 9012 3456',
+      'Invoice 2024-01-15 for 12.50',
+      'The range has 1048576 rows',
+    ]) {
+      expect(detectorsFound(text), text).toEqual([]);
+    }
+  });
+});
+
+describe('rules file', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  it('adds a hash key to a rules file without one and keeps using it', () => {
+    const rulesPath = getRedactionRulesPath();
+    fs.writeFileSync(rulesPath, JSON.stringify({ enabled: true, detectors: { email: 'hash' }, custom: [] }));
+
+    loadRedactionRules();
+    const hashed = redact('mail jane@example.com');
+    const written = JSON.parse(fs.readFileSync(rulesPath, 'utf8'));
+    expect(written.hashKey).toMatch(/^[0-9a-f]{64}$/);
+    expect(written.detectors).toEqual({ email: 'hash' });
+
+    loadRedactionRules();
+    expect(redact('mail jane@example.com')).toBe(hashed);
+    expect(JSON.parse(fs.readFileSync(rulesPath, 'utf8')).hashKey).toBe(written.hashKey);
+  });
+
+  it('drops the message for a drop detector', () => {
+    fs.writeFileSync(
+      getRedactionRulesPath(),
+      JSON.stringify({ enabled: true, detectors: { card: 'drop' }, custom: [], hashKey: 'a'.repeat(64) })
+    );
+
+    loadRedactionRules();
+    expect(redact('Card 4111 1111 1111 1111')).toBeNull();
+    expect(redact('No card here')).toBe('No card here');
+  });
+});
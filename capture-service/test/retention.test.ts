@@ -0,0 +1,251 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { loadConfig, updateConfig } from '../src/config';
+import {
+  checkRetention,
+  getLastRetentionReport,
+  parseRetentionPolicyQuery,
+  planRetention,
+  runRetention,
+} from '../src/retention';
+import { closeDatabase, getSessionCount, getSessionSummary, initDatabase, updateSessionMeta } from '../src/storage';
+import { RetentionCandidate, RetentionPlan, RetentionPolicy } from '../src/types';
+import { removeUserData } from './electron';
+import { insertThread, thread } from './sessions';
+
+vi.mock('electron', () => import('./electron'));
+
+const NOW = Date.parse('2026-10-19T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+const NO_LIMITS: RetentionPolicy = {
+  maxAgeDays: null,
+  maxSessions: null,
+  maxDatabaseMB: null,
+  keepStarred: true,
+  keepSaved: true,
+};
+
+function daysAgo(days: number): string {
+  return new Date(NOW - days * DAY_MS).toISOString();
+}
+
+// A live session captured the given number of days before NOW, 1 MB in size
+function candidate(id: string, age: number, overrides: Partial<RetentionCandidate> = {}): RetentionCandidate {
+  return {
+    id,
+    title: `Thread ${id}`,
+    captured_at: daysAgo(age),
+    deleted_at: null,
+    starred: false,
+    saved: false,
+    bytes: MB,
+    ...overrides,
+  };
+}
+
+function plan(policy: Partial<RetentionPolicy>, candidates: RetentionCandidate[], databaseBytes = 0): RetentionPlan {
+  return planRetention({ ...NO_LIMITS, ...policy }, candidates, databaseBytes, NOW);
+}
+
+function removed(result: RetentionPlan): string[] {
+  return result.removals.map(r => `${r.id}:${r.reason}`);
+}
+
+describe('planRetention', () => {
+  it('removes nothing without limits', () => {
+    const result = plan({}, [candidate('a', 900), candidate('b', 1)], 50 * MB);
+
+    expect(result.removals).toEqual([]);
+    expect(result.freed_bytes).toBe(0);
+  });
+
+  describe('max age', () => {
+    it('removes live sessions captured before the cutoff', () => {
+      expect(removed(plan({ maxAgeDays: 30 }, [
+        candidate('new', 10),
+        candidate('old', 100),
+        candidate('older', 40),
+      ]))).toEqual(['old:age', 'older:age']);
+    });
+
+    it('keeps a session captured right at the cutoff', () => {
+      expect(removed(plan({ maxAgeDays: 30 }, [candidate('edge', 30), candidate('past', 30.001)]))).toEqual(['past:age']);
+    });
+
+    it('leaves the trash to the trash purge', () => {
+      expect(removed(plan({ maxAgeDays: 30 }, [candidate('trashed', 100, { deleted_at: daysAgo(1) })]))).toEqual([]);
+    });
+
+    it('spares starred and saved sessions unless told not to', () => {
+      const candidates = [
+        candidate('starred', 100, { starred: true }),
+        candidate('saved', 90, { saved: true }),
+        candidate('plain', 80),
+      ];
+
+      expect(removed(plan({ maxAgeDays: 30 }, candidates))).toEqual(['plain:age']);
+      expect(removed(plan({ maxAgeDays: 30, keepStarred: false }, candidates))).toEqual(['starred:age', 'plain:age']);
+      expect(removed(plan({ maxAgeDays: 30, keepSaved: false }, candidates))).toEqual(['saved:age', 'plain:age']);
+    });
+  });
+
+  describe('max sessions', () => {
+    it('removes the oldest live sessions over the limit', () => {
+      expect(removed(plan({ maxSessions: 3 }, [
+        candidate('c', 3),
+        candidate('a', 5),
+        candidate('e', 1),
+        candidate('b', 4),
+        candidate('d', 2),
+      ]))).toEqual(['a:count', 'b:count']);
+    });
+
+    it('counts kept sessions towards the limit but never removes them', () => {
+      expect(removed(plan({ maxSessions: 2 }, [
+        candidate('starred', 4, { starred: true }),
+        candidate('b', 3),
+        candidate('c', 2),
+        candidate('d', 1),
+      ]))).toEqual(['b:count', 'c:count']);
+    });
+
+    it('removes no more than needed after the age limit', () => {
+      expect(removed(plan({ maxAgeDays: 30, maxSessions: 3 }, [
+        candidate('ancient', 60),
+        candidate('b', 4),
+        candidate('c', 3),
+        candidate('d', 2),
+        candidate('e', 1),
+      ]))).toEqual(['ancient:age', 'b:count']);
+    });
+
+    it('does not count the trash', () => {
+      expect(removed(plan({ maxSessions: 2 }, [
+        candidate('trashed', 5, { deleted_at: daysAgo(1) }),
+        candidate('b', 4),
+        candidate('c', 3),
+      ]))).toEqual([]);
+    });
+
+    it('removes what it can when kept sessions alone exceed the limit', () => {
+      expect(removed(plan({ maxSessions: 1 }, [
+        candidate('starred', 3, { starred: true }),
+        candidate('saved', 2, { saved: true }),
+        candidate('plain', 1),
+      ]))).toEqual(['plain:count']);
+    });
+  });
+
+  describe('max database size', () => {
+    it('takes the trash first, in the order it was deleted, then the oldest live sessions', () => {
+      const candidates = [
+        candidate('live-old', 50),
+        candidate('live-new', 1),
+        candidate('trashed-first', 5, { deleted_at: daysAgo(20) }),
+        candidate('trashed-later', 40, { deleted_at: daysAgo(2) }),
+      ];
+
+      expect(removed(plan({ maxDatabaseMB: 4 }, candidates, 5 * MB))).toEqual(['trashed-first:size']);
+      expect(removed(plan({ maxDatabaseMB: 3 }, candidates, 5 * MB))).toEqual(['trashed-later:size', 'trashed-first:size']);
+      expect(removed(plan({ maxDatabaseMB: 2 }, candidates, 5 * MB)))
+        .toEqual(['live-old:size', 'trashed-later:size', 'trashed-first:size']);
+    });
+
+    it('stops as soon as the database fits', () => {
+      expect(removed(plan({ maxDatabaseMB: 4 }, [
+        candidate('a', 3, { bytes: 0.5 * MB }),
+        candidate('b', 2, { bytes: 0.5 * MB }),
+        candidate('c', 1, { bytes: 0.5 * MB }),
+      ], 5 * MB))).toEqual(['a:size', 'b:size']);
+    });
+
+    it('counts space freed by the other limits', () => {
+      expect(removed(plan({ maxAgeDays: 30, maxDatabaseMB: 3 }, [
+        candidate('old', 60, { bytes: 2 * MB }),
+        candidate('b', 2),
+        candidate('c', 1),
+      ], 5 * MB))).toEqual(['old:age']);
+    });
+
+    it('spares kept live sessions but not kept ones in the trash', () => {
+      expect(removed(plan({ maxDatabaseMB: 1 }, [
+        candidate('starred', 10, { starred: true }),
+        candidate('saved-trashed', 9, { saved: true, deleted_at: daysAgo(1) }),
+        candidate('plain', 1),
+      ], 3 * MB))).toEqual(['saved-trashed:size', 'plain:size']);
+    });
+  });
+
+  it('reports removals oldest first with what they free', () => {
+    const result = plan({ maxAgeDays: 30, maxSessions: 1 }, [
+      candidate('new', 1, { bytes: 100 }),
+      candidate('mid', 10, { bytes: 200 }),
+      candidate('old', 60, { bytes: 300 }),
+    ], 1000);
+
+    expect(result).toEqual({
+      policy: { ...NO_LIMITS, maxAgeDays: 30, maxSessions: 1 },
+      removals: [
+        { id: 'old', title: 'Thread old', captured_at: daysAgo(60), reason: 'age', bytes: 300 },
+        { id: 'mid', title: 'Thread mid', captured_at: daysAgo(10), reason: 'count', bytes: 200 },
+      ],
+      database_bytes: 1000,
+      freed_bytes: 500,
+    });
+  });
+});
+
+describe('retention runs', () => {
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    loadConfig();
+    await initDatabase();
+    insertThread('oldest', '2026-10-01T09:00:00.000Z', thread('Chart monthly sales', 'Added a chart.'));
+    insertThread('older', '2026-10-02T09:00:00.000Z', thread('Pivot revenue by region', 'Created a PivotTable.'));
+    insertThread('old', '2026-10-03T09:00:00.000Z', thread('Format the header row', 'Made it bold.'));
+    insertThread('newest', '2026-10-04T09:00:00.000Z', thread('Freeze the top row', 'Froze row 1.'));
+    updateSessionMeta('oldest', { starred: true });
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  it('reads preview overrides on top of the saved policy', () => {
+    updateConfig({ retentionMaxAgeDays: 90 });
+
+    expect(parseRetentionPolicyQuery({ maxSessions: '10', keepStarred: 'false' })).toEqual({
+      policy: { maxAgeDays: 90, maxSessions: 10, maxDatabaseMB: null, keepStarred: false, keepSaved: true },
+    });
+    expect(parseRetentionPolicyQuery({ maxAgeDays: '' })).toMatchObject({ policy: { maxAgeDays: null } });
+    expect(parseRetentionPolicyQuery({ maxSessions: '0' })).toEqual({
+      error: 'maxSessions must be empty or an integer between 1 and 1000000',
+    });
+    expect(parseRetentionPolicyQuery({ keepSaved: 'no' })).toEqual({ error: 'keepSaved must be true or false' });
+
+    updateConfig({ retentionMaxAgeDays: null });
+  });
+
+  it('does not run while retention is off', () => {
+    updateConfig({ retentionMaxSessions: 2 });
+
+    checkRetention();
+
+    expect(getSessionCount()).toBe(4);
+    expect(getLastRetentionReport()).toBeNull();
+  });
+
+  it('purges what the saved policy removes and reports it', () => {
+    const report = runRetention();
+
+    expect(report.removals.map(r => r.id)).toEqual(['older', 'old']);
+    expect(getSessionSummary('older')).toBeNull();
+    expect(getSessionSummary('old')).toBeNull();
+    expect(getSessionSummary('oldest')?.starred).toBe(true);
+    expect(getSessionCount()).toBe(2);
+    expect(getLastRetentionReport()).toEqual(report);
+  });
+});
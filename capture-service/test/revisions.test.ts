@@ -0,0 +1,118 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  closeDatabase,
+  getSessionMessages,
+  getSessionRevision,
+  getSessionRevisions,
+  initDatabase,
+  restoreSessionRevision,
+  searchSessions,
+  updateSession,
+} from '../src/storage';
+import { removeUserData } from './electron';
+import { insertThread, makeSession, thread } from './sessions';
+
+vi.mock('electron', () => import('./electron'));
+
+function revisionText(revision: number): string[] | undefined {
+  return getSessionRevision('edited', revision)?.messages.map(m => m.content);
+}
+
+describe('revisions', () => {
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await initDatabase();
+
+    insertThread('edited', '2026-10-01T09:00:00.000Z', thread('Chart sales by month', 'Working on it'));
+    updateSession(
+      makeSession('edited', '2026-10-01T09:01:00.000Z'),
+      thread('Chart sales by month', 'Added a line chart.', 'Make it a column chart', 'Changed it to columns.')
+    );
+    updateSession(
+      makeSession('edited', '2026-10-01T09:02:00.000Z'),
+      thread('Chart sales by month', 'Added a line chart.')
+    );
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  it('records what each change added, changed and removed', () => {
+    expect(getSessionRevisions('edited')).toEqual([
+      {
+        revision: 1,
+        created_at: '2026-10-01T09:00:00.000Z',
+        message_count: 2,
+        added: 2,
+        changed: 0,
+        removed: 0,
+        restored_from: null,
+      },
+      {
+        revision: 2,
+        created_at: '2026-10-01T09:01:00.000Z',
+        message_count: 4,
+        added: 2,
+        changed: 1,
+        removed: 0,
+        restored_from: null,
+      },
+      {
+        revision: 3,
+        created_at: '2026-10-01T09:02:00.000Z',
+        message_count: 2,
+        added: 0,
+        changed: 0,
+        removed: 2,
+        restored_from: null,
+      },
+    ]);
+  });
+
+  it('adds no revision when nothing changed', () => {
+    updateSession(makeSession('edited', '2026-10-01T09:03:00.000Z'), thread('Chart sales by month', 'Added a line chart.'));
+
+    expect(getSessionRevisions('edited')).toHaveLength(3);
+  });
+
+  it('rebuilds the thread as it was at each revision', () => {
+    expect(revisionText(1)).toEqual(['Chart sales by month', 'Working on it']);
+    expect(revisionText(2)).toEqual([
+      'Chart sales by month',
+      'Added a line chart.',
+      'Make it a column chart',
+      'Changed it to columns.',
+    ]);
+    expect(revisionText(3)).toEqual(['Chart sales by month', 'Added a line chart.']);
+  });
+
+  it('returns null for a revision or session that does not exist', () => {
+    expect(getSessionRevision('edited', 4)).toBeNull();
+    expect(getSessionRevision('edited', 0)).toBeNull();
+    expect(getSessionRevision('missing', 1)).toBeNull();
+  });
+
+  it('restores an earlier revision as a new one', () => {
+    expect(restoreSessionRevision('edited', 2)).toBe(true);
+
+    expect(getSessionMessages('edited').map(m => m.content)).toEqual(revisionText(2));
+    expect(getSessionRevisions('edited')[3]).toMatchObject({
+      revision: 4,
+      message_count: 4,
+      added: 2,
+      removed: 0,
+      restored_from: 2,
+    });
+    expect(revisionText(3)).toEqual(['Chart sales by month', 'Added a line chart.']);
+    expect(searchSessions('columns').map(s => s.id)).toEqual(['edited']);
+  });
+
+  it('refuses to restore a revision or session that does not exist', () => {
+    expect(restoreSessionRevision('edited', 9)).toBe(false);
+    expect(restoreSessionRevision('missing', 1)).toBe(false);
+    expect(getSessionRevisions('edited')).toHaveLength(4);
+  });
+});
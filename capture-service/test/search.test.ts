@@ -0,0 +1,80 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { buildMatchQuery, SNIPPET_END, SNIPPET_START } from '../src/search';
+import { closeDatabase, deleteSession, initDatabase, searchSessions, updateSessionMeta } from '../src/storage';
+import { removeUserData } from './electron';
+import { insertThread, thread } from './sessions';
+
+vi.mock('electron', () => import('./electron'));
+
+describe('buildMatchQuery', () => {
+  it('turns every word into a prefix term', () => {
+    expect(buildMatchQuery('vlook form')).toBe('vlook* form*');
+  });
+
+  it('drops FTS syntax and punctuation', () => {
+    expect(buildMatchQuery('"sum" -col (B:B) NEAR/2')).toBe('sum* col* B* B* NEAR* 2*');
+  });
+
+  it('keeps letters and digits of any script', () => {
+    expect(buildMatchQuery('Übersicht 2025')).toBe('Übersicht* 2025*');
+  });
+
+  it('returns null when there is nothing to search for', () => {
+    expect(buildMatchQuery('')).toBeNull();
+    expect(buildMatchQuery(' -"()* ')).toBeNull();
+  });
+});
+
+describe('searchSessions', () => {
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await initDatabase();
+    insertThread('lookup-once', '2026-10-01T09:00:00.000Z', thread(
+      'Find the price for each SKU',
+      'I added a VLOOKUP formula in column C that reads the price list.'
+    ));
+    insertThread('lookup-often', '2026-10-02T09:00:00.000Z', thread(
+      'Why does VLOOKUP return #N/A?',
+      'VLOOKUP returns #N/A when the key is missing; wrap the VLOOKUP in IFERROR or use XLOOKUP.'
+    ));
+    insertThread('pivot', '2026-10-03T09:00:00.000Z', thread(
+      'Make a pivot of revenue by region',
+      'Created a PivotTable on a new sheet.'
+    ));
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  it('finds words by prefix in any message', () => {
+    expect(searchSessions('vlook').map(s => s.id).sort()).toEqual(['lookup-often', 'lookup-once']);
+    expect(searchSessions('revenue region').map(s => s.id)).toEqual(['pivot']);
+  });
+
+  it('ranks the session that mentions the term most first', () => {
+    expect(searchSessions('vlookup').map(s => s.id)).toEqual(['lookup-often', 'lookup-once']);
+  });
+
+  it('returns a snippet with the matches highlighted', () => {
+    const [result] = searchSessions('pivottable');
+
+    expect(result.snippet).toContain(`${SNIPPET_START}PivotTable${SNIPPET_END}`);
+  });
+
+  it('returns nothing for no match or an empty query', () => {
+    expect(searchSessions('sparkline')).toEqual([]);
+    expect(searchSessions('"()"')).toEqual([]);
+  });
+
+  it('applies the list filters and leaves out the trash', () => {
+    updateSessionMeta('lookup-once', { starred: true });
+    expect(searchSessions('vlookup', { starred: true }).map(s => s.id)).toEqual(['lookup-once']);
+
+    deleteSession('lookup-often');
+    expect(searchSessions('vlookup').map(s => s.id)).toEqual(['lookup-once']);
+    expect(searchSessions('vlookup', { deleted: true }).map(s => s.id)).toEqual(['lookup-often']);
+  });
+});
@@ -0,0 +1,36 @@
+import { insertSession } from '../src/storage';
+import { CapturedSession, Message } from '../src/types';
+
+// Stored sessions for storage tests: a thread of alternating user and
+// assistant messages, captured at the given time
+
+export function makeSession(id: string, capturedAt: string, overrides: Partial<CapturedSession> = {}): CapturedSession {
+  return {
+    id,
+    workbook_name: 'Budget.xlsx',
+    captured_at: capturedAt,
+    request_body: '',
+    response_body: '',
+    model: null,
+    input_tokens: null,
+    output_tokens: null,
+    user_prompt: null,
+    assistant_response: null,
+    ...overrides,
+  };
+}
+
+export function thread(...contents: string[]): Message[] {
+  return contents.map((content, index) => ({ role: index % 2 === 0 ? 'user' : 'assistant', content }));
+}
+
+export function insertThread(
+  id: string,
+  capturedAt: string,
+  messages: Message[],
+  overrides: Partial<CapturedSession> = {}
+): CapturedSession {
+  const session = makeSession(id, capturedAt, overrides);
+  insertSession(session, messages);
+  return session;
+}
@@ -0,0 +1,85 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  closeDatabase,
+  getSessionMessages,
+  initDatabase,
+  searchSessions,
+  updateSession,
+} from '../src/storage';
+import { removeUserData } from './electron';
+import { insertThread, makeSession, thread } from './sessions';
+
+vi.mock('electron', () => import('./electron'));
+
+describe('storage', () => {
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await initDatabase();
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  describe('messages', () => {
+    it('stores each message of a thread as its own row, in order', () => {
+      insertThread('rows', '2026-10-01T09:00:00.000Z', [
+        { role: 'user', content: 'Total this range', cellContext: 'B2:B9' },
+        { role: 'assistant', content: 'The total is 412.' },
+      ]);
+
+      expect(getSessionMessages('rows').map(m => ({
+        ordinal: m.ordinal,
+        role: m.role,
+        content: m.content,
+        cell_context: m.cell_context,
+        first_seen_at: m.first_seen_at,
+      }))).toEqual([
+        { ordinal: 0, role: 'user', content: 'Total this range', cell_context: 'B2:B9', first_seen_at: '2026-10-01T09:00:00.000Z' },
+        { ordinal: 1, role: 'assistant', content: 'The total is 412.', cell_context: null, first_seen_at: '2026-10-01T09:00:00.000Z' },
+      ]);
+    });
+
+    it('appends new messages and keeps when the earlier ones were first seen', () => {
+      insertThread('growing', '2026-10-01T10:00:00.000Z', thread('Sum column B', 'Done, 412.'));
+
+      updateSession(
+        makeSession('growing', '2026-10-01T10:05:00.000Z'),
+        thread('Sum column B', 'Done, 412.', 'Now the average', 'The average is 51.5.')
+      );
+
+      const messages = getSessionMessages('growing');
+      expect(messages.map(m => m.content)).toEqual(['Sum column B', 'Done, 412.', 'Now the average', 'The average is 51.5.']);
+      expect(messages.map(m => m.first_seen_at)).toEqual([
+        '2026-10-01T10:00:00.000Z',
+        '2026-10-01T10:00:00.000Z',
+        '2026-10-01T10:05:00.000Z',
+        '2026-10-01T10:05:00.000Z',
+      ]);
+      expect(new Set(messages.map(m => m.id)).size).toBe(4);
+    });
+
+    it('rewrites changed messages in place and drops the ones past the end', () => {
+      insertThread('shrinking', '2026-10-01T11:00:00.000Z', thread('Chart sales', 'Working on', 'Extra', 'Extra reply'));
+      const [first] = getSessionMessages('shrinking');
+
+      updateSession(
+        makeSession('shrinking', '2026-10-01T11:01:00.000Z'),
+        thread('Chart sales', 'Added a column chart of quarterly sales.')
+      );
+
+      const messages = getSessionMessages('shrinking');
+      expect(messages.map(m => m.content)).toEqual(['Chart sales', 'Added a column chart of quarterly sales.']);
+      expect(messages[0]).toEqual(first);
+      expect(messages[1].first_seen_at).toBe('2026-10-01T11:00:00.000Z');
+      expect(messages[1].updated_at).toBe('2026-10-01T11:01:00.000Z');
+    });
+
+    it('keeps the full-text index in step with the messages', () => {
+      expect(searchSessions('quarterly').map(s => s.id)).toEqual(['shrinking']);
+      expect(searchSessions('extra')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { detectThreadBoundary, isSameMessage } from '../src/threadBoundary';
+import { loadFixture, visibleMessages } from './fixtures';
+
+describe('detectThreadBoundary', () => {
+  it('starts a new thread after the panel was reset, even when the new chat repeats a message', () => {
+    const [before, empty, after] = loadFixture('thread-boundary/panel-reset');
+    const panelWasReset = visibleMessages(empty).length === 0;
+
+    expect(panelWasReset).toBe(true);
+    expect(detectThreadBoundary(visibleMessages(before), visibleMessages(after), panelWasReset))
+      .toEqual({ newThread: true, reason: 'panel-reset' });
+  });
+
+  it('continues the thread when the same capture follows without a reset', () => {
+    const [before, , after] = loadFixture('thread-boundary/panel-reset');
+
+    expect(detectThreadBoundary(visibleMessages(before), visibleMessages(after), false))
+      .toEqual({ newThread: false, reason: null });
+  });
+
+  it('starts a new thread when nothing specific overlaps', () => {
+    const [before, after] = loadFixture('thread-boundary/no-overlap');
+
+    expect(detectThreadBoundary(visibleMessages(before), visibleMessages(after), false))
+      .toEqual({ newThread: true, reason: 'no-overlap' });
+  });
+
+  it('does not count short generic messages as overlap', () => {
+    const stored = [
+      { role: 'user' as const, content: 'Thanks!' },
+      { role: 'assistant' as const, content: 'You are welcome.' },
+    ];
+    const [, after] = loadFixture('thread-boundary/no-overlap');
+
+    expect(detectThreadBoundary(stored, visibleMessages(after), false).newThread).toBe(true);
+  });
+
+  it('continues the thread when the view is scrolled past its first messages', () => {
+    const [before, after] = loadFixture('thread-boundary/scrolled');
+
+    expect(visibleMessages(after)[0]).toEqual(visibleMessages(before)[3]);
+    expect(detectThreadBoundary(visibleMessages(before), visibleMessages(after), false))
+      .toEqual({ newThread: false, reason: null });
+  });
+
+  it('continues a thread of short messages that lines up with the end of the stored one', () => {
+    const [first, second, scrolled] = loadFixture('thread-boundary/short-messages');
+
+    expect(detectThreadBoundary(visibleMessages(first), visibleMessages(second), false))
+      .toEqual({ newThread: false, reason: null });
+    expect(detectThreadBoundary(visibleMessages(second), visibleMessages(scrolled), false))
+      .toEqual({ newThread: false, reason: null });
+  });
+
+  it('continues a short thread while the last reply is still streaming', () => {
+    const [first] = loadFixture('thread-boundary/short-messages');
+    const streaming = visibleMessages(first).slice(0, 2);
+    streaming[1] = { role: 'assistant', content: '41' };
+
+    expect(detectThreadBoundary(streaming, visibleMessages(first), false).newThread).toBe(false);
+  });
+
+  it('starts a new thread when short messages do not line up with the stored end', () => {
+    const [, second] = loadFixture('thread-boundary/short-messages');
+    const newChat = [
+      { role: 'user' as const, content: 'ok' },
+      { role: 'assistant' as const, content: 'Anything else?' },
+    ];
+
+    expect(detectThreadBoundary(visibleMessages(second), newChat, false))
+      .toEqual({ newThread: true, reason: 'no-overlap' });
+  });
+
+  it('never splits when nothing is stored yet', () => {
+    const [, , after] = loadFixture('thread-boundary/panel-reset');
+
+    expect(detectThreadBoundary([], visibleMessages(after), true))
+      .toEqual({ newThread: false, reason: null });
+  });
+});
+
+describe('isSameMessage', () => {
+  it('matches a streaming assistant message with its longer version', () => {
+    expect(isSameMessage(
+      { role: 'assistant', content: 'I created a Summary' },
+      { role: 'assistant', content: 'I created a Summary sheet  that totals each category.' }
+    )).toBe(true);
+  });
+
+  it('does not match user messages by prefix', () => {
+    expect(isSameMessage(
+      { role: 'user', content: 'Sum column B' },
+      { role: 'user', content: 'Sum column B for 2025 only' }
+    )).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { generateTitle } from '../src/titles';
+import {
+  closeDatabase,
+  getAllTags,
+  getSessionSummary,
+  initDatabase,
+  listSessions,
+  updateSession,
+  updateSessionMeta,
+} from '../src/storage';
+import { removeUserData } from './electron';
+import { insertThread, makeSession, thread } from './sessions';
+
+vi.mock('electron', () => import('./electron'));
+
+describe('generateTitle', () => {
+  it('joins the top keywords in reading order', () => {
+    expect(generateTitle(thread(
+      'Forecast quarterly revenue for the northern region',
+      'Revenue forecast for the northern region uses a linear trend on quarterly revenue.'
+    ))).toBe('Quarterly revenue northern region');
+  });
+
+  it('leaves out stopwords and cell references', () => {
+    expect(generateTitle(thread('Sum B2:B9 for me please', 'Done, the total is in B10.'))).toBe('Sum total');
+  });
+
+  it('falls back to the first prompt, then to a placeholder', () => {
+    expect(generateTitle(thread('ok', 'sure'))).toBe('ok');
+    expect(generateTitle([])).toBe('Untitled thread');
+  });
+
+  it('keeps titles to one short line', () => {
+    const title = generateTitle(thread(`Why ${'so '.repeat(40)}slow?\n\nAnd  how`));
+
+    expect(title.length).toBeLessThanOrEqual(60);
+    expect(title).not.toMatch(/\n|\s{2}/);
+  });
+});
+
+describe('session titles, stars and tags', () => {
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await initDatabase();
+    insertThread('chart', '2026-10-01T09:00:00.000Z', thread('Chart monthly sales', 'Added a line chart of monthly sales.'));
+    insertThread('pivot', '2026-10-02T09:00:00.000Z', thread('Pivot revenue by region', 'Created a PivotTable.'));
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  it('titles new threads and retitles them as they change', () => {
+    expect(getSessionSummary('chart')).toMatchObject({ title: 'Chart monthly sales line', title_source: 'auto' });
+
+    updateSession(makeSession('chart', '2026-10-01T09:05:00.000Z'), thread(
+      'Chart monthly sales',
+      'Added a line chart of monthly sales.',
+      'Add a trendline forecasting sales',
+      'Added a linear trendline forecasting sales.'
+    ));
+
+    expect(getSessionSummary('chart')?.title).toContain('trendline');
+  });
+
+  it('keeps a title the user set, until it is cleared', () => {
+    updateSessionMeta('chart', { title: 'Sales chart for the board' });
+    updateSession(makeSession('chart', '2026-10-01T09:10:00.000Z'), thread('Chart monthly sales', 'Done.'));
+
+    expect(getSessionSummary('chart')).toMatchObject({ title: 'Sales chart for the board', title_source: 'user' });
+
+    updateSessionMeta('chart', { title: null });
+
+    expect(getSessionSummary('chart')).toMatchObject({ title: 'Chart monthly sales', title_source: 'auto' });
+  });
+
+  it('stars and unstars a session', () => {
+    expect(updateSessionMeta('pivot', { starred: true })?.starred).toBe(true);
+    expect(listSessions({ starred: true, sort: 'newest', limit: 50, cursor: null }).sessions.map(s => s.id)).toEqual(['pivot']);
+
+    expect(updateSessionMeta('pivot', { starred: false })?.starred).toBe(false);
+  });
+
+  it('replaces the tags of a session and lists every tag in use', () => {
+    updateSessionMeta('chart', { tags: ['sales', 'board', 'sales'] });
+    updateSessionMeta('pivot', { tags: ['regions', 'sales'] });
+
+    expect(getSessionSummary('chart')?.tags.sort()).toEqual(['board', 'sales']);
+    expect(getAllTags()).toEqual(['board', 'regions', 'sales']);
+    expect(listSessions({ tags: ['sales', 'board'], sort: 'newest', limit: 50, cursor: null }).sessions.map(s => s.id))
+      .toEqual(['chart']);
+
+    updateSessionMeta('chart', { tags: [] });
+
+    expect(getSessionSummary('chart')?.tags).toEqual([]);
+    expect(getAllTags()).toEqual(['regions', 'sales']);
+  });
+
+  it('leaves fields that are not part of the change alone', () => {
+    updateSessionMeta('pivot', { starred: true, tags: ['regions'] });
+
+    expect(updateSessionMeta('pivot', { title: 'Revenue pivot' })).toMatchObject({
+      title: 'Revenue pivot',
+      starred: true,
+      tags: ['regions'],
+    });
+  });
+
+  it('returns null for a session that does not exist', () => {
+    expect(updateSessionMeta('missing', { starred: true })).toBeNull();
+  });
+});
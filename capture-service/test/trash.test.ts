@@ -0,0 +1,136 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ServiceEvent, subscribeServiceEvents } from '../src/events';
+import {
+  closeDatabase,
+  deleteSession,
+  getActiveSessionByWorkbook,
+  getSessionCount,
+  getSessionMessages,
+  getSessionRevisions,
+  getSessionSummary,
+  initDatabase,
+  listSessions,
+  purgeDeletedSessions,
+  purgeSession,
+  restoreSession,
+  searchSessions,
+} from '../src/storage';
+import { purgeExpiredTrash } from '../src/trash';
+import { removeUserData } from './electron';
+import { insertThread, thread } from './sessions';
+
+vi.mock('electron', () => import('./electron'));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function trashIds(): string[] {
+  return listSessions({ deleted: true, sort: 'newest', limit: 50, cursor: null }).sessions.map(s => s.id);
+}
+
+// Move a session to the trash as if on the given day
+function deleteOn(id: string, date: string): void {
+  vi.setSystemTime(new Date(date));
+  deleteSession(id);
+}
+
+describe('trash', () => {
+  const events: ServiceEvent[] = [];
+  let unsubscribe: () => void;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await initDatabase();
+    unsubscribe = subscribeServiceEvents(event => events.push(event));
+  });
+
+  afterEach(() => {
+    events.length = 0;
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    unsubscribe();
+    closeDatabase();
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  it('hides a deleted session everywhere but the trash', () => {
+    insertThread('binned', '2026-10-01T09:00:00.000Z', thread('Sum the invoices in column B', 'The sum is 412.'));
+    const count = getSessionCount();
+    events.length = 0;
+
+    expect(deleteSession('binned')).toBe(true);
+
+    expect(getSessionCount()).toBe(count - 1);
+    expect(getActiveSessionByWorkbook('Budget.xlsx')).toBeNull();
+    expect(searchSessions('invoices')).toEqual([]);
+    expect(trashIds()).toEqual(['binned']);
+    expect(getSessionSummary('binned')?.deleted_at).toEqual(expect.any(String));
+    expect(events).toEqual([{ type: 'session.deleted', id: 'binned' }]);
+  });
+
+  it('deletes a session only once', () => {
+    expect(deleteSession('binned')).toBe(false);
+    expect(deleteSession('missing')).toBe(false);
+    expect(events).toEqual([]);
+  });
+
+  it('restores a session with its messages', () => {
+    const restored = restoreSession('binned');
+
+    expect(restored).toMatchObject({ id: 'binned', deleted_at: null });
+    expect(trashIds()).toEqual([]);
+    expect(searchSessions('invoices').map(s => s.id)).toEqual(['binned']);
+    expect(getSessionMessages('binned')).toHaveLength(2);
+    expect(events).toEqual([{ type: 'session.restored', session: restored }]);
+    expect(restoreSession('binned')).toBeNull();
+  });
+
+  it('purges a session with its messages, revisions and index rows', () => {
+    expect(purgeSession('binned')).toBe(true);
+
+    expect(getSessionSummary('binned')).toBeNull();
+    expect(getSessionMessages('binned')).toEqual([]);
+    expect(getSessionRevisions('binned')).toEqual([]);
+    expect(searchSessions('invoices')).toEqual([]);
+    expect(events).toEqual([{ type: 'session.purged', id: 'binned' }]);
+    expect(purgeSession('binned')).toBe(false);
+  });
+
+  it('purges only sessions that went to the trash before the cutoff', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    insertThread('old', '2026-08-01T09:00:00.000Z', thread('Chart revenue by region', 'Added a chart.'));
+    insertThread('recent', '2026-08-02T09:00:00.000Z', thread('Format the header row', 'Made it bold.'));
+    insertThread('live', '2026-08-03T09:00:00.000Z', thread('Freeze the top row', 'Froze row 1.'));
+    deleteOn('old', '2026-09-01T12:00:00.000Z');
+    deleteOn('recent', '2026-10-01T12:00:00.000Z');
+
+    expect(purgeDeletedSessions('2026-09-15T00:00:00.000Z')).toBe(1);
+
+    expect(trashIds()).toEqual(['recent']);
+    expect(getSessionSummary('live')).not.toBeNull();
+  });
+
+  it('empties the whole trash without a cutoff', () => {
+    expect(purgeDeletedSessions()).toBe(1);
+
+    expect(trashIds()).toEqual([]);
+    expect(getSessionSummary('live')).not.toBeNull();
+  });
+
+  describe('purgeExpiredTrash', () => {
+    it('purges what has been in the trash longer than trashRetentionDays', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      insertThread('expired', '2026-08-01T09:00:00.000Z', thread('Sort by date', 'Sorted.'));
+      insertThread('kept', '2026-08-02T09:00:00.000Z', thread('Filter out blanks', 'Filtered.'));
+      deleteOn('expired', '2026-09-01T12:00:00.000Z');
+      deleteOn('kept', '2026-09-20T12:00:00.000Z');
+
+      vi.setSystemTime(new Date(Date.parse('2026-09-01T12:00:00.000Z') + 30 * DAY_MS + 1));
+
+      expect(purgeExpiredTrash()).toBe(1);
+      expect(trashIds()).toEqual(['kept']);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setOnSessionCaptured, startUICapture, stopUICapture } from '../src/uiCapture';
+import { closeDatabase, getSessionMessages, getSessionsByWorkbook, initDatabase } from '../src/storage';
+import { CaptureSource, CaptureWindow } from '../src/types';
+import { removeUserData } from './electron';
+
+vi.mock('electron', () => import('./electron'));
+
+const POLL_MS = 3000;
+// startUICapture polls once after a second, then every POLL_MS
+const FIRST_POLL_MS = 1000;
+
+// One Claude panel showing a question and (part of) its answer
+function panel(workbookName: string, answer: string, streaming?: boolean): CaptureWindow {
+  return {
+    workbookName,
+    messages: [
+      { role: 'user', content: 'What is the total of column B?', y: 100, yEnd: 118 },
+      { role: 'assistant', content: answer, y: 160 },
+    ],
+    selections: [],
+    ...(streaming === undefined ? {} : { streaming }),
+  };
+}
+
+// Returns the given panels one per poll, then keeps returning the last
+function scriptedSource(panels: CaptureWindow[]): CaptureSource {
+  let index = 0;
+  return {
+    name: 'scripted',
+    async capture() {
+      const window = panels[Math.min(index++, panels.length - 1)];
+      return { found: true, windows: [window] };
+    },
+  };
+}
+
+function storedAnswers(workbookName: string): string[] {
+  return getSessionsByWorkbook(workbookName).map(session => getSessionMessages(session.id)[1].content);
+}
+
+describe('stability window', () => {
+  const onCaptured = vi.fn();
+  let polls = 0;
+  let elapsed = 0;
+
+  async function poll(count = 1): Promise<void> {
+    for (let i = 0; i < count; i++) {
+      const next = polls === 0 ? FIRST_POLL_MS : polls * POLL_MS;
+      polls++;
+      await vi.advanceTimersByTimeAsync(next - elapsed);
+      elapsed = next;
+    }
+  }
+
+  function start(panels: CaptureWindow[]): void {
+    polls = 0;
+    elapsed = 0;
+    startUICapture(scriptedSource(panels), POLL_MS);
+  }
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await initDatabase();
+    setOnSessionCaptured(onCaptured);
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'] });
+    onCaptured.mockClear();
+  });
+
+  afterEach(() => {
+    stopUICapture();
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    vi.restoreAllMocks();
+    removeUserData();
+  });
+
+  it('writes a streaming response once, when it has finished', async () => {
+    start([
+      panel('streamed', 'The total', true),
+      panel('streamed', 'The total of column B', true),
+      panel('streamed', 'The total of column B is 412.', false),
+    ]);
+
+    await poll(2);
+    expect(storedAnswers('streamed')).toEqual([]);
+
+    await poll(3);
+    expect(storedAnswers('streamed')).toEqual(['The total of column B is 412.']);
+    expect(onCaptured).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for two identical polls when the source cannot tell whether it is streaming', async () => {
+    start([
+      panel('unknown', 'The total'),
+      panel('unknown', 'The total of column B is 412.'),
+    ]);
+
+    await poll(2);
+    expect(storedAnswers('unknown')).toEqual([]);
+
+    await poll();
+    expect(storedAnswers('unknown')).toEqual(['The total of column B is 412.']);
+    expect(onCaptured).toHaveBeenCalledTimes(1);
+  });
+
+  it('writes a response whose Stop button stays up after ten unchanged polls', async () => {
+    start([panel('stalled', 'The total of column B is 412.', true)]);
+
+    await poll(9);
+    expect(storedAnswers('stalled')).toEqual([]);
+
+    await poll();
+    expect(storedAnswers('stalled')).toEqual(['The total of column B is 412.']);
+    expect(onCaptured).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps a response that had not settled when capture stops', async () => {
+    start([panel('stopped', 'The total of column B', true)]);
+
+    await poll(2);
+    expect(storedAnswers('stopped')).toEqual([]);
+
+    stopUICapture();
+    expect(storedAnswers('stopped')).toEqual(['The total of column B']);
+  });
+});
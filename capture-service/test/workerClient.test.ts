@@ -0,0 +1,113 @@
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createWorkerClient, WorkerClient, WorkerOptions } from '../src/workerClient';
+
+const FAKE_WORKER = path.join(__dirname, 'fakeWorker.js');
+
+let client: WorkerClient | null = null;
+
+function createClient(options: Partial<WorkerOptions> = {}, args: string[] = []): WorkerClient {
+  client = createWorkerClient({
+    command: process.execPath,
+    args: [FAKE_WORKER, ...args],
+    name: 'FakeWorker',
+    requestTimeoutMs: 2000,
+    restartDelayMs: 50,
+    maxRestartDelayMs: 200,
+    ...options,
+  });
+  return client;
+}
+
+// Delays announced by "[FakeWorker] Restarting in <n>ms" log lines
+function restartDelays(log: ReturnType<typeof vi.spyOn>): number[] {
+  return log.mock.calls
+    .map(args => /Restarting in (\d+)ms/.exec(String(args[0]))?.[1])
+    .filter((delay): delay is string => delay !== undefined)
+    .map(Number);
+}
+
+describe('createWorkerClient', () => {
+  let log: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    client?.dispose();
+    client = null;
+    vi.restoreAllMocks();
+  });
+
+  it('matches responses to requests by id, whatever order they arrive in', async () => {
+    const worker = createClient();
+
+    const slow = worker.request('delayed', { value: 'slow', delayMs: 150 });
+    const fast = worker.request('delayed', { value: 'fast', delayMs: 10 });
+    const echo = worker.request('echo', { value: 42 });
+
+    expect(await Promise.all([slow, fast, echo])).toEqual(['slow', 'fast', 42]);
+  });
+
+  it('rejects with the error the worker reports', async () => {
+    const worker = createClient();
+
+    await expect(worker.request('fail', { message: 'No Excel window' })).rejects.toThrow('No Excel window');
+    expect(worker.isRunning()).toBe(true);
+  });
+
+  it('skips malformed lines and responses to unknown ids', async () => {
+    const worker = createClient();
+
+    expect(await worker.request('garbage', { value: 'kept' })).toBe('kept');
+    expect(await worker.request('echo', { value: 'still working' })).toBe('still working');
+  });
+
+  it('kills a worker that does not answer in time and starts a new one', async () => {
+    const worker = createClient({ requestTimeoutMs: 200 });
+    const firstPid = await worker.request<number>('pid');
+
+    await expect(worker.request('hang')).rejects.toThrow('timed out after 200ms');
+    expect(worker.isRunning()).toBe(false);
+    await expect(worker.request('echo', { value: 1 })).rejects.toThrow('is restarting');
+
+    await vi.waitFor(() => expect(worker.isRunning()).toBe(true), { timeout: 2000 });
+    const secondPid = await worker.request<number>('pid');
+    expect(secondPid).not.toBe(firstPid);
+  });
+
+  it('restarts a crashed worker', async () => {
+    const worker = createClient();
+    const firstPid = await worker.request<number>('pid');
+
+    await expect(worker.request('crash')).rejects.toThrow('exited (code 3');
+    expect(worker.isRunning()).toBe(false);
+
+    await vi.waitFor(() => expect(worker.isRunning()).toBe(true), { timeout: 2000 });
+    expect(await worker.request<number>('pid')).not.toBe(firstPid);
+    expect(restartDelays(log)).toEqual([50]);
+  });
+
+  it('backs off exponentially while the worker keeps crashing', async () => {
+    const worker = createClient({ restartDelayMs: 20, maxRestartDelayMs: 80 }, ['--exit-on-start']);
+
+    await expect(worker.request('echo', { value: 1 })).rejects.toThrow('exited (code 3');
+    await vi.waitFor(() => expect(restartDelays(log).length).toBeGreaterThanOrEqual(5), { timeout: 5000 });
+
+    expect(restartDelays(log).slice(0, 5)).toEqual([20, 40, 80, 80, 80]);
+  });
+
+  it('stops restarting once disposed', async () => {
+    const worker = createClient({}, ['--exit-on-start']);
+
+    await expect(worker.request('echo', { value: 1 })).rejects.toThrow();
+    worker.dispose();
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    expect(restartDelays(log)).toEqual([50]);
+    expect(worker.isRunning()).toBe(false);
+    await expect(worker.request('echo', { value: 1 })).rejects.toThrow('has been disposed');
+  });
+});
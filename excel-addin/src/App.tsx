@@ -1,36 +1,63 @@
 import React, { useState, useCallback } from 'react';
-import { Stack, initializeIcons } from '@fluentui/react';
+import { Stack, Text, DefaultButton, IconButton, initializeIcons } from '@fluentui/react';
 import { StatusBar } from './components/StatusBar';
-import { SearchBar } from './components/SearchBar';
+import { SearchBar, FilterMode } from './components/SearchBar';
 import { SessionList } from './components/SessionList';
 import { SessionDetail } from './components/SessionDetail';
 import { Settings } from './components/Settings';
+import { PairingPrompt } from './components/PairingPrompt';
+import { UndoToast } from './components/UndoToast';
+import { ConfirmDialog } from './components/ConfirmDialog';
 import { useSessions } from './hooks/useSessions';
+import { ExportFormat, SessionMetaChanges } from './types';
+import { exportSession } from './services/proxyApi';
+import { downloadFile } from './utils/download';
 
 // Initialize Fluent UI icons
 initializeIcons();
 
+// Permanent deletes wait for this confirmation
+type PendingConfirm = { kind: 'purge'; id: string } | { kind: 'emptyTrash' };
+
 export const App: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
-  const [filterMode, setFilterMode] = useState<'all' | 'saved' | 'unsaved'>('all');
+  const [filterMode, setFilterMode] = useState<FilterMode>('all');
+  // Set by clicking a tag on a session
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
   const [showDetail, setShowDetail] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  // Last session moved to the trash, offered for undo
+  const [undoSessionId, setUndoSessionId] = useState<string | null>(null);
+  const [pendingConfirm, setPendingConfirm] = useState<PendingConfirm | null>(null);
 
   const {
     proxyStatus,
     isConnecting,
+    needsPairing,
     sessions,
+    totalSessions,
+    hasMoreSessions,
+    isLoadingMore,
+    showTrash,
     savedSessionIds,
     selectedSession,
     selectedSessionId,
     isLoadingDetail,
     isLoading,
     error,
+    loadMoreSessions,
     selectSession,
     saveSession,
     deleteSession,
+    restoreSession,
+    purgeSession,
+    emptyTrash,
+    restoreRevision,
+    updateSessionMeta,
+    setListFilters,
     toggleCapturing,
     searchSessions,
+    pair,
   } = useSessions();
 
   const handleSearchChange = useCallback(
@@ -41,9 +68,34 @@ export const App: React.FC = () => {
     [searchSessions]
   );
 
-  const handleFilterChange = useCallback((mode: 'all' | 'saved' | 'unsaved') => {
-    setFilterMode(mode);
-  }, []);
+  // Every filter is applied by the service
+  const applyListFilters = useCallback(
+    (mode: FilterMode, tag: string | null) => {
+      setListFilters({
+        deleted: mode === 'trash' || undefined,
+        starred: mode === 'starred' || undefined,
+        saved: mode === 'saved' ? true : mode === 'unsaved' ? false : undefined,
+        tag: tag || undefined,
+      });
+    },
+    [setListFilters]
+  );
+
+  const handleFilterChange = useCallback(
+    (mode: FilterMode) => {
+      setFilterMode(mode);
+      applyListFilters(mode, tagFilter);
+    },
+    [applyListFilters, tagFilter]
+  );
+
+  const handleTagFilterChange = useCallback(
+    (tag: string | null) => {
+      setTagFilter(tag);
+      applyListFilters(filterMode, tag);
+    },
+    [applyListFilters, filterMode]
+  );
 
   const handleSelectSession = useCallback(
     (id: string) => {
@@ -69,10 +121,17 @@ export const App: React.FC = () => {
     [saveSession]
   );
 
+  // Live sessions go to the trash (with undo); sessions already in the
+  // trash are deleted for good after confirmation
   const handleDeleteSession = useCallback(
     async (id: string) => {
+      if (showTrash) {
+        setPendingConfirm({ kind: 'purge', id });
+        return;
+      }
       try {
         await deleteSession(id);
+        setUndoSessionId(id);
         if (showDetail && selectedSessionId === id) {
           setShowDetail(false);
         }
@@ -80,9 +139,91 @@ export const App: React.FC = () => {
         console.error('Failed to delete session:', err);
       }
     },
-    [deleteSession, showDetail, selectedSessionId]
+    [deleteSession, showTrash, showDetail, selectedSessionId]
+  );
+
+  const handleRestoreSession = useCallback(
+    async (id: string) => {
+      try {
+        await restoreSession(id);
+        if (showDetail && selectedSessionId === id) {
+          setShowDetail(false);
+        }
+      } catch (err) {
+        console.error('Failed to restore session:', err);
+      }
+    },
+    [restoreSession, showDetail, selectedSessionId]
+  );
+
+  const handleRestoreRevision = useCallback(
+    async (revision: number) => {
+      if (!selectedSessionId) return;
+      try {
+        await restoreRevision(selectedSessionId, revision);
+      } catch (err) {
+        console.error('Failed to restore revision:', err);
+      }
+    },
+    [restoreRevision, selectedSessionId]
+  );
+
+  const handleUpdateMeta = useCallback(
+    async (id: string, changes: SessionMetaChanges) => {
+      try {
+        await updateSessionMeta(id, changes);
+      } catch (err) {
+        console.error('Failed to update session:', err);
+        throw err;
+      }
+    },
+    [updateSessionMeta]
+  );
+
+  const handleExport = useCallback(
+    async (format: ExportFormat) => {
+      if (!selectedSessionId) return;
+      try {
+        const { blob, filename } = await exportSession(selectedSessionId, format);
+        downloadFile(blob, filename);
+      } catch (err) {
+        console.error('Failed to export session:', err);
+        throw err;
+      }
+    },
+    [selectedSessionId]
   );
 
+  const handleUndoDelete = useCallback(() => {
+    if (undoSessionId) {
+      restoreSession(undoSessionId).catch((err) =>
+        console.error('Failed to undo delete:', err)
+      );
+    }
+    setUndoSessionId(null);
+  }, [undoSessionId, restoreSession]);
+
+  const dismissUndo = useCallback(() => setUndoSessionId(null), []);
+
+  const handleConfirm = useCallback(async () => {
+    const confirmed = pendingConfirm;
+    setPendingConfirm(null);
+    if (!confirmed) return;
+
+    try {
+      if (confirmed.kind === 'purge') {
+        await purgeSession(confirmed.id);
+        if (showDetail && selectedSessionId === confirmed.id) {
+          setShowDetail(false);
+        }
+      } else {
+        await emptyTrash();
+      }
+    } catch (err) {
+      console.error('Failed to delete permanently:', err);
+    }
+  }, [pendingConfirm, purgeSession, emptyTrash, showDetail, selectedSessionId]);
+
   const handleToggleCapture = useCallback(
     async (enabled: boolean) => {
       try {
@@ -94,28 +235,20 @@ export const App: React.FC = () => {
     [toggleCapturing]
   );
 
-  // Filter sessions based on filter mode
-  const filteredSessions = sessions.filter((session) => {
-    if (filterMode === 'saved') {
-      return savedSessionIds.has(session.id);
-    }
-    if (filterMode === 'unsaved') {
-      return !savedSessionIds.has(session.id);
-    }
-    return true;
-  });
-
   return (
     <Stack styles={{ root: { height: '100vh', overflow: 'hidden' } }}>
       <StatusBar
         status={proxyStatus}
         isConnecting={isConnecting}
+        needsPairing={needsPairing}
         onToggleCapture={handleToggleCapture}
         onOpenSettings={() => setShowSettings(true)}
       />
 
       {showSettings ? (
         <Settings onClose={() => setShowSettings(false)} />
+      ) : needsPairing ? (
+        <PairingPrompt onPair={pair} />
       ) : showDetail ? (
         <SessionDetail
           session={selectedSession}
@@ -123,6 +256,16 @@ export const App: React.FC = () => {
           isSaved={selectedSessionId ? savedSessionIds.has(selectedSessionId) : false}
           onSave={() => selectedSessionId && handleSaveSession(selectedSessionId)}
           onDelete={() => selectedSessionId && handleDeleteSession(selectedSessionId)}
+          onRestore={() => selectedSessionId && handleRestoreSession(selectedSessionId)}
+          onRestoreRevision={handleRestoreRevision}
+          onUpdateMeta={(changes) =>
+            selectedSessionId ? handleUpdateMeta(selectedSessionId, changes) : Promise.resolve()
+          }
+          onTagClick={(tag) => {
+            handleCloseDetail();
+            handleTagFilterChange(tag);
+          }}
+          onExport={handleExport}
           onClose={handleCloseDetail}
         />
       ) : (
@@ -133,18 +276,84 @@ export const App: React.FC = () => {
             filterMode={filterMode}
             onFilterChange={handleFilterChange}
           />
+          {tagFilter && (
+            <Stack
+              horizontal
+              horizontalAlign="space-between"
+              verticalAlign="center"
+              styles={{ root: { padding: '2px 12px', borderBottom: '1px solid #edebe9' } }}
+            >
+              <Text variant="small" styles={{ root: { color: '#605e5c' } }}>
+                Tagged "{tagFilter}"
+              </Text>
+              <IconButton
+                iconProps={{ iconName: 'Cancel' }}
+                title="Clear tag filter"
+                ariaLabel="Clear tag filter"
+                onClick={() => handleTagFilterChange(null)}
+                styles={{ root: { height: 24, width: 24 } }}
+              />
+            </Stack>
+          )}
+          {showTrash && totalSessions > 0 && (
+            <Stack
+              horizontal
+              horizontalAlign="space-between"
+              verticalAlign="center"
+              styles={{ root: { padding: '6px 12px', borderBottom: '1px solid #edebe9' } }}
+            >
+              <Text variant="small" styles={{ root: { color: '#605e5c' } }}>
+                {totalSessions === 1 ? '1 session in trash' : `${totalSessions} sessions in trash`}
+              </Text>
+              <DefaultButton
+                text="Empty Trash"
+                onClick={() => setPendingConfirm({ kind: 'emptyTrash' })}
+              />
+            </Stack>
+          )}
           <SessionList
-            sessions={filteredSessions}
+            sessions={sessions}
             savedSessionIds={savedSessionIds}
             selectedSessionId={selectedSessionId}
+            totalSessions={totalSessions}
+            hasMore={hasMoreSessions}
+            inTrash={showTrash}
             isLoading={isLoading}
+            isLoadingMore={isLoadingMore}
             error={error}
             onSelectSession={handleSelectSession}
             onSaveSession={handleSaveSession}
             onDeleteSession={handleDeleteSession}
+            onRestoreSession={handleRestoreSession}
+            onUpdateMeta={handleUpdateMeta}
+            onTagClick={handleTagFilterChange}
+            onLoadMore={loadMoreSessions}
           />
         </>
       )}
+
+      {undoSessionId && (
+        <UndoToast
+          key={undoSessionId}
+          message="Session moved to trash"
+          onUndo={handleUndoDelete}
+          onDismiss={dismissUndo}
+        />
+      )}
+
+      {pendingConfirm && (
+        <ConfirmDialog
+          title={pendingConfirm.kind === 'purge' ? 'Delete permanently?' : 'Empty trash?'}
+          message={
+            pendingConfirm.kind === 'purge'
+              ? 'This session will be removed for good, including any copy saved in this workbook.'
+              : 'Every session in the trash will be removed for good.'
+          }
+          confirmText="Delete"
+          onConfirm={handleConfirm}
+          onCancel={() => setPendingConfirm(null)}
+        />
+      )}
     </Stack>
   );
 };
@@ -0,0 +1,40 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogType,
+  DialogFooter,
+  PrimaryButton,
+  DefaultButton,
+} from '@fluentui/react';
+
+interface ConfirmDialogProps {
+  title: string;
+  message: string;
+  confirmText: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Asks before an action that cannot be undone (window.confirm is not
+// available inside Office add-ins)
+export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
+  title,
+  message,
+  confirmText,
+  onConfirm,
+  onCancel,
+}) => {
+  return (
+    <Dialog
+      hidden={false}
+      onDismiss={onCancel}
+      dialogContentProps={{ type: DialogType.normal, title, subText: message }}
+      modalProps={{ isBlocking: true }}
+    >
+      <DialogFooter>
+        <PrimaryButton text={confirmText} onClick={onConfirm} />
+        <DefaultButton text="Cancel" onClick={onCancel} />
+      </DialogFooter>
+    </Dialog>
+  );
+};
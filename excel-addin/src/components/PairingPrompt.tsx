@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import {
+  Stack,
+  Text,
+  TextField,
+  PrimaryButton,
+  MessageBar,
+  MessageBarType,
+  Spinner,
+  SpinnerSize,
+} from '@fluentui/react';
+
+interface PairingPromptProps {
+  onPair: (code: string) => Promise<void>;
+}
+
+export const PairingPrompt: React.FC<PairingPromptProps> = ({ onPair }) => {
+  const [code, setCode] = useState('');
+  const [isPairing, setIsPairing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePair = async () => {
+    const trimmed = code.trim();
+    if (!/^\d{6}$/.test(trimmed)) {
+      setError('The pairing code has 6 digits');
+      return;
+    }
+
+    setIsPairing(true);
+    setError(null);
+    try {
+      await onPair(trimmed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Pairing failed');
+    } finally {
+      setIsPairing(false);
+    }
+  };
+
+  return (
+    <Stack styles={{ root: { padding: 16 } }} tokens={{ childrenGap: 12 }}>
+      <Text variant="mediumPlus" styles={{ root: { fontWeight: 600 } }}>
+        Pair with the capture service
+      </Text>
+      <Text variant="small" styles={{ root: { color: '#605e5c' } }}>
+        The capture service only shares your conversations with paired add-ins. Right-click its
+        tray icon, choose <strong>Pair Excel Add-in...</strong> and enter the code it shows.
+      </Text>
+
+      <TextField
+        label="Pairing code"
+        value={code}
+        onChange={(_, value) => setCode(value || '')}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handlePair();
+        }}
+        placeholder="123456"
+        disabled={isPairing}
+      />
+
+      {error && (
+        <MessageBar messageBarType={MessageBarType.error} onDismiss={() => setError(null)}>
+          {error}
+        </MessageBar>
+      )}
+
+      <Stack horizontal tokens={{ childrenGap: 8 }}>
+        <PrimaryButton text="Pair" onClick={handlePair} disabled={isPairing} />
+        {isPairing && <Spinner size={SpinnerSize.small} />}
+      </Stack>
+    </Stack>
+  );
+};
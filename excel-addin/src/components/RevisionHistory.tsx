@@ -0,0 +1,141 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Stack, Text, Slider, DefaultButton, Spinner, SpinnerSize } from '@fluentui/react';
+import { RevisionDetail, RevisionSummary } from '../types';
+import { getSessionRevision, getSessionRevisions } from '../services/proxyApi';
+
+interface RevisionHistoryProps {
+  sessionId: string;
+  // Changes whenever the thread is written, so the history is fetched again
+  sessionVersion: string;
+  // Called with the revision being viewed, or null for the current thread
+  onViewRevision: (revision: RevisionDetail | null) => void;
+  onRestoreRevision: (revision: number) => Promise<void>;
+}
+
+function describeRevision(revision: RevisionSummary): string {
+  if (revision.restored_from !== null) {
+    return `Restored revision ${revision.restored_from}`;
+  }
+  const parts: string[] = [];
+  if (revision.added > 0) parts.push(`+${revision.added}`);
+  if (revision.changed > 0) parts.push(`~${revision.changed}`);
+  if (revision.removed > 0) parts.push(`-${revision.removed}`);
+  return `${parts.join(' ')} messages`;
+}
+
+// Slider over a thread's revisions; the newest revision is the thread as stored
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+  sessionId,
+  sessionVersion,
+  onViewRevision,
+  onRestoreRevision,
+}) => {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [isLoadingRevision, setIsLoadingRevision] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  // Only the answer to the latest slider position is shown
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    requestRef.current++;
+    setSelected(null);
+    onViewRevision(null);
+
+    getSessionRevisions(sessionId)
+      .then((loaded) => {
+        if (!cancelled) setRevisions(loaded);
+      })
+      .catch((err) => {
+        console.error('Failed to load revisions:', err);
+        if (!cancelled) setRevisions([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, sessionVersion, onViewRevision]);
+
+  if (revisions.length < 2) {
+    return null;
+  }
+
+  const latest = revisions[revisions.length - 1].revision;
+  const current = selected ?? latest;
+  const summary = revisions.find((r) => r.revision === current);
+
+  const handleChange = async (value: number) => {
+    setSelected(value);
+    const request = ++requestRef.current;
+
+    if (value === latest) {
+      setIsLoadingRevision(false);
+      onViewRevision(null);
+      return;
+    }
+
+    setIsLoadingRevision(true);
+    try {
+      const revision = await getSessionRevision(sessionId, value);
+      if (request === requestRef.current) {
+        onViewRevision(revision);
+      }
+    } catch (err) {
+      console.error('Failed to load revision:', err);
+    } finally {
+      if (request === requestRef.current) {
+        setIsLoadingRevision(false);
+      }
+    }
+  };
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    try {
+      await onRestoreRevision(current);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Stack
+      tokens={{ childrenGap: 4 }}
+      styles={{ root: { padding: '8px 12px', borderBottom: '1px solid #edebe9' } }}
+    >
+      <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
+        <Text variant="small" styles={{ root: { fontWeight: 600 } }}>
+          Revision {current} of {latest}
+        </Text>
+        {isLoadingRevision && <Spinner size={SpinnerSize.xSmall} />}
+      </Stack>
+      <Slider
+        min={revisions[0].revision}
+        max={latest}
+        step={1}
+        value={current}
+        showValue={false}
+        onChange={handleChange}
+        disabled={isRestoring}
+        ariaLabel="Revision"
+      />
+      {summary && (
+        <Text variant="tiny" styles={{ root: { color: '#605e5c' } }}>
+          {new Date(summary.created_at).toLocaleString()} · {describeRevision(summary)}
+        </Text>
+      )}
+      {current !== latest && (
+        <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="center">
+          <DefaultButton
+            text="Restore This Revision"
+            iconProps={{ iconName: 'History' }}
+            onClick={handleRestore}
+            disabled={isRestoring || isLoadingRevision}
+          />
+          {isRestoring && <Spinner size={SpinnerSize.small} />}
+        </Stack>
+      )}
+    </Stack>
+  );
+};
@@ -1,17 +1,22 @@
 import React from 'react';
 import { SearchBox, Stack, Dropdown, IDropdownOption } from '@fluentui/react';
 
+// 'trash' lists deleted sessions instead of live ones
+export type FilterMode = 'all' | 'starred' | 'saved' | 'unsaved' | 'trash';
+
 interface SearchBarProps {
   searchQuery: string;
   onSearchChange: (query: string) => void;
-  filterMode: 'all' | 'saved' | 'unsaved';
-  onFilterChange: (mode: 'all' | 'saved' | 'unsaved') => void;
+  filterMode: FilterMode;
+  onFilterChange: (mode: FilterMode) => void;
 }
 
 const filterOptions: IDropdownOption[] = [
   { key: 'all', text: 'All Sessions' },
+  { key: 'starred', text: 'Starred' },
   { key: 'saved', text: 'Saved to Workbook' },
   { key: 'unsaved', text: 'Not Saved' },
+  { key: 'trash', text: 'Trash' },
 ];
 
 export const SearchBar: React.FC<SearchBarProps> = ({
@@ -41,7 +46,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({
         selectedKey={filterMode}
         options={filterOptions}
         onChange={(_, option) =>
-          onFilterChange((option?.key as 'all' | 'saved' | 'unsaved') || 'all')
+          onFilterChange((option?.key as FilterMode) || 'all')
         }
         styles={{ root: { width: 140 } }}
       />
@@ -0,0 +1,311 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Stack,
+  Text,
+  TextField,
+  Toggle,
+  DefaultButton,
+  MessageBar,
+  MessageBarType,
+  Spinner,
+  SpinnerSize,
+} from '@fluentui/react';
+import { RetentionPolicy, RetentionPreview, ServiceConfig } from '../types';
+import { getRetentionPreview, getServiceConfig, updateServiceConfig } from '../services/proxyApi';
+import { getServicePort, setServicePort } from '../utils/settings';
+
+function parsePort(text: string): number | null {
+  const port = Number(text);
+  return Number.isInteger(port) && port >= 1024 && port <= 65535 ? port : null;
+}
+
+// Retention limits are optional: empty means no limit, otherwise a whole
+// number from 1 to max. Returns undefined when the text is invalid.
+function parseLimit(text: string, max: number): number | null | undefined {
+  if (!text.trim()) return null;
+  const limit = Number(text);
+  return Number.isInteger(limit) && limit >= 1 && limit <= max ? limit : undefined;
+}
+
+function formatMB(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describePreview(preview: RetentionPreview): string {
+  if (preview.removals.length === 0) {
+    return 'Nothing would be removed right now.';
+  }
+  const count = preview.removals.length === 1 ? '1 session' : `${preview.removals.length} sessions`;
+  return `${count} would be removed now, freeing about ${formatMB(preview.freed_bytes)} ` +
+    `of ${formatMB(preview.database_bytes)}.`;
+}
+
+export const ServiceSettings: React.FC = () => {
+  const [config, setConfig] = useState<ServiceConfig | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [portText, setPortText] = useState(String(getServicePort()));
+  const [pollSecondsText, setPollSecondsText] = useState('');
+  const [notifications, setNotifications] = useState(true);
+  const [trashDaysText, setTrashDaysText] = useState('');
+  const [retentionEnabled, setRetentionEnabled] = useState(false);
+  const [maxAgeText, setMaxAgeText] = useState('');
+  const [maxSessionsText, setMaxSessionsText] = useState('');
+  const [maxSizeText, setMaxSizeText] = useState('');
+  const [keepStarred, setKeepStarred] = useState(true);
+  const [keepSaved, setKeepSaved] = useState(true);
+  const [preview, setPreview] = useState<RetentionPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [message, setMessage] = useState<{ type: MessageBarType; text: string } | null>(null);
+
+  useEffect(() => {
+    getServiceConfig()
+      .then((loaded) => {
+        setConfig(loaded);
+        setPortText(String(loaded.apiPort));
+        setPollSecondsText(String(loaded.pollIntervalMs / 1000));
+        setNotifications(loaded.notifications);
+        setTrashDaysText(String(loaded.trashRetentionDays));
+        setRetentionEnabled(loaded.retentionEnabled);
+        setMaxAgeText(loaded.retentionMaxAgeDays?.toString() ?? '');
+        setMaxSessionsText(loaded.retentionMaxSessions?.toString() ?? '');
+        setMaxSizeText(loaded.retentionMaxDatabaseMB?.toString() ?? '');
+        setKeepStarred(loaded.retentionKeepStarred);
+        setKeepSaved(loaded.retentionKeepSaved);
+      })
+      .catch(() => setConfig(null))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // The retention policy in the form, or an error message
+  const readRetentionPolicy = (): RetentionPolicy | string => {
+    const maxAgeDays = parseLimit(maxAgeText, 3650);
+    if (maxAgeDays === undefined) return 'Maximum age must be empty or between 1 and 3650 days';
+    const maxSessions = parseLimit(maxSessionsText, 1000000);
+    if (maxSessions === undefined) return 'Maximum sessions must be empty or a whole number';
+    const maxDatabaseMB = parseLimit(maxSizeText, 10240);
+    if (maxDatabaseMB === undefined) return 'Maximum database size must be empty or between 1 and 10240 MB';
+    return { maxAgeDays, maxSessions, maxDatabaseMB, keepStarred, keepSaved };
+  };
+
+  const handlePreview = async () => {
+    const policy = readRetentionPolicy();
+    if (typeof policy === 'string') {
+      setMessage({ type: MessageBarType.error, text: policy });
+      return;
+    }
+
+    setIsPreviewing(true);
+    setMessage(null);
+    try {
+      setPreview(await getRetentionPreview(policy));
+    } catch (error) {
+      setMessage({
+        type: MessageBarType.error,
+        text: error instanceof Error ? error.message : 'Failed to preview retention',
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const port = parsePort(portText.trim());
+    if (port === null) {
+      setMessage({ type: MessageBarType.error, text: 'Port must be a number between 1024 and 65535' });
+      return;
+    }
+
+    // Without a reachable service only the port the add-in connects to can change
+    if (!config) {
+      setServicePort(port);
+      setMessage({ type: MessageBarType.info, text: `The add-in will connect on port ${port}` });
+      return;
+    }
+
+    const pollIntervalMs = Math.round(Number(pollSecondsText) * 1000);
+    if (!Number.isFinite(pollIntervalMs) || pollIntervalMs < 500 || pollIntervalMs > 60000) {
+      setMessage({ type: MessageBarType.error, text: 'Poll interval must be between 0.5 and 60 seconds' });
+      return;
+    }
+
+    const trashRetentionDays = Number(trashDaysText);
+    if (!Number.isInteger(trashRetentionDays) || trashRetentionDays < 1 || trashRetentionDays > 365) {
+      setMessage({ type: MessageBarType.error, text: 'Trash retention must be between 1 and 365 days' });
+      return;
+    }
+
+    const policy = readRetentionPolicy();
+    if (typeof policy === 'string') {
+      setMessage({ type: MessageBarType.error, text: policy });
+      return;
+    }
+
+    const changes: Partial<ServiceConfig> = {};
+    if (port !== config.apiPort) changes.apiPort = port;
+    if (pollIntervalMs !== config.pollIntervalMs) changes.pollIntervalMs = pollIntervalMs;
+    if (notifications !== config.notifications) changes.notifications = notifications;
+    if (trashRetentionDays !== config.trashRetentionDays) {
+      changes.trashRetentionDays = trashRetentionDays;
+    }
+    if (retentionEnabled !== config.retentionEnabled) changes.retentionEnabled = retentionEnabled;
+    if (policy.maxAgeDays !== config.retentionMaxAgeDays) {
+      changes.retentionMaxAgeDays = policy.maxAgeDays;
+    }
+    if (policy.maxSessions !== config.retentionMaxSessions) {
+      changes.retentionMaxSessions = policy.maxSessions;
+    }
+    if (policy.maxDatabaseMB !== config.retentionMaxDatabaseMB) {
+      changes.retentionMaxDatabaseMB = policy.maxDatabaseMB;
+    }
+    if (keepStarred !== config.retentionKeepStarred) changes.retentionKeepStarred = keepStarred;
+    if (keepSaved !== config.retentionKeepSaved) changes.retentionKeepSaved = keepSaved;
+
+    if (Object.keys(changes).length === 0) {
+      setMessage({ type: MessageBarType.info, text: 'No changes to save' });
+      return;
+    }
+
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const updated = await updateServiceConfig(changes);
+      setConfig(updated);
+      setMessage({
+        type: MessageBarType.success,
+        text: updated.restartRequired
+          ? 'Saved. Restart the capture service to apply all changes.'
+          : 'Capture service settings saved',
+      });
+    } catch (error) {
+      setMessage({
+        type: MessageBarType.error,
+        text: error instanceof Error ? error.message : 'Failed to save settings',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Stack tokens={{ childrenGap: 8 }}>
+      <Text variant="mediumPlus" styles={{ root: { fontWeight: 600 } }}>
+        Capture Service
+      </Text>
+
+      {isLoading ? (
+        <Spinner size={SpinnerSize.small} label="Loading service settings..." />
+      ) : (
+        <>
+          {!config && (
+            <Text variant="small" styles={{ root: { color: '#605e5c' } }}>
+              The capture service is not reachable. Check that it is running, or set the port it
+              listens on.
+            </Text>
+          )}
+
+          <TextField
+            label="API port"
+            value={portText}
+            onChange={(_, value) => setPortText(value || '')}
+            disabled={isSaving}
+          />
+
+          {config && (
+            <>
+              <TextField
+                label="Poll interval (seconds)"
+                value={pollSecondsText}
+                onChange={(_, value) => setPollSecondsText(value || '')}
+                disabled={isSaving}
+              />
+              <TextField
+                label="Keep deleted sessions in the trash for (days)"
+                value={trashDaysText}
+                onChange={(_, value) => setTrashDaysText(value || '')}
+                disabled={isSaving}
+              />
+              <Toggle
+                label="Notify when a conversation is captured"
+                checked={notifications}
+                onChange={(_, checked) => setNotifications(!!checked)}
+                disabled={isSaving}
+              />
+
+              <Text variant="medium" styles={{ root: { fontWeight: 600, marginTop: 8 } }}>
+                Retention
+              </Text>
+              <Text variant="small" styles={{ root: { color: '#605e5c' } }}>
+                Once a day, sessions past these limits are deleted for good, oldest first. Leave
+                a limit empty for no limit.
+              </Text>
+              <Toggle
+                label="Apply retention limits"
+                checked={retentionEnabled}
+                onChange={(_, checked) => setRetentionEnabled(!!checked)}
+                disabled={isSaving}
+              />
+              <TextField
+                label="Delete sessions older than (days)"
+                value={maxAgeText}
+                onChange={(_, value) => setMaxAgeText(value || '')}
+                disabled={isSaving}
+              />
+              <TextField
+                label="Keep at most (sessions)"
+                value={maxSessionsText}
+                onChange={(_, value) => setMaxSessionsText(value || '')}
+                disabled={isSaving}
+              />
+              <TextField
+                label="Keep the database under (MB)"
+                value={maxSizeText}
+                onChange={(_, value) => setMaxSizeText(value || '')}
+                disabled={isSaving}
+              />
+              <Toggle
+                label="Always keep starred sessions"
+                checked={keepStarred}
+                onChange={(_, checked) => setKeepStarred(!!checked)}
+                disabled={isSaving}
+              />
+              <Toggle
+                label="Always keep sessions saved to a workbook"
+                checked={keepSaved}
+                onChange={(_, checked) => setKeepSaved(!!checked)}
+                disabled={isSaving}
+              />
+              <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="center">
+                <DefaultButton
+                  text="Preview"
+                  onClick={handlePreview}
+                  disabled={isSaving || isPreviewing}
+                />
+                {isPreviewing && <Spinner size={SpinnerSize.small} />}
+              </Stack>
+              {preview && (
+                <Text variant="small">
+                  {describePreview(preview)}
+                  {preview.lastRun &&
+                    ` Last run ${new Date(preview.lastRun.ran_at).toLocaleString()} removed ` +
+                      `${preview.lastRun.removals.length}.`}
+                </Text>
+              )}
+            </>
+          )}
+
+          {message && (
+            <MessageBar messageBarType={message.type} onDismiss={() => setMessage(null)}>
+              {message.text}
+            </MessageBar>
+          )}
+
+          <Stack horizontal tokens={{ childrenGap: 8 }}>
+            <DefaultButton text="Save Service Settings" onClick={handleSave} disabled={isSaving} />
+            {isSaving && <Spinner size={SpinnerSize.small} />}
+          </Stack>
+        </>
+      )}
+    </Stack>
+  );
+};
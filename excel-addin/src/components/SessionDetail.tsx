@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import {
   Stack,
   Text,
@@ -10,8 +10,13 @@ import {
   IconButton,
   MessageBar,
   MessageBarType,
+  Icon,
+  IContextualMenuItem,
 } from '@fluentui/react';
-import { CapturedSession } from '../types';
+import { CapturedSession, ExportFormat, RevisionDetail, SessionMetaChanges } from '../types';
+import { RevisionHistory } from './RevisionHistory';
+import { SessionMetaEditor } from './SessionMetaEditor';
+import { TagChips } from './TagChips';
 import { compressConversation } from '../utils/textRank';
 import { summarizeWithClaude } from '../services/claudeApi';
 import { hasApiKey } from '../utils/settings';
@@ -22,9 +27,22 @@ interface SessionDetailProps {
   isSaved: boolean;
   onSave: () => void;
   onDelete: () => void;
+  onRestore: () => void;
+  onRestoreRevision: (revision: number) => Promise<void>;
+  onUpdateMeta: (changes: SessionMetaChanges) => Promise<void>;
+  onTagClick: (tag: string) => void;
+  onExport: (format: ExportFormat) => Promise<void>;
   onClose: () => void;
 }
 
+const EXPORT_MENU: { key: ExportFormat; text: string }[] = [
+  { key: 'md', text: 'Markdown (.md)' },
+  { key: 'html', text: 'Web page (.html)' },
+  { key: 'json', text: 'JSON (.json)' },
+  { key: 'jsonl', text: 'JSON Lines (.jsonl)' },
+  { key: 'csv', text: 'CSV, one row per message (.csv)' },
+];
+
 function formatDate(dateString: string): string {
   const date = new Date(dateString);
   return date.toLocaleString();
@@ -33,9 +51,10 @@ function formatDate(dateString: string): string {
 interface MessageBubbleProps {
   role: 'user' | 'assistant';
   content: string;
+  cellContext?: string;
 }
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({ role, content }) => {
+const MessageBubble: React.FC<MessageBubbleProps> = ({ role, content, cellContext }) => {
   const isUser = role === 'user';
 
   return (
@@ -60,6 +79,29 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ role, content }) => {
       >
         {isUser ? 'You' : 'Claude'}
       </Text>
+      {cellContext && (
+        <Stack
+          horizontal
+          verticalAlign="center"
+          tokens={{ childrenGap: 4 }}
+          title={`${cellContext} was selected when this message was sent`}
+          styles={{
+            root: {
+              alignSelf: isUser ? 'flex-end' : 'flex-start',
+              marginBottom: 4,
+              padding: '1px 8px',
+              borderRadius: 10,
+              border: '1px solid #c8c6c4',
+              backgroundColor: 'white',
+            },
+          }}
+        >
+          <Icon iconName="Table" styles={{ root: { fontSize: 10, color: '#107c41' } }} />
+          <Text variant="tiny" styles={{ root: { color: '#323130' } }}>
+            {cellContext}
+          </Text>
+        </Stack>
+      )}
       <Stack
         styles={{
           root: {
@@ -86,7 +128,7 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ role, content }) => {
   );
 };
 
-type Message = { role: 'user' | 'assistant'; content: string };
+type Message = { role: 'user' | 'assistant'; content: string; cellContext?: string };
 
 export const SessionDetail: React.FC<SessionDetailProps> = ({
   session,
@@ -94,6 +136,11 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
   isSaved,
   onSave,
   onDelete,
+  onRestore,
+  onRestoreRevision,
+  onUpdateMeta,
+  onTagClick,
+  onExport,
   onClose,
 }) => {
   const [isCompressed, setIsCompressed] = useState(false);
@@ -101,11 +148,23 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
   const [compressedMessages, setCompressedMessages] = useState<Message[] | null>(null);
   const [compressionMethod, setCompressionMethod] = useState<'claude' | 'textrank' | null>(null);
   const [compressionError, setCompressionError] = useState<string | null>(null);
+  // An earlier revision picked on the history slider, shown instead of the thread
+  const [viewedRevision, setViewedRevision] = useState<RevisionDetail | null>(null);
+  const [isEditingMeta, setIsEditingMeta] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
 
   // Parse original messages from session
   const originalMessages = useMemo((): Message[] => {
     if (!session) return [];
 
+    if (session.messages && session.messages.length > 0) {
+      return session.messages.map((m) => ({
+        role: m.role,
+        content: m.content,
+        cellContext: m.cell_context ?? undefined,
+      }));
+    }
+
     try {
       const data = JSON.parse(session.request_body);
       if (data.messages && Array.isArray(data.messages) && data.messages.length > 0) {
@@ -126,6 +185,23 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
     return fallbackMsgs;
   }, [session]);
 
+  const shownMessages = viewedRevision ? viewedRevision.messages : originalMessages;
+
+  // Compression applies to the messages shown, so it starts over when they change
+  useEffect(() => {
+    setIsCompressed(false);
+    setCompressedMessages(null);
+    setCompressionMethod(null);
+    setCompressionError(null);
+  }, [viewedRevision]);
+
+  // Changes whenever the service writes the thread
+  const sessionVersion = useMemo(() => {
+    if (!session) return '';
+    const updatedAt = (session.messages ?? []).map((m) => m.updated_at).sort().pop() ?? '';
+    return `${session.captured_at}|${session.messages?.length ?? 0}|${updatedAt}`;
+  }, [session]);
+
   // Handle compression toggle
   const handleCompress = useCallback(async () => {
     if (isCompressed) {
@@ -143,7 +219,7 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
 
     // Try Claude API first if API key is configured
     if (hasApiKey()) {
-      const claudeResult = await summarizeWithClaude(originalMessages);
+      const claudeResult = await summarizeWithClaude(shownMessages);
       if (claudeResult) {
         setCompressedMessages(claudeResult);
         setCompressionMethod('claude');
@@ -156,15 +232,40 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
     }
 
     // Use TextRank as fallback
-    const textRankResult = compressConversation(originalMessages, 0.3);
+    const textRankResult = compressConversation(shownMessages, 0.3);
     setCompressedMessages(textRankResult);
     setCompressionMethod('textrank');
     setIsCompressed(true);
     setIsCompressing(false);
-  }, [isCompressed, originalMessages]);
+  }, [isCompressed, shownMessages]);
+
+  const handleSaveMeta = useCallback(
+    async (changes: SessionMetaChanges) => {
+      await onUpdateMeta(changes);
+      setIsEditingMeta(false);
+    },
+    [onUpdateMeta]
+  );
+
+  const exportMenuItems = useMemo(
+    (): IContextualMenuItem[] =>
+      EXPORT_MENU.map(({ key, text }) => ({
+        key,
+        text,
+        onClick: () => {
+          setIsExporting(true);
+          onExport(key)
+            .catch(() => {
+              // Logged by the caller
+            })
+            .finally(() => setIsExporting(false));
+        },
+      })),
+    [onExport]
+  );
 
   // Messages to display
-  const messages = isCompressed && compressedMessages ? compressedMessages : originalMessages;
+  const messages = isCompressed && compressedMessages ? compressedMessages : shownMessages;
 
   if (isLoading) {
     return (
@@ -192,6 +293,8 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
     );
   }
 
+  const isDeleted = !!session.deleted_at;
+
   return (
     <Stack styles={{ root: { height: '100%', display: 'flex', flexDirection: 'column' } }}>
       {/* Header */}
@@ -206,22 +309,68 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
           },
         }}
       >
-        <Stack>
-          <Text variant="medium" styles={{ root: { fontWeight: 600 } }}>
-            Session Details
+        <Stack styles={{ root: { minWidth: 0 } }}>
+          <Text
+            variant="medium"
+            styles={{
+              root: {
+                fontWeight: 600,
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              },
+            }}
+          >
+            {session.title || 'Session Details'}
           </Text>
           <Text variant="tiny" styles={{ root: { color: '#605e5c' } }}>
             {formatDate(session.captured_at)}
+            {isDeleted && ` · In trash since ${formatDate(session.deleted_at as string)}`}
           </Text>
         </Stack>
-        <IconButton
-          iconProps={{ iconName: 'Cancel' }}
-          title="Close"
-          ariaLabel="Close"
-          onClick={onClose}
-        />
+        <Stack horizontal>
+          {!isDeleted && (
+            <IconButton
+              iconProps={{ iconName: session.starred ? 'FavoriteStarFill' : 'FavoriteStar' }}
+              title={session.starred ? 'Unstar' : 'Star'}
+              ariaLabel={session.starred ? 'Unstar' : 'Star'}
+              onClick={() => onUpdateMeta({ starred: !session.starred }).catch(() => {})}
+              styles={{ icon: { color: session.starred ? '#c19c00' : undefined } }}
+            />
+          )}
+          {!isDeleted && (
+            <IconButton
+              iconProps={{ iconName: 'Edit' }}
+              title="Edit title and tags"
+              ariaLabel="Edit title and tags"
+              onClick={() => setIsEditingMeta(!isEditingMeta)}
+            />
+          )}
+          <IconButton
+            iconProps={{ iconName: 'Cancel' }}
+            title="Close"
+            ariaLabel="Close"
+            onClick={onClose}
+          />
+        </Stack>
       </Stack>
 
+      {isEditingMeta && !isDeleted && (
+        <Stack styles={{ root: { padding: '0 12px', borderBottom: '1px solid #edebe9' } }}>
+          <SessionMetaEditor
+            key={session.id}
+            session={session}
+            onSave={handleSaveMeta}
+            onCancel={() => setIsEditingMeta(false)}
+          />
+        </Stack>
+      )}
+      {!isEditingMeta && session.tags.length > 0 && (
+        <Stack styles={{ root: { padding: '6px 12px', borderBottom: '1px solid #edebe9' } }}>
+          <TagChips tags={session.tags} onTagClick={onTagClick} />
+        </Stack>
+      )}
+
       {/* Metadata */}
       <Stack
         horizontal
@@ -270,6 +419,13 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
         )}
       </Stack>
 
+      <RevisionHistory
+        sessionId={session.id}
+        sessionVersion={sessionVersion}
+        onViewRevision={setViewedRevision}
+        onRestoreRevision={onRestoreRevision}
+      />
+
       {/* Compression indicator */}
       {compressionError && (
         <MessageBar
@@ -312,7 +468,12 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
       >
         {messages.length > 0 ? (
           messages.map((msg, index) => (
-            <MessageBubble key={index} role={msg.role} content={msg.content} />
+            <MessageBubble
+              key={index}
+              role={msg.role}
+              content={msg.content}
+              cellContext={msg.cellContext}
+            />
           ))
         ) : (
           <Text variant="small" styles={{ root: { color: '#605e5c', fontStyle: 'italic' } }}>
@@ -333,8 +494,10 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
           },
         }}
       >
-        {!isSaved && (
-          <PrimaryButton text="Save to Workbook" onClick={onSave} />
+        {isDeleted ? (
+          <PrimaryButton text="Restore" iconProps={{ iconName: 'Undo' }} onClick={onRestore} />
+        ) : (
+          !isSaved && <PrimaryButton text="Save to Workbook" onClick={onSave} />
         )}
         <DefaultButton
           text={isCompressing ? 'Compressing...' : isCompressed ? 'Expand' : 'Compress'}
@@ -344,7 +507,13 @@ export const SessionDetail: React.FC<SessionDetailProps> = ({
         />
         {isCompressing && <Spinner size={SpinnerSize.small} />}
         <DefaultButton
-          text="Delete"
+          text={isExporting ? 'Exporting...' : 'Export'}
+          iconProps={{ iconName: 'Download' }}
+          menuProps={{ items: exportMenuItems }}
+          disabled={isExporting}
+        />
+        <DefaultButton
+          text={isDeleted ? 'Delete Permanently' : 'Delete'}
           onClick={onDelete}
           styles={{
             root: { color: '#a80000' },
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   Stack,
   Text,
@@ -8,19 +8,34 @@ import {
   MessageBar,
   MessageBarType,
 } from '@fluentui/react';
-import { SessionSummary } from '../types';
+import { SessionMetaChanges, SessionSummary } from '../types';
+import { SessionMetaEditor } from './SessionMetaEditor';
+import { TagChips } from './TagChips';
 
 interface SessionListProps {
   sessions: SessionSummary[];
   savedSessionIds: Set<string>;
   selectedSessionId: string | null;
+  // Sessions matching the search on the service, loaded or not
+  totalSessions: number;
+  hasMore: boolean;
+  // Showing the trash: items can be restored or deleted for good
+  inTrash: boolean;
   isLoading: boolean;
+  isLoadingMore: boolean;
   error: string | null;
   onSelectSession: (id: string) => void;
   onSaveSession: (id: string) => void;
   onDeleteSession: (id: string) => void;
+  onRestoreSession: (id: string) => void;
+  onUpdateMeta: (id: string, changes: SessionMetaChanges) => Promise<void>;
+  onTagClick: (tag: string) => void;
+  onLoadMore: () => void;
 }
 
+// Start loading the next page this far before the end of the list is visible
+const LOAD_MORE_MARGIN_PX = 200;
+
 function formatDate(dateString: string): string {
   const date = new Date(dateString);
   const now = new Date();
@@ -43,23 +58,80 @@ function truncateText(text: string | null, maxLength: number): string {
   return text.substring(0, maxLength - 3) + '...';
 }
 
+// Search snippets mark matches with <mark>...</mark>; render them as
+// highlighted spans without injecting HTML
+const HighlightedSnippet: React.FC<{ snippet: string }> = ({ snippet }) => {
+  const parts = snippet.split(/<mark>|<\/mark>/);
+
+  return (
+    <Text
+      variant="small"
+      styles={{
+        root: {
+          marginTop: 4,
+          color: '#605e5c',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          display: '-webkit-box',
+          WebkitLineClamp: 2,
+          WebkitBoxOrient: 'vertical',
+        },
+      }}
+    >
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark
+            key={index}
+            style={{ backgroundColor: '#fff4ce', color: '#323130', fontWeight: 600 }}
+          >
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </Text>
+  );
+};
+
 interface SessionItemProps {
   session: SessionSummary;
   isSaved: boolean;
   isSelected: boolean;
+  inTrash: boolean;
   onSelect: () => void;
   onSave: () => void;
   onDelete: () => void;
+  onRestore: () => void;
+  onUpdateMeta: (changes: SessionMetaChanges) => Promise<void>;
+  onTagClick: (tag: string) => void;
 }
 
 const SessionItem: React.FC<SessionItemProps> = ({
   session,
   isSaved,
   isSelected,
+  inTrash,
   onSelect,
   onSave,
   onDelete,
+  onRestore,
+  onUpdateMeta,
+  onTagClick,
 }) => {
+  const [isEditing, setIsEditing] = useState(false);
+
+  const handleToggleStar = () => {
+    onUpdateMeta({ starred: !session.starred }).catch(() => {
+      // Already logged; the star keeps its old state
+    });
+  };
+
+  const handleSaveMeta = async (changes: SessionMetaChanges) => {
+    await onUpdateMeta(changes);
+    setIsEditing(false);
+  };
+
   return (
     <Stack
       onClick={onSelect}
@@ -78,7 +150,9 @@ const SessionItem: React.FC<SessionItemProps> = ({
       <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
         <Stack horizontal tokens={{ childrenGap: 6 }} verticalAlign="center">
           <Text variant="small" styles={{ root: { color: '#605e5c' } }}>
-            {formatDate(session.captured_at)}
+            {inTrash && session.deleted_at
+              ? `Deleted ${formatDate(session.deleted_at)}`
+              : formatDate(session.captured_at)}
           </Text>
           {isSaved && (
             <Text
@@ -97,7 +171,46 @@ const SessionItem: React.FC<SessionItemProps> = ({
           )}
         </Stack>
         <Stack horizontal tokens={{ childrenGap: 4 }}>
-          {!isSaved && (
+          {!inTrash && (
+            <IconButton
+              iconProps={{ iconName: session.starred ? 'FavoriteStarFill' : 'FavoriteStar' }}
+              title={session.starred ? 'Unstar' : 'Star'}
+              ariaLabel={session.starred ? 'Unstar' : 'Star'}
+              onClick={(e) => {
+                e.stopPropagation();
+                handleToggleStar();
+              }}
+              styles={{
+                root: { height: 24, width: 24 },
+                icon: { color: session.starred ? '#c19c00' : undefined },
+              }}
+            />
+          )}
+          {!inTrash && (
+            <IconButton
+              iconProps={{ iconName: 'Edit' }}
+              title="Edit title and tags"
+              ariaLabel="Edit title and tags"
+              onClick={(e) => {
+                e.stopPropagation();
+                setIsEditing(!isEditing);
+              }}
+              styles={{ root: { height: 24, width: 24 } }}
+            />
+          )}
+          {inTrash && (
+            <IconButton
+              iconProps={{ iconName: 'Undo' }}
+              title="Restore session"
+              ariaLabel="Restore session"
+              onClick={(e) => {
+                e.stopPropagation();
+                onRestore();
+              }}
+              styles={{ root: { height: 24, width: 24 } }}
+            />
+          )}
+          {!isSaved && !inTrash && (
             <IconButton
               iconProps={{ iconName: 'Save' }}
               title="Save to workbook"
@@ -111,8 +224,8 @@ const SessionItem: React.FC<SessionItemProps> = ({
           )}
           <IconButton
             iconProps={{ iconName: 'Delete' }}
-            title="Delete session"
-            ariaLabel="Delete session"
+            title={inTrash ? 'Delete permanently' : 'Delete session'}
+            ariaLabel={inTrash ? 'Delete permanently' : 'Delete session'}
             onClick={(e) => {
               e.stopPropagation();
               onDelete();
@@ -121,22 +234,57 @@ const SessionItem: React.FC<SessionItemProps> = ({
           />
         </Stack>
       </Stack>
-      <Text
-        variant="medium"
-        styles={{
-          root: {
-            marginTop: 4,
-            lineHeight: '1.4',
-            overflow: 'hidden',
-            textOverflow: 'ellipsis',
-            display: '-webkit-box',
-            WebkitLineClamp: 2,
-            WebkitBoxOrient: 'vertical',
-          },
-        }}
-      >
-        {truncateText(session.user_prompt_preview, 100) || 'No preview available'}
-      </Text>
+      {isEditing ? (
+        <SessionMetaEditor
+          session={session}
+          onSave={handleSaveMeta}
+          onCancel={() => setIsEditing(false)}
+        />
+      ) : (
+        <>
+          <Text
+            variant="medium"
+            styles={{
+              root: {
+                marginTop: 4,
+                lineHeight: '1.4',
+                fontWeight: session.title ? 600 : undefined,
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                display: '-webkit-box',
+                WebkitLineClamp: 2,
+                WebkitBoxOrient: 'vertical',
+              },
+            }}
+          >
+            {session.title ||
+              truncateText(session.user_prompt_preview, 100) ||
+              'No preview available'}
+          </Text>
+          {session.title && session.user_prompt_preview && (
+            <Text
+              variant="small"
+              styles={{
+                root: {
+                  marginTop: 2,
+                  color: '#605e5c',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                },
+              }}
+            >
+              {session.user_prompt_preview}
+            </Text>
+          )}
+        </>
+      )}
+      {session.snippet && <HighlightedSnippet snippet={session.snippet} />}
+      {session.tags.length > 0 && (
+        <Stack styles={{ root: { marginTop: 6 } }}>
+          <TagChips tags={session.tags} onTagClick={onTagClick} />
+        </Stack>
+      )}
       <Stack horizontal tokens={{ childrenGap: 8 }} styles={{ root: { marginTop: 6 } }}>
         <Text variant="tiny" styles={{ root: { color: '#605e5c' } }}>
           {session.model || 'Unknown model'}
@@ -155,12 +303,39 @@ export const SessionList: React.FC<SessionListProps> = ({
   sessions,
   savedSessionIds,
   selectedSessionId,
+  totalSessions,
+  hasMore,
+  inTrash,
   isLoading,
+  isLoadingMore,
   error,
   onSelectSession,
   onSaveSession,
   onDeleteSession,
+  onRestoreSession,
+  onUpdateMeta,
+  onTagClick,
+  onLoadMore,
 }) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: `${LOAD_MORE_MARGIN_PX}px` }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, onLoadMore, sessions.length]);
+
   if (isLoading) {
     return (
       <Stack
@@ -181,7 +356,7 @@ export const SessionList: React.FC<SessionListProps> = ({
     );
   }
 
-  if (sessions.length === 0) {
+  if (sessions.length === 0 && !hasMore) {
     return (
       <Stack
         verticalAlign="center"
@@ -189,13 +364,15 @@ export const SessionList: React.FC<SessionListProps> = ({
         styles={{ root: { padding: 40 } }}
       >
         <Text variant="medium" styles={{ root: { color: '#605e5c' } }}>
-          No sessions captured yet
+          {inTrash ? 'Trash is empty' : 'No sessions captured yet'}
         </Text>
         <Text
           variant="small"
           styles={{ root: { color: '#a19f9d', marginTop: 8, textAlign: 'center' } }}
         >
-          Use Claude for Excel to start capturing sessions
+          {inTrash
+            ? 'Deleted sessions stay here for a while before they are removed'
+            : 'Use Claude for Excel to start capturing sessions'}
         </Text>
       </Stack>
     );
@@ -209,11 +386,27 @@ export const SessionList: React.FC<SessionListProps> = ({
           session={session}
           isSaved={savedSessionIds.has(session.id)}
           isSelected={selectedSessionId === session.id}
+          inTrash={inTrash}
           onSelect={() => onSelectSession(session.id)}
           onSave={() => onSaveSession(session.id)}
           onDelete={() => onDeleteSession(session.id)}
+          onRestore={() => onRestoreSession(session.id)}
+          onUpdateMeta={(changes) => onUpdateMeta(session.id, changes)}
+          onTagClick={onTagClick}
         />
       ))}
+      <div ref={sentinelRef} />
+      {isLoadingMore && (
+        <Spinner size={SpinnerSize.small} styles={{ root: { padding: 12 } }} />
+      )}
+      {!hasMore && totalSessions > 0 && (
+        <Text
+          variant="tiny"
+          styles={{ root: { color: '#a19f9d', padding: 12, textAlign: 'center' } }}
+        >
+          {totalSessions === 1 ? '1 session' : `${totalSessions} sessions`}
+        </Text>
+      )}
     </Stack>
   );
 };
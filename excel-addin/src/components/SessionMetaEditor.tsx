@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Stack, TextField, PrimaryButton, DefaultButton, Link, Text } from '@fluentui/react';
+import { SessionMetaChanges, SessionSummary } from '../types';
+
+interface SessionMetaEditorProps {
+  session: Pick<SessionSummary, 'title' | 'title_source' | 'tags'>;
+  onSave: (changes: SessionMetaChanges) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Tags are typed as one comma-separated list
+function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map((tag) => tag.trim()).filter(Boolean))];
+}
+
+export const SessionMetaEditor: React.FC<SessionMetaEditorProps> = ({
+  session,
+  onSave,
+  onCancel,
+}) => {
+  const isUserTitle = session.title_source === 'user';
+  const [title, setTitle] = useState(isUserTitle ? session.title || '' : '');
+  const [tagsText, setTagsText] = useState(session.tags.join(', '));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (changes: SessionMetaChanges) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(changes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const trimmed = title.trim();
+    save({
+      // Leaving the title empty keeps (or goes back to) the generated one
+      title: trimmed || null,
+      tags: parseTags(tagsText),
+    });
+  };
+
+  return (
+    <Stack
+      tokens={{ childrenGap: 6 }}
+      onClick={(e) => e.stopPropagation()}
+      styles={{ root: { padding: '8px 0' } }}
+    >
+      <TextField
+        label="Title"
+        value={title}
+        placeholder={!isUserTitle && session.title ? session.title : 'Generated title'}
+        onChange={(_, value) => setTitle(value || '')}
+        disabled={isSaving}
+      />
+      {isUserTitle && (
+        <Link onClick={() => save({ title: null })} disabled={isSaving}>
+          Use generated title
+        </Link>
+      )}
+      <TextField
+        label="Tags"
+        value={tagsText}
+        placeholder="budget, q3, review"
+        description="Separate tags with commas"
+        onChange={(_, value) => setTagsText(value || '')}
+        disabled={isSaving}
+      />
+      {error && (
+        <Text variant="small" styles={{ root: { color: '#a80000' } }}>
+          {error}
+        </Text>
+      )}
+      <Stack horizontal tokens={{ childrenGap: 8 }}>
+        <PrimaryButton text="Save" onClick={handleSave} disabled={isSaving} />
+        <DefaultButton text="Cancel" onClick={onCancel} disabled={isSaving} />
+      </Stack>
+    </Stack>
+  );
+};
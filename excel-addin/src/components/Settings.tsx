@@ -11,9 +11,11 @@ import {
   SpinnerSize,
   IconButton,
   Link,
+  Separator,
 } from '@fluentui/react';
 import { getApiKey, setApiKey } from '../utils/settings';
 import { testApiKey } from '../services/claudeApi';
+import { ServiceSettings } from './ServiceSettings';
 
 interface SettingsProps {
   onClose: () => void;
@@ -166,6 +168,10 @@ export const Settings: React.FC<SettingsProps> = ({ onClose }) => {
           <DefaultButton text="Cancel" onClick={onClose} disabled={isTesting} />
         </Stack>
 
+        <Separator />
+
+        <ServiceSettings />
+
         {/* Info section */}
         <Stack
           styles={{
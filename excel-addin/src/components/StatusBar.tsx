@@ -5,6 +5,7 @@ import { ProxyStatus } from '../types';
 interface StatusBarProps {
   status: ProxyStatus | null;
   isConnecting: boolean;
+  needsPairing: boolean;
   onToggleCapture: (enabled: boolean) => void;
   onOpenSettings: () => void;
 }
@@ -12,6 +13,7 @@ interface StatusBarProps {
 export const StatusBar: React.FC<StatusBarProps> = ({
   status,
   isConnecting,
+  needsPairing,
   onToggleCapture,
   onOpenSettings,
 }) => {
@@ -58,7 +60,7 @@ export const StatusBar: React.FC<StatusBarProps> = ({
           }}
         />
         <Text variant="small" styles={{ root: { color: '#a80000' } }}>
-          Proxy service not running
+          {needsPairing ? 'Not paired with the capture service' : 'Proxy service not running'}
         </Text>
       </Stack>
     );
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Stack, Text } from '@fluentui/react';
+
+interface TagChipsProps {
+  tags: string[];
+  // Makes each tag a button, e.g. to filter the list by it
+  onTagClick?: (tag: string) => void;
+}
+
+export const TagChips: React.FC<TagChipsProps> = ({ tags, onTagClick }) => {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <Stack horizontal wrap tokens={{ childrenGap: 4 }}>
+      {tags.map((tag) => (
+        <Text
+          key={tag}
+          variant="tiny"
+          title={onTagClick ? `Show sessions tagged "${tag}"` : undefined}
+          onClick={
+            onTagClick
+              ? (e) => {
+                  e.stopPropagation();
+                  onTagClick(tag);
+                }
+              : undefined
+          }
+          styles={{
+            root: {
+              backgroundColor: '#f3f2f1',
+              color: '#323130',
+              padding: '1px 6px',
+              borderRadius: 2,
+              cursor: onTagClick ? 'pointer' : 'default',
+            },
+          }}
+        >
+          {tag}
+        </Text>
+      ))}
+    </Stack>
+  );
+};
@@ -0,0 +1,40 @@
+import React, { useEffect } from 'react';
+import { MessageBar, MessageBarType, MessageBarButton } from '@fluentui/react';
+
+// How long the toast stays up before the action can no longer be undone here
+const UNDO_TOAST_MS = 8000;
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, UNDO_TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss]);
+
+  return (
+    <MessageBar
+      messageBarType={MessageBarType.info}
+      isMultiline={false}
+      onDismiss={onDismiss}
+      actions={<MessageBarButton text="Undo" onClick={onUndo} />}
+      styles={{
+        root: {
+          position: 'fixed',
+          left: 12,
+          right: 12,
+          bottom: 12,
+          width: 'auto',
+          boxShadow: '0 2px 8px rgba(0, 0, 0, 0.2)',
+          zIndex: 10,
+        },
+      }}
+    >
+      {message}
+    </MessageBar>
+  );
+};
@@ -1,11 +1,18 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import {
   getProxyStatus,
-  getAllSessions,
+  getSessionsPage,
   getSessionById,
   deleteSession as apiDeleteSession,
+  restoreSession as apiRestoreSession,
+  restoreSessionRevision as apiRestoreSessionRevision,
+  updateSessionMeta as apiUpdateSessionMeta,
+  emptyTrash as apiEmptyTrash,
   setCapturing,
   createPollingInterval,
+  isPairingRequired,
+  pairWithService,
+  subscribeToEvents,
 } from '../services/proxyApi';
 import {
   getSavedSessions,
@@ -13,15 +20,60 @@ import {
   removeSession,
   convertCapturedToSaved,
 } from '../services/storage';
-import { SessionSummary, CapturedSession, ProxyStatus, SavedSession } from '../types';
+import {
+  SessionSummary,
+  SessionPage,
+  SessionQuery,
+  SessionMetaChanges,
+  CapturedSession,
+  ProxyStatus,
+  SavedSession,
+  ServiceEvent,
+} from '../types';
+
+// Wait before reconnecting a dropped event stream (polling covers the gap)
+const STREAM_RETRY_MS = 5000;
+// Filters applied by the service
+export interface SessionListFilters {
+  deleted?: boolean;
+  starred?: boolean;
+  // Sessions saved to this workbook (true) or not saved to it (false)
+  saved?: boolean;
+  tag?: string;
+}
+
+// Unset filters are left out of the request rather than sent as false.
+// Saved state lives in the workbook, so saved/unsaved is sent as its ids.
+function toQuery(filters: SessionListFilters, savedIds: string[]): SessionQuery {
+  return {
+    deleted: filters.deleted || undefined,
+    starred: filters.starred || undefined,
+    ids: filters.saved === true ? savedIds : undefined,
+    excludeIds: filters.saved === false ? savedIds : undefined,
+    tag: filters.tag || undefined,
+  };
+}
+
+// Sessions fetched per page; refreshes reload everything already shown, up to
+// the service's page limit
+const PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
 
 interface UseSessionsResult {
   // Proxy status
   proxyStatus: ProxyStatus | null;
   isConnecting: boolean;
+  // The service is running but this add-in has not paired with it yet
+  needsPairing: boolean;
 
   // Sessions
   sessions: SessionSummary[];
+  // Sessions matching the current search, including pages not loaded yet
+  totalSessions: number;
+  hasMoreSessions: boolean;
+  isLoadingMore: boolean;
+  // The list shows the trash instead of live sessions
+  showTrash: boolean;
   savedSessions: SavedSession[];
   savedSessionIds: Set<string>;
 
@@ -36,33 +88,67 @@ interface UseSessionsResult {
 
   // Actions
   refreshSessions: () => Promise<void>;
+  loadMoreSessions: () => Promise<void>;
   selectSession: (id: string | null) => void;
   saveSession: (id: string) => Promise<void>;
+  // Moves the session to the trash
   deleteSession: (id: string) => Promise<void>;
+  restoreSession: (id: string) => Promise<void>;
+  // Removes the session for good, also from the workbook
+  purgeSession: (id: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+  // Bring the selected session back to an earlier revision
+  restoreRevision: (id: string, revision: number) => Promise<void>;
+  setListFilters: (filters: SessionListFilters) => void;
+  updateSessionMeta: (id: string, changes: SessionMetaChanges) => Promise<void>;
   toggleCapturing: (enabled: boolean) => Promise<void>;
   searchSessions: (query: string) => Promise<void>;
+  pair: (code: string) => Promise<void>;
 }
 
 export function useSessions(): UseSessionsResult {
   const [proxyStatus, setProxyStatus] = useState<ProxyStatus | null>(null);
   const [isConnecting, setIsConnecting] = useState(true);
+  const [needsPairing, setNeedsPairing] = useState(false);
   const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [totalSessions, setTotalSessions] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [listFilters, setListFiltersState] = useState<SessionListFilters>({});
   const [savedSessions, setSavedSessions] = useState<SavedSession[]>([]);
   const [selectedSession, setSelectedSession] = useState<CapturedSession | null>(null);
   const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingDetail, setIsLoadingDetail] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Live updates arrive over the event stream; polling only runs without it
+  const [streamConnected, setStreamConnected] = useState(false);
+  const searchQueryRef = useRef('');
+  const listFiltersRef = useRef<SessionListFilters>({});
+  // Ids of the sessions saved to this workbook, for the saved/unsaved filter
+  const savedIdsRef = useRef<string[]>([]);
+  const selectedSessionIdRef = useRef<string | null>(null);
+  // The loaded list, for event handlers that need to know what is shown
+  const sessionsRef = useRef<SessionSummary[]>([]);
+  const loadedCountRef = useRef(0);
+  // Bumped whenever the list is reloaded so a late "load more" page is dropped
+  const listVersionRef = useRef(0);
 
   const savedSessionIds = new Set(savedSessions.map((s) => s.id));
 
+  useEffect(() => {
+    sessionsRef.current = sessions;
+  }, [sessions]);
+
   const checkProxyStatus = useCallback(async () => {
     try {
       const status = await getProxyStatus();
       setProxyStatus(status);
+      setNeedsPairing(false);
       setIsConnecting(false);
-    } catch {
+    } catch (err) {
       setProxyStatus(null);
+      setNeedsPairing(isPairingRequired(err));
       setIsConnecting(false);
     }
   }, []);
@@ -81,20 +167,71 @@ export function useSessions(): UseSessionsResult {
     }
   }, []);
 
+  const applyFirstPage = useCallback((page: SessionPage) => {
+    listVersionRef.current++;
+    loadedCountRef.current = page.sessions.length;
+    setSessions(page.sessions);
+    setNextCursor(page.nextCursor);
+    setTotalSessions(page.total);
+  }, []);
+
   const refreshSessions = useCallback(async () => {
     try {
       setError(null);
-      const sessionList = await getAllSessions();
-      setSessions(sessionList);
+      const page = await getSessionsPage({
+        search: searchQueryRef.current || undefined,
+        ...toQuery(listFiltersRef.current, savedIdsRef.current),
+        limit: Math.min(MAX_PAGE_SIZE, Math.max(PAGE_SIZE, loadedCountRef.current)),
+      });
+      applyFirstPage(page);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load sessions');
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [applyFirstPage]);
+
+  // The saved/unsaved views follow sessions being saved to or removed from
+  // the workbook
+  useEffect(() => {
+    savedIdsRef.current = savedSessions.map((s) => s.id);
+    if (listFiltersRef.current.saved !== undefined) {
+      refreshSessions();
+    }
+  }, [savedSessions, refreshSessions]);
+
+  const loadMoreSessions = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    const version = listVersionRef.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await getSessionsPage({
+        search: searchQueryRef.current || undefined,
+        ...toQuery(listFiltersRef.current, savedIdsRef.current),
+        limit: PAGE_SIZE,
+        cursor: nextCursor,
+      });
+      if (version !== listVersionRef.current) return;
+
+      setSessions((prev) => {
+        const seen = new Set(prev.map((s) => s.id));
+        const merged = [...prev, ...page.sessions.filter((s) => !seen.has(s.id))];
+        loadedCountRef.current = merged.length;
+        return merged;
+      });
+      setNextCursor(page.nextCursor);
+      setTotalSessions(page.total);
+    } catch (err) {
+      console.error('Failed to load more sessions:', err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoadingMore]);
 
   const selectSession = useCallback(async (id: string | null) => {
     setSelectedSessionId(id);
+    selectedSessionIdRef.current = id;
 
     if (!id) {
       setSelectedSession(null);
@@ -119,16 +256,49 @@ export function useSessions(): UseSessionsResult {
       const savedSession = convertCapturedToSaved(session);
       await addSession(savedSession);
       await loadSavedSessions();
+      // Lets the service's retention policy spare sessions kept in a workbook
+      apiUpdateSessionMeta(id, { saved: true }).catch((err) =>
+        console.error('Failed to mark session as saved:', err)
+      );
     } catch (err) {
       console.error('Failed to save session:', err);
       throw err;
     }
   }, [loadSavedSessions]);
 
+  const clearSelectionOf = useCallback((id: string) => {
+    if (selectedSessionIdRef.current === id) {
+      setSelectedSessionId(null);
+      selectedSessionIdRef.current = null;
+      setSelectedSession(null);
+    }
+  }, []);
+
   const deleteSession = useCallback(async (id: string) => {
     try {
-      // Remove from proxy service
+      // The copy saved in the workbook is kept so the delete can be undone
       await apiDeleteSession(id);
+      clearSelectionOf(id);
+      await refreshSessions();
+    } catch (err) {
+      console.error('Failed to delete session:', err);
+      throw err;
+    }
+  }, [clearSelectionOf, refreshSessions]);
+
+  const restoreSession = useCallback(async (id: string) => {
+    try {
+      await apiRestoreSession(id);
+      await refreshSessions();
+    } catch (err) {
+      console.error('Failed to restore session:', err);
+      throw err;
+    }
+  }, [refreshSessions]);
+
+  const purgeSession = useCallback(async (id: string) => {
+    try {
+      await apiDeleteSession(id, true);
 
       // Also remove from saved sessions if it exists
       if (savedSessionIds.has(id)) {
@@ -136,19 +306,67 @@ export function useSessions(): UseSessionsResult {
         await loadSavedSessions();
       }
 
-      // Clear selection if this session was selected
-      if (selectedSessionId === id) {
-        setSelectedSessionId(null);
-        setSelectedSession(null);
+      clearSelectionOf(id);
+      await refreshSessions();
+    } catch (err) {
+      console.error('Failed to delete session:', err);
+      throw err;
+    }
+  }, [savedSessionIds, clearSelectionOf, loadSavedSessions, refreshSessions]);
+
+  const emptyTrash = useCallback(async () => {
+    try {
+      await apiEmptyTrash();
+      await refreshSessions();
+    } catch (err) {
+      console.error('Failed to empty trash:', err);
+      throw err;
+    }
+  }, [refreshSessions]);
+
+  const updateSessionMeta = useCallback(async (id: string, changes: SessionMetaChanges) => {
+    try {
+      const updated = await apiUpdateSessionMeta(id, changes);
+      setSessions((prev) => prev.map((s) => (s.id === id ? updated : s)));
+      if (selectedSessionIdRef.current === id) {
+        setSelectedSession((prev) => (prev && prev.id === id ? { ...prev, ...updated } : prev));
       }
+    } catch (err) {
+      console.error('Failed to update session:', err);
+      throw err;
+    }
+  }, []);
 
-      // Refresh session list
+  const restoreRevision = useCallback(async (id: string, revision: number) => {
+    try {
+      const session = await apiRestoreSessionRevision(id, revision);
+      if (selectedSessionIdRef.current === id) {
+        setSelectedSession(session);
+      }
       await refreshSessions();
     } catch (err) {
-      console.error('Failed to delete session:', err);
+      console.error('Failed to restore revision:', err);
       throw err;
     }
-  }, [savedSessionIds, selectedSessionId, loadSavedSessions, refreshSessions]);
+  }, [refreshSessions]);
+
+  const setListFilters = useCallback((filters: SessionListFilters) => {
+    const current = listFiltersRef.current;
+    if (
+      !!current.deleted === !!filters.deleted &&
+      !!current.starred === !!filters.starred &&
+      current.saved === filters.saved &&
+      current.tag === filters.tag
+    ) {
+      return;
+    }
+    listFiltersRef.current = filters;
+    setListFiltersState(filters);
+    // The filtered list starts again from its first page
+    loadedCountRef.current = 0;
+    setIsLoading(true);
+    refreshSessions();
+  }, [refreshSessions]);
 
   const toggleCapturing = useCallback(async (enabled: boolean) => {
     try {
@@ -163,12 +381,25 @@ export function useSessions(): UseSessionsResult {
   const searchSessions = useCallback(async (query: string) => {
     try {
       setError(null);
-      const sessionList = await getAllSessions(query);
-      setSessions(sessionList);
+      searchQueryRef.current = query;
+      // A new search starts again from the first page
+      loadedCountRef.current = 0;
+      const page = await getSessionsPage({
+        search: query || undefined,
+        ...toQuery(listFiltersRef.current, savedIdsRef.current),
+        limit: PAGE_SIZE,
+      });
+      applyFirstPage(page);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Search failed');
     }
-  }, []);
+  }, [applyFirstPage]);
+
+  const pair = useCallback(async (code: string) => {
+    await pairWithService(code);
+    await checkProxyStatus();
+    await refreshSessions();
+  }, [checkProxyStatus, refreshSessions]);
 
   // Initial load
   useEffect(() => {
@@ -180,20 +411,178 @@ export function useSessions(): UseSessionsResult {
     init();
   }, [checkProxyStatus, loadSavedSessions, refreshSessions]);
 
-  // Poll for updates
+  // Whether the list shows only sessions matching a search or filter
+  const isNarrowedList = () =>
+    !!(
+      searchQueryRef.current ||
+      listFiltersRef.current.starred ||
+      listFiltersRef.current.saved !== undefined ||
+      listFiltersRef.current.tag
+    );
+
+  // Apply a pushed change to the current state
+  const handleServiceEvent = useCallback((event: ServiceEvent) => {
+    if (event.type === 'capture.status') {
+      setProxyStatus((prev) => (prev ? { ...prev, ...event.status } : prev));
+      return;
+    }
+
+    // Keep the live session count current whichever list is shown
+    if (event.type === 'session.created' || event.type === 'session.restored') {
+      setProxyStatus((prev) => (prev ? { ...prev, sessionCount: prev.sessionCount + 1 } : prev));
+    } else if (event.type === 'session.deleted') {
+      setProxyStatus((prev) =>
+        prev ? { ...prev, sessionCount: Math.max(0, prev.sessionCount - 1) } : prev
+      );
+    }
+
+    if (listFiltersRef.current.deleted) {
+      // Trash changes are rare; reload rather than patch
+      if (event.type !== 'session.created' && event.type !== 'session.updated') {
+        refreshSessions();
+      }
+      return;
+    }
+
+    switch (event.type) {
+      case 'session.created':
+      case 'session.updated': {
+        const { session } = event;
+        if (isNarrowedList()) {
+          // Only the service knows whether the session matches the search
+          refreshSessions();
+        } else {
+          // Newest first: a new capture moves the session to the top, other
+          // edits (title, tags, star) keep its place
+          setSessions((prev) => {
+            const existing = prev.find((s) => s.id === session.id);
+            const next = existing && existing.captured_at === session.captured_at
+              ? prev.map((s) => (s.id === session.id ? session : s))
+              : [session, ...prev.filter((s) => s.id !== session.id)];
+            loadedCountRef.current = next.length;
+            return next;
+          });
+          if (event.type === 'session.created') {
+            setTotalSessions((prev) => prev + 1);
+          }
+        }
+        if (selectedSessionIdRef.current === session.id) {
+          getSessionById(session.id)
+            .then(setSelectedSession)
+            .catch((err) => console.error('Failed to reload session detail:', err));
+        }
+        break;
+      }
+
+      case 'session.deleted':
+        if (isNarrowedList()) {
+          refreshSessions();
+        } else {
+          setSessions((prev) => {
+            const next = prev.filter((s) => s.id !== event.id);
+            loadedCountRef.current = next.length;
+            return next;
+          });
+          setTotalSessions((prev) => Math.max(0, prev - 1));
+        }
+        break;
+
+      case 'session.restored':
+        // Restored sessions return to their place by capture time
+        refreshSessions();
+        break;
+
+      case 'session.purged':
+        // Normally already gone from this list (purged from the trash); a live
+        // session purged by retention or another client is counted out here
+        if (!sessionsRef.current.some((s) => s.id === event.id)) break;
+        setProxyStatus((prev) =>
+          prev ? { ...prev, sessionCount: Math.max(0, prev.sessionCount - 1) } : prev
+        );
+        if (isNarrowedList()) {
+          refreshSessions();
+        } else {
+          setSessions((prev) => {
+            const next = prev.filter((s) => s.id !== event.id);
+            loadedCountRef.current = next.length;
+            return next;
+          });
+          setTotalSessions((prev) => Math.max(0, prev - 1));
+        }
+        break;
+
+      case 'database.restored': {
+        // Any session may have changed or gone; reload the list and the open one
+        refreshSessions();
+        const selectedId = selectedSessionIdRef.current;
+        if (selectedId) {
+          getSessionById(selectedId)
+            .then(setSelectedSession)
+            .catch(() => {
+              if (selectedSessionIdRef.current !== selectedId) return;
+              selectedSessionIdRef.current = null;
+              setSelectedSessionId(null);
+              setSelectedSession(null);
+            });
+        }
+        break;
+      }
+    }
+  }, [refreshSessions]);
+
+  // Subscribe to live updates, reconnecting when the stream drops
   useEffect(() => {
+    let unsubscribe: (() => void) | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+
+    const connect = () => {
+      unsubscribe = subscribeToEvents({
+        onOpen: () => {
+          setStreamConnected(true);
+          // Catch up on changes made while disconnected
+          checkProxyStatus();
+          refreshSessions();
+        },
+        onEvent: handleServiceEvent,
+        onClose: () => {
+          setStreamConnected(false);
+          if (!stopped) {
+            retryTimer = setTimeout(connect, STREAM_RETRY_MS);
+          }
+        },
+      });
+    };
+    connect();
+
+    return () => {
+      stopped = true;
+      unsubscribe?.();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [checkProxyStatus, refreshSessions, handleServiceEvent]);
+
+  // Poll for updates while the event stream is down
+  useEffect(() => {
+    if (streamConnected) return;
+
     const stopPolling = createPollingInterval(async () => {
       await checkProxyStatus();
       await refreshSessions();
     }, 5000);
 
     return stopPolling;
-  }, [checkProxyStatus, refreshSessions]);
+  }, [streamConnected, checkProxyStatus, refreshSessions]);
 
   return {
     proxyStatus,
     isConnecting,
+    needsPairing,
     sessions,
+    totalSessions,
+    hasMoreSessions: nextCursor !== null,
+    isLoadingMore,
+    showTrash: !!listFilters.deleted,
     savedSessions,
     savedSessionIds,
     selectedSession,
@@ -202,10 +591,18 @@ export function useSessions(): UseSessionsResult {
     isLoading,
     error,
     refreshSessions,
+    loadMoreSessions,
     selectSession,
     saveSession,
     deleteSession,
+    restoreSession,
+    purgeSession,
+    emptyTrash,
+    restoreRevision,
+    setListFilters,
+    updateSessionMeta,
     toggleCapturing,
     searchSessions,
+    pair,
   };
 }
@@ -1,6 +1,30 @@
-import { SessionSummary, CapturedSession, ProxyStatus } from '../types';
+import {
+  SessionSummary,
+  CapturedSession,
+  SessionPage,
+  SessionQuery,
+  SessionMetaChanges,
+  RevisionSummary,
+  RevisionDetail,
+  ProxyStatus,
+  ServiceConfig,
+  ServiceConfigUpdateResult,
+  ServiceEvent,
+  RetentionPolicy,
+  RetentionPreview,
+  ExportFormat,
+  ExportedFile,
+} from '../types';
+import {
+  getServicePort,
+  setServicePort,
+  getServiceToken,
+  setServiceToken,
+} from '../utils/settings';
 
-const API_BASE_URL = 'http://localhost:3847';
+function getApiBaseUrl(): string {
+  return `http://localhost:${getServicePort()}`;
+}
 
 class ProxyApiError extends Error {
   constructor(
@@ -12,15 +36,20 @@ class ProxyApiError extends Error {
   }
 }
 
-async function fetchApi<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
+// The service answers 401 until the add-in has paired with it
+export function isPairingRequired(error: unknown): boolean {
+  return error instanceof ProxyApiError && error.status === 401;
+}
+
+// Make an API request; throws ProxyApiError on HTTP and network errors
+async function fetchResponse(endpoint: string, options: RequestInit = {}): Promise<Response> {
+  const token = getServiceToken();
   try {
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    const response = await fetch(`${getApiBaseUrl()}${endpoint}`, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
         ...options.headers,
       },
     });
@@ -33,7 +62,7 @@ async function fetchApi<T>(
       );
     }
 
-    return response.json();
+    return response;
   } catch (error) {
     if (error instanceof ProxyApiError) {
       throw error;
@@ -47,6 +76,20 @@ async function fetchApi<T>(
   }
 }
 
+async function fetchApi<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  const response = await fetchResponse(endpoint, options);
+  return response.json();
+}
+
+// Exchange the code shown in the capture service's tray for its API token
+export async function pairWithService(code: string): Promise<void> {
+  const { token } = await fetchApi<{ token: string }>('/pair', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+  setServiceToken(token);
+}
+
 export async function getProxyStatus(): Promise<ProxyStatus> {
   return fetchApi<ProxyStatus>('/status');
 }
@@ -58,15 +101,76 @@ export async function setCapturing(enabled: boolean): Promise<{ capturing: boole
   });
 }
 
-export async function getAllSessions(search?: string): Promise<SessionSummary[]> {
-  const queryString = search ? `?search=${encodeURIComponent(search)}` : '';
-  return fetchApi<SessionSummary[]>(`/sessions${queryString}`);
+export async function getSessionsPage(query: SessionQuery = {}): Promise<SessionPage> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (Array.isArray(value)) {
+      // Sent even when empty: no ids is a filter too
+      params.set(key, value.join(','));
+    } else if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+  const queryString = params.toString();
+  return fetchApi<SessionPage>(`/sessions${queryString ? `?${queryString}` : ''}`);
 }
 
 export async function getSessionById(id: string): Promise<CapturedSession> {
   return fetchApi<CapturedSession>(`/sessions/${encodeURIComponent(id)}`);
 }
 
+export async function updateSessionMeta(
+  id: string,
+  changes: SessionMetaChanges
+): Promise<SessionSummary> {
+  return fetchApi<SessionSummary>(`/sessions/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+}
+
+// An exported file and the name the service gave it
+async function readExport(response: Response): Promise<ExportedFile> {
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || 'claude-session-export';
+  return { blob: await response.blob(), filename };
+}
+
+export async function exportSession(id: string, format: ExportFormat): Promise<ExportedFile> {
+  const response = await fetchResponse(
+    `/sessions/${encodeURIComponent(id)}/export?format=${format}`
+  );
+  return readExport(response);
+}
+
+// Several sessions in one file; every live session when ids is omitted
+export async function exportSessions(format: ExportFormat, ids?: string[]): Promise<ExportedFile> {
+  const response = await fetchResponse('/export', {
+    method: 'POST',
+    body: JSON.stringify({ format, ids }),
+  });
+  return readExport(response);
+}
+
+export async function getSessionRevisions(id: string): Promise<RevisionSummary[]> {
+  return fetchApi<RevisionSummary[]>(`/sessions/${encodeURIComponent(id)}/revisions`);
+}
+
+export async function getSessionRevision(id: string, revision: number): Promise<RevisionDetail> {
+  return fetchApi<RevisionDetail>(`/sessions/${encodeURIComponent(id)}/revisions/${revision}`);
+}
+
+// Returns the session as it is after the restore
+export async function restoreSessionRevision(
+  id: string,
+  revision: number
+): Promise<CapturedSession> {
+  return fetchApi<CapturedSession>(
+    `/sessions/${encodeURIComponent(id)}/revisions/${revision}/restore`,
+    { method: 'POST' }
+  );
+}
+
 export async function getSessionsByWorkbook(
   workbookName: string
 ): Promise<SessionSummary[]> {
@@ -75,17 +179,65 @@ export async function getSessionsByWorkbook(
   );
 }
 
-export async function deleteSession(id: string): Promise<{ success: boolean }> {
+// Moves the session to the trash unless permanent is set
+export async function deleteSession(
+  id: string,
+  permanent = false
+): Promise<{ success: boolean }> {
   return fetchApi<{ success: boolean }>(
-    `/sessions/${encodeURIComponent(id)}`,
+    `/sessions/${encodeURIComponent(id)}${permanent ? '?permanent=true' : ''}`,
     { method: 'DELETE' }
   );
 }
 
+export async function restoreSession(id: string): Promise<SessionSummary> {
+  return fetchApi<SessionSummary>(
+    `/sessions/${encodeURIComponent(id)}/restore`,
+    { method: 'POST' }
+  );
+}
+
+export async function emptyTrash(): Promise<{ success: boolean; purged: number }> {
+  return fetchApi<{ success: boolean; purged: number }>('/sessions?deleted=true', {
+    method: 'DELETE',
+  });
+}
+
 export async function clearAllSessions(): Promise<{ success: boolean }> {
   return fetchApi<{ success: boolean }>('/sessions', { method: 'DELETE' });
 }
 
+export async function getServiceConfig(): Promise<ServiceConfig> {
+  return fetchApi<ServiceConfig>('/config');
+}
+
+// Change capture service settings; follows the service to its new port
+export async function updateServiceConfig(
+  changes: Partial<ServiceConfig>
+): Promise<ServiceConfigUpdateResult> {
+  const result = await fetchApi<ServiceConfigUpdateResult>('/config', {
+    method: 'PUT',
+    body: JSON.stringify(changes),
+  });
+  setServicePort(result.apiPort);
+  return result;
+}
+
+// What the retention policy would remove now. Fields of `policy` override
+// the saved policy; a null limit means no limit.
+export async function getRetentionPreview(
+  policy: Partial<RetentionPolicy> = {}
+): Promise<RetentionPreview> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(policy)) {
+    if (value !== undefined) {
+      params.set(key, value === null ? '' : String(value));
+    }
+  }
+  const queryString = params.toString();
+  return fetchApi<RetentionPreview>(`/retention/preview${queryString ? `?${queryString}` : ''}`);
+}
+
 export async function checkHealth(): Promise<boolean> {
   try {
     await fetchApi<{ status: string }>('/health');
@@ -95,6 +247,75 @@ export async function checkHealth(): Promise<boolean> {
   }
 }
 
+interface EventStreamHandlers {
+  onOpen: () => void;
+  onEvent: (event: ServiceEvent) => void;
+  // Called once when the stream fails or ends (not after unsubscribing)
+  onClose: () => void;
+}
+
+// Split a Server-Sent Events buffer into complete messages; returns the rest
+function parseEventStream(buffer: string, onData: (data: string) => void): string {
+  const messages = buffer.split(/\r?\n\r?\n/);
+  const rest = messages.pop() ?? '';
+  for (const message of messages) {
+    const data = message
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.substring(5).trimStart())
+      .join('\n');
+    if (data) onData(data);
+  }
+  return rest;
+}
+
+// Subscribe to GET /events. Uses fetch rather than EventSource so the token
+// can go in the Authorization header. Returns an unsubscribe function.
+export function subscribeToEvents(handlers: EventStreamHandlers): () => void {
+  const controller = new AbortController();
+  const token = getServiceToken();
+
+  const run = async () => {
+    const response = await fetch(`${getApiBaseUrl()}/events`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      signal: controller.signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new ProxyApiError(`HTTP ${response.status}`, response.status);
+    }
+    handlers.onOpen();
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer = parseEventStream(buffer + decoder.decode(value, { stream: true }), (data) => {
+        try {
+          handlers.onEvent(JSON.parse(data) as ServiceEvent);
+        } catch (err) {
+          console.error('Ignoring malformed service event:', err);
+        }
+      });
+    }
+  };
+
+  run()
+    .catch((err) => {
+      if (!controller.signal.aborted) {
+        console.warn('Event stream failed:', err);
+      }
+    })
+    .finally(() => {
+      if (!controller.signal.aborted) {
+        handlers.onClose();
+      }
+    });
+
+  return () => controller.abort();
+}
+
 export function createPollingInterval(
   callback: () => void,
   intervalMs: number = 5000
@@ -54,7 +54,16 @@ function parseAssistantResponseFromResponse(responseBody: string): SavedMessage
   }
 }
 
-export function convertCapturedToSaved(session: CapturedSession): SavedSession {
+function messagesFromSession(session: CapturedSession): SavedMessage[] {
+  if (session.messages && session.messages.length > 0) {
+    return session.messages.map((msg) => ({
+      role: msg.role,
+      content: msg.content,
+      cellContext: msg.cell_context ?? undefined,
+    }));
+  }
+
+  // Sessions from older capture services only carry the JSON bodies
   const messages = parseMessagesFromRequest(session.request_body);
   const assistantResponse = parseAssistantResponseFromResponse(session.response_body);
 
@@ -62,6 +71,12 @@ export function convertCapturedToSaved(session: CapturedSession): SavedSession {
     messages.push(assistantResponse);
   }
 
+  return messages;
+}
+
+export function convertCapturedToSaved(session: CapturedSession): SavedSession {
+  const messages = messagesFromSession(session);
+
   return {
     id: session.id,
     capturedAt: session.captured_at,
@@ -6,6 +6,59 @@ export interface SessionSummary {
   input_tokens: number | null;
   output_tokens: number | null;
   user_prompt_preview: string | null;
+  title: string | null;
+  // 'auto' titles are generated by the service; 'user' titles were edited
+  title_source: TitleSource;
+  starred: boolean;
+  // Saved to a workbook at least once
+  saved: boolean;
+  tags: string[];
+  // Set while the session is in the trash
+  deleted_at: string | null;
+  // Highlighted excerpt of the best matching message (search results only)
+  snippet?: string | null;
+}
+
+export type TitleSource = 'auto' | 'user';
+
+// Body of PATCH /sessions/:id
+export interface SessionMetaChanges {
+  // null goes back to the generated title
+  title?: string | null;
+  tags?: string[];
+  starred?: boolean;
+  // Tells the service the session is in a workbook (spared by retention)
+  saved?: boolean;
+}
+
+export type SessionSort = 'newest' | 'oldest' | 'relevance';
+
+// Query parameters of GET /sessions
+export interface SessionQuery {
+  search?: string;
+  workbook?: string;
+  model?: string;
+  from?: string;
+  to?: string;
+  sort?: SessionSort;
+  limit?: number;
+  cursor?: string;
+  // List the trash instead of live sessions
+  deleted?: boolean;
+  starred?: boolean;
+  // Only these sessions, or every session but these
+  ids?: string[];
+  excludeIds?: string[];
+  tag?: string;
+  title?: string;
+}
+
+export interface SessionPage {
+  sessions: SessionSummary[];
+  // Pass back as `cursor` for the next page; null on the last page
+  nextCursor: string | null;
+  // Sessions matching the query across all pages
+  total: number;
 }
 
 export interface CapturedSession {
@@ -19,6 +72,40 @@ export interface CapturedSession {
   output_tokens: number | null;
   user_prompt: string | null;
   assistant_response: string | null;
+  title: string | null;
+  title_source: TitleSource;
+  starred: boolean;
+  saved: boolean;
+  tags: string[];
+  deleted_at: string | null;
+  // Thread messages, included when a single session is fetched
+  messages?: StoredMessage[];
+}
+
+export interface StoredMessage {
+  id: number;
+  session_id: string;
+  ordinal: number;
+  role: 'user' | 'assistant';
+  content: string;
+  cell_context: string | null;
+  first_seen_at: string;
+  updated_at: string;
+}
+
+export interface RevisionSummary {
+  revision: number;
+  created_at: string;
+  message_count: number;
+  added: number;
+  changed: number;
+  removed: number;
+  // The revision this one brought back, null for captured changes
+  restored_from: number | null;
+}
+
+export interface RevisionDetail extends RevisionSummary {
+  messages: { role: 'user' | 'assistant'; content: string; cellContext?: string }[];
 }
 
 export interface ProxyStatus {
@@ -27,6 +114,83 @@ export interface ProxyStatus {
   sessionCount: number;
   port: number;
   apiPort: number;
+  // sessions.db is encrypted at rest
+  encrypted: boolean;
+}
+
+// Pushed by the capture service on GET /events
+export type ServiceEvent =
+  | { type: 'session.created'; session: SessionSummary }
+  | { type: 'session.updated'; session: SessionSummary }
+  | { type: 'session.deleted'; id: string }
+  | { type: 'session.restored'; session: SessionSummary }
+  | { type: 'session.purged'; id: string }
+  // Sessions were restored from a backup
+  | { type: 'database.restored' }
+  | { type: 'capture.status'; status: Pick<ProxyStatus, 'running' | 'capturing'> };
+
+export interface ServiceConfig {
+  apiPort: number;
+  pollIntervalMs: number;
+  notifications: boolean;
+  recordMode: boolean;
+  databasePath: string | null;
+  // Days a deleted session stays in the trash
+  trashRetentionDays: number;
+  // Daily retention; null limits mean no limit
+  retentionEnabled: boolean;
+  retentionMaxAgeDays: number | null;
+  retentionMaxSessions: number | null;
+  retentionMaxDatabaseMB: number | null;
+  retentionKeepStarred: boolean;
+  retentionKeepSaved: boolean;
+  // Scheduled snapshots of the database
+  backupEnabled: boolean;
+  backupIntervalHours: number;
+  backupKeepCount: number;
+}
+
+export interface RetentionPolicy {
+  maxAgeDays: number | null;
+  maxSessions: number | null;
+  maxDatabaseMB: number | null;
+  keepStarred: boolean;
+  keepSaved: boolean;
+}
+
+export interface RetentionRemoval {
+  id: string;
+  title: string | null;
+  captured_at: string;
+  reason: 'age' | 'count' | 'size';
+  bytes: number;
+}
+
+// GET /retention/preview
+export interface RetentionPreview {
+  enabled: boolean;
+  policy: RetentionPolicy;
+  removals: RetentionRemoval[];
+  database_bytes: number;
+  freed_bytes: number;
+  // Report of the last run, if any
+  lastRun: (Omit<RetentionPreview, 'enabled' | 'lastRun'> & {
+    ran_at: string;
+    database_bytes_after: number;
+  }) | null;
+}
+
+export interface ServiceConfigUpdateResult extends ServiceConfig {
+  // True when a change (the database path) only applies after a restart
+  restartRequired: boolean;
+}
+
+// Formats of the service's export endpoints
+export type ExportFormat = 'md' | 'html' | 'json' | 'jsonl' | 'csv';
+
+export interface ExportedFile {
+  blob: Blob;
+  filename: string;
 }
 
 export interface SavedSession {
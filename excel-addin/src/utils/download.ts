@@ -0,0 +1,12 @@
+// Save a file from the task pane through the browser's download handling
+export function downloadFile(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -5,12 +5,20 @@
 
 const SETTINGS_KEY = 'claude-memory-settings';
 
+export const DEFAULT_SERVICE_PORT = 3847;
+
 export interface Settings {
   anthropicApiKey: string | null;
+  // Port of the local capture service API
+  servicePort: number;
+  // Token received when pairing with the capture service
+  serviceToken: string | null;
 }
 
 const defaultSettings: Settings = {
   anthropicApiKey: null,
+  servicePort: DEFAULT_SERVICE_PORT,
+  serviceToken: null,
 };
 
 export function getSettings(): Settings {
@@ -43,3 +51,19 @@ export function hasApiKey(): boolean {
   const key = getApiKey();
   return key !== null && key.trim().length > 0;
 }
+
+export function getServicePort(): number {
+  return getSettings().servicePort;
+}
+
+export function setServicePort(port: number): void {
+  saveSettings({ servicePort: port });
+}
+
+export function getServiceToken(): string | null {
+  return getSettings().serviceToken;
+}
+
+export function setServiceToken(token: string | null): void {
+  saveSettings({ serviceToken: token });
+}